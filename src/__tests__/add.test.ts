@@ -0,0 +1,75 @@
+/**
+ * add / clean 共享镜像测试
+ * 同一 URL 标识的仓库共用一个裸镜像，删除或重新添加时不得破坏仍在使用它的仓库
+ */
+
+import fs from "fs-extra";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { Sandbox } from "./helpers/sandbox.js";
+
+const REPO = "acme/shared";
+const REPO_NAME = "example.com/acme/shared";
+
+interface ReposIndex {
+  repos: Record<string, { url: string; path: string; addedAt: string }>;
+}
+
+describe("repositories sharing a mirror", () => {
+  let sandbox: Sandbox;
+  let indexPath: string;
+  let mirror: string;
+
+  beforeAll(async () => {
+    sandbox = await Sandbox.create();
+    sandbox.createRemote(REPO, { "a.ts": "a1\n" });
+    indexPath = path.join(sandbox.grfHome, "repos.json");
+    mirror = path.join(sandbox.grfHome, "mirrors", `${REPO_NAME}.git`);
+  });
+
+  afterAll(async () => {
+    await sandbox.cleanup();
+  });
+
+  it("refuses to add the same repository under another name", async () => {
+    expect(sandbox.grf(["add", sandbox.url(REPO)]).status).toBe(0);
+
+    const result = sandbox.grf(["add", sandbox.url(REPO), "--name", "other"]);
+    expect(result.status).toBe(1);
+    expect(result.stderr).toContain(REPO_NAME);
+
+    const index = (await fs.readJson(indexPath)) as ReposIndex;
+    expect(Object.keys(index.repos)).toEqual([REPO_NAME]);
+
+    sandbox.commit(REPO, { "a.ts": "a2\n" }, "v2");
+    expect(sandbox.grf(["update", "shared"]).status).toBe(0);
+    expect(
+      await fs.readFile(
+        path.join(index.repos[REPO_NAME].path, "a.ts"),
+        "utf-8",
+      ),
+    ).toBe("a2\n");
+  });
+
+  it("keeps a mirror that another index entry still uses", async () => {
+    // 旧版本可能留下两个指向同一 URL 的条目
+    const index = (await fs.readJson(indexPath)) as ReposIndex;
+    const entry = index.repos[REPO_NAME];
+    const copyPath = path.join(sandbox.root, "copy");
+    await fs.copy(
+      path.join(entry.path, ".gitreference-meta.json"),
+      path.join(copyPath, ".gitreference-meta.json"),
+    );
+    index.repos["legacy/copy"] = { ...entry, path: copyPath };
+    await fs.writeJson(indexPath, index);
+
+    expect(sandbox.grf(["clean", "legacy/copy", "--force"]).status).toBe(0);
+
+    expect(fs.existsSync(copyPath)).toBe(false);
+    expect(fs.existsSync(mirror)).toBe(true);
+    expect(sandbox.grf(["update", "shared"]).status).toBe(0);
+    expect(
+      sandbox.git(["rev-parse", "--is-inside-work-tree"], entry.path),
+    ).toBe("true");
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * 传给 git 的分支名和引用的校验测试
+ */
+
+import fs from "fs-extra";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { Sandbox } from "./helpers/sandbox.js";
+
+const REPO = "acme/argv";
+const REPO_NAME = "example.com/acme/argv";
+
+describe("git argument safety", () => {
+  let sandbox: Sandbox;
+  let marker: string;
+
+  beforeAll(async () => {
+    sandbox = await Sandbox.create();
+    sandbox.createRemote(REPO, { "a.txt": "a\n" });
+    marker = path.join(sandbox.root, "pwned");
+  });
+
+  afterAll(async () => {
+    await sandbox.cleanup();
+  });
+
+  it.each(["branch", "ref"])(
+    "refuses a manifest %s that git would parse as an option",
+    async (field) => {
+      const project = path.join(sandbox.root, `manifest-${field}`);
+      const value = `--upload-pack=touch ${marker}`;
+      await fs.outputJson(path.join(project, "grf.json"), {
+        version: "1.0.0",
+        references: [
+          {
+            name: REPO_NAME,
+            url: sandbox.url(REPO),
+            target: "vendor",
+            [field]: value,
+          },
+        ],
+      });
+
+      const result = sandbox.grf(["install"], project);
+      expect(result.status).toBe(1);
+      expect(result.stderr).toContain(value);
+      expect(fs.existsSync(marker)).toBe(false);
+      expect(fs.existsSync(path.join(project, "vendor"))).toBe(false);
+    },
+  );
+
+  it("refuses a --ref value starting with a dash on load", () => {
+    const result = sandbox.grf([
+      "load",
+      sandbox.url(REPO),
+      "--ref",
+      `--upload-pack=touch ${marker}`,
+    ]);
+    expect(result.status).toBe(1);
+    expect(fs.existsSync(marker)).toBe(false);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * cache stats 测试
+ */
+
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { Sandbox } from "./helpers/sandbox.js";
+
+/**
+ * cache stats --json 输出中的仓库
+ */
+interface RepoStats {
+  name: string;
+  size: number;
+  depth: number | null;
+  lastLoadedAt: string | null;
+  projects: string[];
+  entries: number;
+}
+
+describe("cache stats", () => {
+  let sandbox: Sandbox;
+
+  beforeAll(async () => {
+    sandbox = await Sandbox.create();
+    sandbox.createRemote("acme/small", { "a.ts": "a\n" });
+    sandbox.createRemote("acme/big", {
+      "data.txt": "0123456789abcdef\n".repeat(16 * 1024),
+    });
+    expect(sandbox.grf(["add", sandbox.url("acme/small")]).status).toBe(0);
+    expect(sandbox.grf(["load", sandbox.url("acme/big"), "one"]).status).toBe(
+      0,
+    );
+    expect(sandbox.grf(["load", "big", "two"]).status).toBe(0);
+  });
+
+  afterAll(async () => {
+    await sandbox.cleanup();
+  });
+
+  it("reports size, depth and load statistics per repository", () => {
+    const result = sandbox.grf(["cache", "stats", "--json"]);
+    expect(result.status).toBe(0);
+
+    const stats = JSON.parse(result.stdout) as {
+      repositories: RepoStats[];
+      totalSize: number;
+    };
+    const find = (name: string): RepoStats | undefined =>
+      stats.repositories.find((repo) => repo.name === `example.com/${name}`);
+    const big = find("acme/big")!;
+    const small = find("acme/small")!;
+
+    expect(big).toMatchObject({
+      depth: 1,
+      projects: [sandbox.project],
+      entries: 2,
+    });
+    expect(big.lastLoadedAt).not.toBeNull();
+    expect(small).toMatchObject({
+      lastLoadedAt: null,
+      projects: [],
+      entries: 0,
+    });
+    expect(big.size).toBeGreaterThan(small.size);
+    expect(stats.totalSize).toBe(big.size + small.size);
+  });
+
+  it("lists the largest repository first with a total line", () => {
+    const result = sandbox.grf(["cache", "stats"]);
+    expect(result.status).toBe(0);
+    expect(result.stdout.indexOf("example.com/acme/big")).toBeLessThan(
+      result.stdout.indexOf("example.com/acme/small"),
+    );
+    expect(result.stdout).toContain("Total: 2 repositories");
+  });
+});
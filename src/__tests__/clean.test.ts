@@ -0,0 +1,55 @@
+/**
+ * clean --cascade 测试
+ */
+
+import fs from "fs-extra";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { Sandbox } from "./helpers/sandbox.js";
+
+const REPO = "acme/tool";
+const REPO_NAME = "example.com/acme/tool";
+
+describe("clean --cascade", () => {
+  let sandbox: Sandbox;
+
+  beforeAll(async () => {
+    sandbox = await Sandbox.create();
+    sandbox.createRemote(REPO, { "index.ts": "tool\n" });
+  });
+
+  afterAll(async () => {
+    await sandbox.cleanup();
+  });
+
+  it("drops legacy entries without touching files relative to cwd", async () => {
+    expect(sandbox.grf(["add", sandbox.url(REPO)]).status).toBe(0);
+
+    // 旧版本记录的条目没有工作目录
+    await fs.outputFile(path.join(sandbox.project, "vendor/tool/keep.ts"), "");
+    await fs.writeJson(path.join(sandbox.grfHome, "loading.json"), {
+      version: 2,
+      loadedRepos: {
+        "::vendor/tool": {
+          id: "legacy",
+          repoName: REPO_NAME,
+          repoUrl: sandbox.url(REPO),
+          commitId: "",
+          targetPath: "vendor/tool",
+          loadedAt: new Date().toISOString(),
+          workingDirectory: "",
+        },
+      },
+    });
+
+    const result = sandbox.grf(["clean", "tool", "--force", "--cascade"]);
+    expect(result.status).toBe(0);
+    expect(result.stdout).toContain("Skipped 1 reference");
+
+    expect(sandbox.read("vendor/tool/keep.ts")).toBe("");
+    const state = (await fs.readJson(
+      path.join(sandbox.grfHome, "loading.json"),
+    )) as { loadedRepos: Record<string, unknown> };
+    expect(state.loadedRepos).toEqual({});
+  });
+});
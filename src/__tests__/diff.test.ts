@@ -0,0 +1,69 @@
+/**
+ * diff 测试
+ */
+
+import fs from "fs-extra";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { Sandbox } from "./helpers/sandbox.js";
+
+const REPO = "acme/diffed";
+const TARGET = ".gitreference/example.com/acme/diffed";
+
+describe("diff", () => {
+  let sandbox: Sandbox;
+  let v1: string;
+  let v2: string;
+
+  /**
+   * 替换 loading.json 中记录的加载 commit
+   * @param from 原 commit
+   * @param to 新的 commit
+   */
+  async function replaceLoadedCommit(from: string, to: string): Promise<void> {
+    const file = path.join(sandbox.grfHome, "loading.json");
+    const content = await fs.readFile(file, "utf-8");
+    await fs.writeFile(file, content.split(`"${from}"`).join(`"${to}"`));
+  }
+
+  beforeAll(async () => {
+    sandbox = await Sandbox.create();
+    v1 = sandbox.createRemote(REPO, {
+      "src/a.ts": "a1\n",
+      "src/b.ts": "b1\n",
+    });
+    expect(sandbox.grf(["add", sandbox.url(REPO)]).status).toBe(0);
+    expect(sandbox.grf(["load", "diffed"]).status).toBe(0);
+
+    v2 = sandbox.commit(REPO, { "src/a.ts": "a2\n" }, "v2");
+    expect(sandbox.grf(["update", "diffed"]).status).toBe(0);
+  });
+
+  afterAll(async () => {
+    await sandbox.cleanup();
+  });
+
+  it("lists the files changed since the loaded commit", () => {
+    const result = sandbox.grf(["diff", "diffed", "--name-only"]);
+    expect(result.status).toBe(0);
+    expect(result.stdout.trim()).toBe("src/a.ts");
+  });
+
+  it("compares against the commit locked in grf.lock", async () => {
+    await replaceLoadedCommit(v1, v2);
+
+    const result = sandbox.grf(["diff", "diffed"]);
+    expect(result.status).toBe(0);
+    expect(result.stdout).toContain(`${v1.slice(0, 7)} (loaded)`);
+    expect(result.stdout).toContain("+a2");
+  });
+
+  it("reports entries without a known loaded commit", async () => {
+    await fs.remove(path.join(sandbox.project, "grf.lock"));
+    await replaceLoadedCommit(v2, "");
+
+    const result = sandbox.grf(["diff", "diffed"]);
+    expect(result.status).toBe(1);
+    expect(result.stderr).toContain(TARGET);
+  });
+});
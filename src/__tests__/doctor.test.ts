@@ -0,0 +1,89 @@
+/**
+ * doctor 测试
+ */
+
+import fs from "fs-extra";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { Sandbox } from "./helpers/sandbox.js";
+
+const LIB = "example.com/acme/lib";
+const GONE = "example.com/acme/gone";
+
+describe("doctor", () => {
+  let sandbox: Sandbox;
+  let orphan: string;
+
+  beforeAll(async () => {
+    sandbox = await Sandbox.create();
+    sandbox.createRemote("acme/lib", { "a.ts": "a\n" });
+    sandbox.createRemote("acme/gone", { "b.ts": "b\n" });
+    expect(sandbox.grf(["load", sandbox.url("acme/lib"), "kept"]).status).toBe(
+      0,
+    );
+    expect(sandbox.grf(["load", "lib", "deleted"]).status).toBe(0);
+    expect(sandbox.grf(["add", sandbox.url("acme/gone")]).status).toBe(0);
+
+    // 制造各类不一致
+    orphan = path.join(sandbox.grfHome, "repos", "example.com", "stray");
+    await fs.outputFile(path.join(orphan, "x.txt"), "x\n");
+    await fs.remove(path.join(sandbox.grfHome, "repos", GONE));
+    await fs.remove(
+      path.join(sandbox.grfHome, "repos", LIB, ".gitreference-meta.json"),
+    );
+    await fs.remove(path.join(sandbox.project, "deleted"));
+    await fs.writeFile(
+      path.join(sandbox.project, ".gitignore"),
+      sandbox
+        .read(".gitignore")
+        .split("\n")
+        .filter((line) => !line.startsWith("kept"))
+        .join("\n"),
+    );
+  });
+
+  afterAll(async () => {
+    await sandbox.cleanup();
+  });
+
+  it("reports each class of problem without changing anything", () => {
+    const result = sandbox.grf(["doctor"]);
+    expect(result.status).toBe(0);
+    expect(result.stdout).toContain("Found 5 problems");
+    for (const title of [
+      "Orphaned cache directories (1)",
+      "Indexed repositories without a directory (1)",
+      "Repositories without a metadata file (1)",
+      "Loading entries whose project or target is gone (1)",
+      "Missing .gitignore entries (1)",
+    ]) {
+      expect(result.stdout).toContain(title);
+    }
+    expect(result.stdout).toContain("grf doctor --fix");
+    expect(fs.existsSync(orphan)).toBe(true);
+  });
+
+  it("repairs the problems with --fix", async () => {
+    const result = sandbox.grf(["doctor", "--fix"]);
+    expect(result.status).toBe(0);
+
+    expect(fs.existsSync(orphan)).toBe(false);
+    expect(
+      fs.existsSync(path.join(sandbox.grfHome, "mirrors", `${GONE}.git`)),
+    ).toBe(false);
+    expect(
+      fs.existsSync(
+        path.join(sandbox.grfHome, "repos", LIB, ".gitreference-meta.json"),
+      ),
+    ).toBe(true);
+    expect(sandbox.read(".gitignore")).toContain("kept");
+
+    const index = (await fs.readJson(
+      path.join(sandbox.grfHome, "repos.json"),
+    )) as { repos: Record<string, unknown> };
+    expect(Object.keys(index.repos)).toEqual([LIB]);
+
+    expect(sandbox.grf(["doctor"]).stdout).toContain("No problems found.");
+    expect(sandbox.grf(["update", "lib", "--sync"]).status).toBe(0);
+  });
+});
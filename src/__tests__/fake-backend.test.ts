@@ -0,0 +1,93 @@
+/**
+ * 通过 setGitBackend 注入模拟后端，在进程内执行 add/update 流程
+ */
+
+import fs from "fs-extra";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { resetGitBackend, setGitBackend } from "../core/git-backend.js";
+import { clearStorageRootCache } from "../core/paths.js";
+import * as repository from "../core/repository.js";
+import { updateRepo } from "../commands/update/helpers.js";
+import { FakeGitBackend } from "./helpers/fake-git-backend.js";
+
+// 配置模块在导入时确定文件路径，因此在导入前设置 GRF_HOME
+const sandbox = vi.hoisted(() => {
+  /* eslint-disable @typescript-eslint/no-require-imports */
+  const os = require("os") as typeof import("os");
+  const nodePath = require("path") as typeof import("path");
+  const nodeFs = require("fs") as typeof import("fs");
+  /* eslint-enable @typescript-eslint/no-require-imports */
+  const root = nodeFs.mkdtempSync(nodePath.join(os.tmpdir(), "grf-fake-"));
+  const previousHome = process.env.GRF_HOME;
+  process.env.GRF_HOME = nodePath.join(root, "grf-home");
+  return { root, previousHome };
+});
+
+describe("core flows with the fake git backend", () => {
+  let fake: FakeGitBackend;
+
+  /**
+   * 读取缓存仓库检出目录中的文件
+   * @param repoName 仓库名称
+   * @param file 文件相对路径
+   * @returns 文件内容
+   */
+  async function readCached(repoName: string, file: string): Promise<string> {
+    const repoInfo = await repository.get(repoName);
+    return fs.readFile(path.join(repoInfo!.path, file), "utf8");
+  }
+
+  beforeAll(() => {
+    clearStorageRootCache();
+    fake = new FakeGitBackend(path.join(sandbox.root, "remotes"));
+    setGitBackend(fake);
+  });
+
+  afterAll(async () => {
+    resetGitBackend();
+    if (sandbox.previousHome === undefined) {
+      delete process.env.GRF_HOME;
+    } else {
+      process.env.GRF_HOME = sandbox.previousHome;
+    }
+    clearStorageRootCache();
+    await fs.remove(sandbox.root);
+  });
+
+  it("adds a repository and fast-forwards it on update", async () => {
+    const url = "https://github.com/acme/forward";
+    const repoName = "github.com/acme/forward";
+    await fake.commit(url, "main", { "README.md": "v1\n" });
+    const added = await repository.add(url);
+    expect(added.name).toBe(repoName);
+    expect(await readCached(repoName, "README.md")).toBe("v1\n");
+
+    const next = await fake.commit(url, "main", { "README.md": "v2\n" });
+    const result = await updateRepo((await repository.get(repoName))!, false);
+
+    expect(result).toMatchObject({ status: "updated", newCommit: next });
+    expect(await readCached(repoName, "README.md")).toBe("v2\n");
+    expect((await repository.get(repoName))!.commitId).toBe(next);
+  });
+
+  it("resets to rewritten history and keeps a backup ref", async () => {
+    const url = "https://github.com/acme/rewrite";
+    const repoName = "github.com/acme/rewrite";
+    const base = await fake.commit(url, "main", { "a.txt": "a\n" });
+    const dropped = await fake.commit(url, "main", { "a.txt": "dropped\n" });
+    await repository.add(url);
+
+    await fake.resetBranch(url, "main", base);
+    const rewritten = await fake.commit(url, "main", { "a.txt": "new\n" });
+    const result = await updateRepo((await repository.get(repoName))!, false);
+
+    expect(result).toMatchObject({
+      status: "rewritten",
+      oldCommit: dropped,
+      newCommit: rewritten,
+      backupRef: `refs/grf/backup/main/${dropped}`,
+    });
+    expect(await readCached(repoName, "a.txt")).toBe("new\n");
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * fetch（调整缓存仓库历史深度）测试
+ */
+
+import fs from "fs-extra";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { Sandbox } from "./helpers/sandbox.js";
+
+const REPO = "acme/history";
+const REPO_NAME = "example.com/acme/history";
+
+describe("fetch", () => {
+  let sandbox: Sandbox;
+  let checkout: string;
+
+  /**
+   * 统计缓存检出目录中可见的 commit 数量
+   * @returns commit 数量
+   */
+  function countCommits(): number {
+    return Number(sandbox.git(["rev-list", "--count", "HEAD"], checkout));
+  }
+
+  beforeAll(async () => {
+    sandbox = await Sandbox.create();
+    sandbox.createRemote(REPO, { "a.ts": "1\n" });
+    for (const version of ["2", "3", "4", "5"]) {
+      sandbox.commit(REPO, { "a.ts": `${version}\n` }, `v${version}`);
+    }
+    checkout = path.join(sandbox.grfHome, "repos", REPO_NAME);
+    expect(sandbox.grf(["add", sandbox.url(REPO)]).status).toBe(0);
+  });
+
+  afterAll(async () => {
+    await sandbox.cleanup();
+  });
+
+  it("starts from a shallow clone", () => {
+    expect(countCommits()).toBe(1);
+  });
+
+  it("deepens the history by the given number of commits", () => {
+    const result = sandbox.grf(["fetch", "history", "--deepen", "2"]);
+    expect(result.status).toBe(0);
+    expect(countCommits()).toBe(3);
+  });
+
+  it("fetches the complete history with --unshallow", () => {
+    const result = sandbox.grf(["fetch", "history", "--unshallow"]);
+    expect(result.status).toBe(0);
+    expect(countCommits()).toBe(5);
+    expect(
+      sandbox.git(["rev-parse", "--is-shallow-repository"], checkout),
+    ).toBe("false");
+  });
+
+  it("truncates the history again with --shallow", () => {
+    const result = sandbox.grf(["fetch", "history", "--shallow", "1"]);
+    expect(result.status).toBe(0);
+    expect(countCommits()).toBe(1);
+    expect(fs.readFileSync(path.join(checkout, "a.ts"), "utf-8")).toBe("5\n");
+  });
+
+  it("rejects a depth that is not a positive integer", () => {
+    const result = sandbox.grf(["fetch", "history", "--deepen", "abc"]);
+    expect(result.status).toBe(1);
+    expect(countCommits()).toBe(1);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * add / load / update / sync 端到端流程测试
+ * 远程仓库是沙箱中的本地裸仓库，命令通过编译后的 CLI 执行
+ */
+
+import fs from "fs-extra";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { Sandbox } from "./helpers/sandbox.js";
+
+const REPO = "acme/lib";
+const REPO_NAME = "example.com/acme/lib";
+const TARGET = ".gitreference/example.com/acme/lib";
+
+describe("add / load / update / sync", () => {
+  let sandbox: Sandbox;
+  let v1: string;
+
+  beforeAll(async () => {
+    sandbox = await Sandbox.create();
+    v1 = sandbox.createRemote(REPO, {
+      "src/a.ts": "a1\n",
+      "src/b.ts": "b1\n",
+      "docs/guide.md": "guide\n",
+    });
+    sandbox.tag(REPO, "v1");
+  });
+
+  afterAll(async () => {
+    await sandbox.cleanup();
+  });
+
+  it("adds a remote repository to the cache", async () => {
+    const result = sandbox.grf(["add", sandbox.url(REPO)]);
+    expect(result.status).toBe(0);
+
+    const index = (await fs.readJson(
+      path.join(sandbox.grfHome, "repos.json"),
+    )) as { repos: Record<string, { url: string; path: string }> };
+    const entry = index.repos[REPO_NAME];
+    expect(entry.url).toBe(sandbox.url(REPO));
+    expect(await fs.readFile(path.join(entry.path, "src/a.ts"), "utf-8")).toBe(
+      "a1\n",
+    );
+
+    const list = sandbox.grf(["list"]);
+    expect(list.stdout).toContain(REPO_NAME);
+  });
+
+  it("loads the cached repository into the project", async () => {
+    const result = sandbox.grf(["load", "lib"]);
+    expect(result.status).toBe(0);
+
+    expect(sandbox.read(`${TARGET}/src/a.ts`)).toBe("a1\n");
+    expect(sandbox.read(".gitignore")).toContain(".gitreference/");
+
+    const manifest = (await fs.readJson(
+      path.join(sandbox.project, "grf.json"),
+    )) as { references: { name: string; url: string; target: string }[] };
+    expect(manifest.references).toEqual([
+      expect.objectContaining({
+        name: REPO_NAME,
+        url: sandbox.url(REPO),
+        target: TARGET,
+      }),
+    ]);
+
+    const lock = await fs.readFile(
+      path.join(sandbox.project, "grf.lock"),
+      "utf-8",
+    );
+    expect(lock).toContain(v1);
+  });
+
+  it("updates the cache without touching the loaded copy", () => {
+    sandbox.commit(REPO, { "src/a.ts": "a2\n", "src/b.ts": null }, "v2");
+
+    const result = sandbox.grf(["update", "lib"]);
+    expect(result.status).toBe(0);
+
+    expect(sandbox.read(`${TARGET}/src/a.ts`)).toBe("a1\n");
+    expect(fs.existsSync(path.join(sandbox.project, TARGET, "src/b.ts"))).toBe(
+      true,
+    );
+  });
+
+  it("syncs the loaded copy to the updated cache", () => {
+    const result = sandbox.grf(["update", "lib", "--sync-only"]);
+    expect(result.status).toBe(0);
+
+    expect(sandbox.read(`${TARGET}/src/a.ts`)).toBe("a2\n");
+    expect(fs.existsSync(path.join(sandbox.project, TARGET, "src/b.ts"))).toBe(
+      false,
+    );
+  });
+
+  it("loads a pinned tag next to the branch checkout", () => {
+    const result = sandbox.grf(["load", "lib", "vendor/lib-v1", "--ref", "v1"]);
+    expect(result.status).toBe(0);
+
+    expect(sandbox.read("vendor/lib-v1/src/a.ts")).toBe("a1\n");
+    expect(sandbox.read(`${TARGET}/src/a.ts`)).toBe("a2\n");
+    expect(sandbox.read(".gitignore")).toContain("vendor/lib-v1/");
+  });
+
+  it("unloads a reference and removes it from the manifest", async () => {
+    const result = sandbox.grf(["unload", "vendor/lib-v1", "--force"]);
+    expect(result.status).toBe(0);
+
+    expect(fs.existsSync(path.join(sandbox.project, "vendor/lib-v1"))).toBe(
+      false,
+    );
+    const manifest = (await fs.readJson(
+      path.join(sandbox.project, "grf.json"),
+    )) as { references: { target: string }[] };
+    expect(manifest.references.map((r) => r.target)).toEqual([TARGET]);
+  });
+
+  it("installs the declared references into a fresh checkout", async () => {
+    const fresh = path.join(sandbox.root, "fresh");
+    await fs.ensureDir(fresh);
+    await fs.copy(
+      path.join(sandbox.project, "grf.json"),
+      path.join(fresh, "grf.json"),
+    );
+    await fs.copy(
+      path.join(sandbox.project, "grf.lock"),
+      path.join(fresh, "grf.lock"),
+    );
+
+    const result = sandbox.grf(["install"], fresh);
+    expect(result.status).toBe(0);
+
+    expect(
+      await fs.readFile(path.join(fresh, TARGET, "src/a.ts"), "utf-8"),
+    ).toBe("a2\n");
+  });
+});
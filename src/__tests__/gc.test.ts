@@ -0,0 +1,89 @@
+/**
+ * gc 测试
+ */
+
+import fs from "fs-extra";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { Sandbox } from "./helpers/sandbox.js";
+
+const KEEP = "example.com/acme/keep";
+const DROP = "example.com/acme/drop";
+
+describe("gc", () => {
+  let sandbox: Sandbox;
+
+  /**
+   * 读取仓库索引中的仓库名称
+   * @returns 仓库名称列表
+   */
+  async function listIndexed(): Promise<string[]> {
+    const index = (await fs.readJson(
+      path.join(sandbox.grfHome, "repos.json"),
+    )) as { repos: Record<string, unknown> };
+    return Object.keys(index.repos).sort();
+  }
+
+  /**
+   * 获取仓库镜像路径
+   * @param name 仓库名称
+   * @returns 镜像路径
+   */
+  function mirrorOf(name: string): string {
+    return path.join(sandbox.grfHome, "mirrors", `${name}.git`);
+  }
+
+  beforeAll(async () => {
+    sandbox = await Sandbox.create();
+    sandbox.createRemote("acme/keep", { "a.ts": "a\n" });
+    sandbox.createRemote("acme/drop", { "b.ts": "b\n" });
+    expect(sandbox.grf(["load", sandbox.url("acme/keep")]).status).toBe(0);
+    expect(sandbox.grf(["add", sandbox.url("acme/drop")]).status).toBe(0);
+  });
+
+  afterAll(async () => {
+    await sandbox.cleanup();
+  });
+
+  it("previews evictions with --dry-run without removing anything", async () => {
+    const result = sandbox.grf(["gc", "--unused", "--dry-run"]);
+    expect(result.status).toBe(0);
+    expect(result.stdout).toContain("Will remove 1 cached repository");
+    expect(result.stdout).toContain(DROP);
+    expect(await listIndexed()).toEqual([DROP, KEEP]);
+    expect(fs.existsSync(mirrorOf(DROP))).toBe(true);
+  });
+
+  it("evicts repositories no project loads and keeps loaded ones", async () => {
+    const result = sandbox.grf(["gc", "--unused"]);
+    expect(result.status).toBe(0);
+    expect(result.stdout).toContain("Removed 1 cached repository");
+
+    expect(await listIndexed()).toEqual([KEEP]);
+    expect(fs.existsSync(mirrorOf(DROP))).toBe(false);
+    expect(fs.existsSync(mirrorOf(KEEP))).toBe(true);
+    expect(sandbox.grf(["update", "keep", "--sync"]).status).toBe(0);
+  });
+
+  it("evicts loaded repositories only with --include-loaded", async () => {
+    const kept = sandbox.grf(["gc", "--older-than", "0h"]);
+    expect(kept.status).toBe(0);
+    expect(kept.stdout).toContain("still loaded by projects");
+    expect(await listIndexed()).toEqual([KEEP]);
+
+    const result = sandbox.grf([
+      "gc",
+      "--older-than",
+      "0h",
+      "--include-loaded",
+    ]);
+    expect(result.status).toBe(0);
+    expect(await listIndexed()).toEqual([]);
+    expect(fs.existsSync(mirrorOf(KEEP))).toBe(false);
+  });
+
+  it("rejects an invalid policy value", () => {
+    const result = sandbox.grf(["gc", "--max-size", "lots"]);
+    expect(result.status).toBe(1);
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * glob 匹配测试
+ */
+
+import { describe, expect, it } from "vitest";
+import { createPathFilter, matchGlob } from "../core/glob.js";
+import { ErrorCode, GrfError } from "../types/index.js";
+
+describe("matchGlob", () => {
+  it("matches sets, alternatives and nested directories", () => {
+    expect(matchGlob("*.ts", "src/core/a.ts")).toBe(true);
+    expect(matchGlob("src/**/*.ts", "src/a/b/c.ts")).toBe(true);
+    expect(matchGlob("/a.ts", "src/a.ts")).toBe(false);
+    expect(matchGlob("[ab].ts", "b.ts")).toBe(true);
+    expect(matchGlob("[!ab].ts", "b.ts")).toBe(false);
+    expect(matchGlob("*.{ts,js}", "a.js")).toBe(true);
+  });
+
+  it("treats unmatched brackets and braces as literal characters", () => {
+    expect(matchGlob("a[.ts", "a[.ts")).toBe(true);
+    expect(matchGlob("a[.ts", "ab.ts")).toBe(false);
+    expect(matchGlob("a{.ts", "src/a{.ts")).toBe(true);
+    expect(matchGlob("a}.ts", "a}.ts")).toBe(true);
+    expect(matchGlob("a].ts", "a].ts")).toBe(true);
+    expect(matchGlob("{a,b}}.ts", "a}.ts")).toBe(true);
+  });
+
+  it("matches everything under a directory named without a trailing slash", () => {
+    expect(matchGlob("node_modules", "node_modules/a.js")).toBe(true);
+    expect(matchGlob("node_modules", "pkg/node_modules/b/c.js")).toBe(true);
+    expect(matchGlob("src", "src/a.ts")).toBe(true);
+    expect(matchGlob("src", "srcs/a.ts")).toBe(false);
+    expect(matchGlob("/src", "lib/src/a.ts")).toBe(false);
+    expect(matchGlob("src/", "src/a.ts")).toBe(true);
+  });
+});
+
+describe("createPathFilter", () => {
+  it("raises INVALID_ARGUMENT for a pattern that is not a valid set", () => {
+    let error: unknown;
+    try {
+      createPathFilter(["src/**"], ["[z-a].ts"]);
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error).toBeInstanceOf(GrfError);
+    expect((error as GrfError).code).toBe(ErrorCode.INVALID_ARGUMENT);
+    expect((error as GrfError).message).toContain("[z-a].ts");
+  });
+});
@@ -0,0 +1,1084 @@
+/**
+ * 基于文件系统的 Git 后端模拟实现
+ * 不依赖 git 命令和网络，用于在测试中端到端地执行 add/load/update/sync 流程
+ *
+ * - 远程仓库以 JSON 文件保存在 rootDir 下，通过 createRemote/commit/tag 构造历史
+ * - 本地仓库是普通目录：工作树文件 + `.git/fake.json` 中记录的 HEAD、分支、已获取的 commit 等状态
+ * - 镜像没有工作树文件；工作树创建时复制所在仓库的状态，之后各自获取，不共享对象
+ * - 仅支持文本文件，不支持子模块和 Git LFS
+ *
+ * @example
+ * ```typescript
+ * const fake = new FakeGitBackend("/tmp/grf-remotes");
+ * await fake.commit("https://github.com/user/repo", "main", {
+ *   "src/index.ts": "export {};\n",
+ * });
+ * setGitBackend(fake);
+ * ```
+ */
+
+import crypto from "crypto";
+import path from "path";
+import fs from "fs-extra";
+import { ErrorCode, GrfError } from "../../types/index.js";
+import type { GitBackend } from "../../core/git-backend.js";
+import type {
+  CloneOptions,
+  DiffOptions,
+  GitCommandOptions,
+  RemoteRef,
+  UpstreamStatus,
+  WorktreeOptions,
+} from "../../core/git.js";
+
+/** 文件树：相对路径（正斜杠）到文件内容 */
+type FakeTree = Record<string, string>;
+
+/**
+ * 模拟的 commit
+ */
+interface FakeCommit {
+  /** 父 commit（首个 commit 为 null） */
+  parent: string | null;
+  /** 提交信息 */
+  message: string;
+  /** 完整文件树 */
+  tree: FakeTree;
+}
+
+/**
+ * 模拟的远程仓库
+ */
+interface FakeRemote {
+  /** 默认分支 */
+  head: string;
+  /** 分支到 commit 的映射 */
+  heads: Record<string, string>;
+  /** 标签到 commit 的映射 */
+  tags: Record<string, string>;
+  /** 所有 commit */
+  commits: Record<string, FakeCommit>;
+}
+
+/**
+ * 本地仓库状态（保存在 .git/fake.json）
+ */
+interface FakeLocalState {
+  /** 远程 URL */
+  url: string;
+  /** 当前分支（分离 HEAD 时为 null） */
+  branch: string | null;
+  /** 当前 commit */
+  head: string;
+  /** 是否浅克隆 */
+  shallow: boolean;
+  /** 稀疏检出的目录（未启用时为 null） */
+  sparse: string[] | null;
+  /** 最近一次获取时远程分支的位置 */
+  remoteHeads: Record<string, string>;
+  /** 本地已有的标签 */
+  tags: Record<string, string>;
+  /** 本地已获取的 commit */
+  known: string[];
+  /** 其他引用（如重置前保存的备份引用） */
+  refs: Record<string, string>;
+}
+
+/** 本地状态文件（相对于仓库目录） */
+const STATE_FILE = path.join(".git", "fake.json");
+
+/**
+ * 构造与 git 命令失败时格式一致的错误
+ * @param code 错误码
+ * @param command 模拟执行的 git 命令
+ * @param reason 失败原因
+ * @returns GrfError
+ */
+function fail(code: ErrorCode, command: string, reason: string): GrfError {
+  return new GrfError(
+    code,
+    `Git command failed: git ${command}\n  fatal: ${reason}`,
+  );
+}
+
+/**
+ * 检查文件是否在稀疏检出范围内（cone 模式：根目录文件始终检出）
+ * @param filePath 文件相对路径
+ * @param sparse 稀疏检出的目录
+ * @returns 是否检出
+ */
+function isVisible(filePath: string, sparse: string[] | null): boolean {
+  if (!sparse || !filePath.includes("/")) {
+    return true;
+  }
+  return sparse.some((dir) => filePath.startsWith(dir + "/"));
+}
+
+/**
+ * 检查文件是否在指定路径范围内
+ * @param filePath 文件相对路径
+ * @param paths 路径列表（为空表示全部）
+ * @returns 是否在范围内
+ */
+function isInPaths(filePath: string, paths?: string[]): boolean {
+  if (!paths || paths.length === 0) {
+    return true;
+  }
+  return paths.some((p) => filePath === p || filePath.startsWith(p + "/"));
+}
+
+/**
+ * 按行拆分文件内容（不含结尾的空行）
+ * @param content 文件内容
+ * @returns 行列表
+ */
+function splitLines(content: string | undefined): string[] {
+  if (!content) {
+    return [];
+  }
+  return content.replace(/\n$/, "").split("\n");
+}
+
+/**
+ * 基于文件系统的 Git 后端模拟实现
+ */
+export class FakeGitBackend implements GitBackend {
+  private rootDir: string;
+
+  /**
+   * 创建模拟后端
+   * @param rootDir 保存模拟远程仓库的目录
+   */
+  constructor(rootDir: string) {
+    this.rootDir = rootDir;
+  }
+
+  // ============ 构造远程仓库 ============
+
+  /**
+   * 获取模拟远程仓库的存储文件路径
+   * @param url 仓库 URL
+   * @returns JSON 文件路径
+   */
+  getRemotePath(url: string): string {
+    return path.join(this.rootDir, `${encodeURIComponent(url)}.json`);
+  }
+
+  /**
+   * 创建空的远程仓库（已存在时不做任何操作）
+   * @param url 仓库 URL
+   * @param defaultBranch 默认分支
+   */
+  async createRemote(url: string, defaultBranch = "main"): Promise<void> {
+    if (await fs.pathExists(this.getRemotePath(url))) {
+      return;
+    }
+    await this.writeRemote(url, {
+      head: defaultBranch,
+      heads: {},
+      tags: {},
+      commits: {},
+    });
+  }
+
+  /**
+   * 在远程分支上提交修改，远程仓库不存在时自动创建
+   * 新分支从默认分支的最新 commit 开始
+   * @param url 仓库 URL
+   * @param branch 分支名
+   * @param changes 文件修改，值为 null 表示删除文件
+   * @param message 提交信息
+   * @returns 新 commit 的 SHA
+   */
+  async commit(
+    url: string,
+    branch: string,
+    changes: Record<string, string | null>,
+    message = "update",
+  ): Promise<string> {
+    await this.createRemote(url, branch);
+    const remote = await this.readRemote(url);
+
+    const parent = remote.heads[branch] ?? remote.heads[remote.head] ?? null;
+    const tree: FakeTree = parent ? { ...remote.commits[parent].tree } : {};
+    for (const [filePath, content] of Object.entries(changes)) {
+      if (content === null) {
+        delete tree[filePath];
+      } else {
+        tree[filePath] = content;
+      }
+    }
+
+    const sha = crypto
+      .createHash("sha1")
+      .update(
+        JSON.stringify({
+          parent,
+          message,
+          tree,
+          seq: Object.keys(remote.commits).length,
+        }),
+      )
+      .digest("hex");
+
+    remote.commits[sha] = { parent, message, tree };
+    remote.heads[branch] = sha;
+    await this.writeRemote(url, remote);
+    return sha;
+  }
+
+  /**
+   * 在远程仓库创建标签
+   * @param url 仓库 URL
+   * @param name 标签名
+   * @param ref 分支名或 commit SHA
+   */
+  async tag(url: string, name: string, ref: string): Promise<void> {
+    const remote = await this.readRemote(url);
+    remote.tags[name] = this.resolveRemoteRef(remote, ref, `tag ${name}`);
+    await this.writeRemote(url, remote);
+  }
+
+  /**
+   * 强制移动远程分支（模拟 force push）
+   * @param url 仓库 URL
+   * @param branch 分支名
+   * @param ref 新位置（分支名或 commit SHA）
+   */
+  async resetBranch(url: string, branch: string, ref: string): Promise<void> {
+    const remote = await this.readRemote(url);
+    remote.heads[branch] = this.resolveRemoteRef(remote, ref, `push ${branch}`);
+    await this.writeRemote(url, remote);
+  }
+
+  // ============ 克隆与远程同步 ============
+
+  async clone(
+    url: string,
+    dest: string,
+    options?: CloneOptions,
+  ): Promise<void> {
+    const command = `clone ${url} ${dest}`;
+    this.checkSignal(command, options);
+
+    if (!(await fs.pathExists(this.getRemotePath(url)))) {
+      throw fail(
+        ErrorCode.GIT_CLONE_FAILED,
+        command,
+        `repository '${url}' not found`,
+      );
+    }
+    if ((await fs.pathExists(dest)) && (await fs.readdir(dest)).length > 0) {
+      throw fail(
+        ErrorCode.GIT_CLONE_FAILED,
+        command,
+        `destination path '${dest}' already exists and is not an empty directory.`,
+      );
+    }
+
+    const remote = await this.readRemote(url);
+    const branch = options?.branch ?? remote.head;
+    const head =
+      remote.heads[branch] ??
+      (options?.branch ? undefined : Object.values(remote.heads)[0]);
+    if (!head) {
+      throw fail(
+        ErrorCode.GIT_CLONE_FAILED,
+        command,
+        `Remote branch ${branch} not found in upstream origin`,
+      );
+    }
+
+    const shallow = !!(options?.shallow || options?.depth);
+    const sparse =
+      options?.sparse && options.sparse.length > 0 ? options.sparse : null;
+    const state: FakeLocalState = {
+      url,
+      branch,
+      head,
+      shallow,
+      sparse,
+      remoteHeads: { ...remote.heads },
+      tags: shallow ? {} : { ...remote.tags },
+      known: [],
+      refs: {},
+    };
+    this.learn(state, remote, Object.values(remote.heads));
+
+    const files = Object.keys(remote.commits[head].tree).length;
+    options?.onProgress?.({
+      phase: "Receiving objects",
+      percent: 100,
+      current: files,
+      total: files,
+      done: true,
+    });
+
+    await fs.ensureDir(path.join(dest, ".git"));
+    await this.writeTree(dest, {}, remote.commits[head].tree, sparse);
+    await this.writeState(dest, state);
+  }
+
+  async cloneMirror(
+    url: string,
+    mirrorPath: string,
+    options?: CloneOptions,
+  ): Promise<string> {
+    const command = `clone --bare ${url} ${mirrorPath}`;
+    this.checkSignal(command, options);
+
+    if (!(await fs.pathExists(this.getRemotePath(url)))) {
+      throw fail(
+        ErrorCode.GIT_CLONE_FAILED,
+        command,
+        `repository '${url}' not found`,
+      );
+    }
+
+    const remote = await this.readRemote(url);
+    const branch = options?.branch ?? remote.head;
+    const head = remote.heads[branch];
+    if (!head) {
+      throw fail(
+        ErrorCode.GIT_CLONE_FAILED,
+        command,
+        `Remote branch ${branch} not found in upstream origin`,
+      );
+    }
+
+    const shallow = !!(options?.shallow || options?.depth);
+    const state: FakeLocalState = {
+      url,
+      branch,
+      head,
+      shallow,
+      sparse: null,
+      remoteHeads: { ...remote.heads },
+      tags: shallow ? {} : { ...remote.tags },
+      known: [],
+      refs: {},
+    };
+    this.learn(state, remote, Object.values(remote.heads));
+
+    options?.onProgress?.({
+      phase: "Receiving objects",
+      percent: 100,
+      current: state.known.length,
+      total: state.known.length,
+      done: true,
+    });
+
+    await fs.ensureDir(path.join(mirrorPath, ".git"));
+    await this.writeState(mirrorPath, state);
+    return branch;
+  }
+
+  async updateSubmodules(
+    repoPath: string,
+    options?: GitCommandOptions,
+  ): Promise<void> {
+    // 模拟仓库不包含子模块，只校验仓库存在
+    this.checkSignal("submodule update --init --recursive", options);
+    await this.readState(repoPath);
+  }
+
+  async fetch(repoPath: string, options?: GitCommandOptions): Promise<void> {
+    this.checkSignal("fetch", options);
+    const state = await this.readState(repoPath);
+    const remote = await this.readRemote(state.url);
+    state.remoteHeads = { ...remote.heads };
+    state.tags = { ...state.tags, ...remote.tags };
+    this.learn(state, remote, Object.values(remote.heads));
+    await this.writeState(repoPath, state);
+  }
+
+  async getUpstreamStatus(
+    repoPath: string,
+    options?: GitCommandOptions,
+  ): Promise<UpstreamStatus> {
+    await this.fetch(repoPath, options);
+    const state = await this.readState(repoPath);
+    const remote = await this.readRemote(state.url);
+    const target = this.upstreamOf(state, "rev-parse origin/HEAD");
+
+    if (target === state.head) {
+      return "up-to-date";
+    }
+    return this.isAncestor(remote, state.head, target) ? "behind" : "diverged";
+  }
+
+  async fastForward(
+    repoPath: string,
+    options?: GitCommandOptions,
+  ): Promise<void> {
+    this.checkSignal("merge --ff-only", options);
+    const state = await this.readState(repoPath);
+    const remote = await this.readRemote(state.url);
+    const target = this.upstreamOf(state, "merge --ff-only");
+    if (!this.isAncestor(remote, state.head, target)) {
+      throw fail(
+        ErrorCode.GIT_PULL_FAILED,
+        "merge --ff-only",
+        "Not possible to fast-forward, aborting.",
+      );
+    }
+    await this.moveHead(repoPath, state, remote, target);
+  }
+
+  async resetToUpstream(
+    repoPath: string,
+    backupPrefix: string,
+    options?: GitCommandOptions,
+  ): Promise<string> {
+    this.checkSignal("reset --hard", options);
+    const state = await this.readState(repoPath);
+    const remote = await this.readRemote(state.url);
+    const target = this.upstreamOf(state, "reset --hard");
+    const backupRef = `${backupPrefix}${state.branch ?? "HEAD"}/${state.head}`;
+    state.refs = { ...state.refs, [backupRef]: state.head };
+    await this.moveHead(repoPath, state, remote, target);
+    return backupRef;
+  }
+
+  async lfsPull(
+    repoPath: string,
+    _include: string[],
+    options?: GitCommandOptions,
+  ): Promise<void> {
+    // 模拟仓库不包含 LFS 对象，只校验仓库存在
+    this.checkSignal("lfs pull", options);
+    await this.readState(repoPath);
+  }
+
+  async fetchBranch(
+    repoPath: string,
+    branch: string,
+    options?: GitCommandOptions,
+  ): Promise<void> {
+    await this.fetch(repoPath, options);
+    const state = await this.readState(repoPath);
+    if (!state.remoteHeads[branch]) {
+      throw fail(
+        ErrorCode.GIT_CHECKOUT_FAILED,
+        `fetch origin ${branch}`,
+        `couldn't find remote ref ${branch}`,
+      );
+    }
+  }
+
+  async fetchRef(
+    repoPath: string,
+    ref: string,
+    options?: GitCommandOptions,
+  ): Promise<void> {
+    this.checkSignal(`fetch origin ${ref}`, options);
+    const state = await this.readState(repoPath);
+    const remote = await this.readRemote(state.url);
+    const sha = this.resolveRemoteRef(remote, ref, `fetch origin ${ref}`);
+    if (remote.tags[ref]) {
+      state.tags[ref] = remote.tags[ref];
+    }
+    this.learn(state, remote, [sha]);
+    await this.writeState(repoPath, state);
+  }
+
+  async fetchCommit(
+    repoPath: string,
+    commit: string,
+    options?: GitCommandOptions,
+  ): Promise<void> {
+    this.checkSignal(`fetch origin ${commit}`, options);
+    const state = await this.readState(repoPath);
+    const remote = await this.readRemote(state.url);
+    const sha = this.resolveRemoteRef(
+      remote,
+      commit,
+      `fetch origin ${commit}`,
+      ErrorCode.GIT_PULL_FAILED,
+    );
+    this.learn(state, remote, [sha]);
+    await this.writeState(repoPath, state);
+  }
+
+  async deepen(
+    repoPath: string,
+    commits: number,
+    options?: GitCommandOptions,
+  ): Promise<void> {
+    this.checkSignal(`fetch --deepen=${commits} origin`, options);
+    const state = await this.readState(repoPath);
+    const remote = await this.readRemote(state.url);
+    const known = new Set(state.known);
+    for (const commit of state.known) {
+      for (const ancestor of this.ancestors(remote, commit, commits + 1)) {
+        known.add(ancestor);
+      }
+    }
+    state.known = [...known];
+    await this.writeState(repoPath, state);
+  }
+
+  async unshallow(
+    repoPath: string,
+    options?: GitCommandOptions,
+  ): Promise<void> {
+    this.checkSignal("fetch --unshallow origin", options);
+    const state = await this.readState(repoPath);
+    const remote = await this.readRemote(state.url);
+    state.shallow = false;
+    this.learn(state, remote, [...state.known]);
+    await this.writeState(repoPath, state);
+  }
+
+  async reshallow(
+    repoPath: string,
+    depth: number,
+    options?: GitCommandOptions,
+  ): Promise<void> {
+    this.checkSignal(`fetch --depth=${depth} origin`, options);
+    const state = await this.readState(repoPath);
+    const remote = await this.readRemote(state.url);
+    state.shallow = true;
+    state.remoteHeads = { ...remote.heads };
+    state.known = [
+      ...new Set(
+        [state.head, ...Object.values(state.remoteHeads)].flatMap((commit) =>
+          this.ancestors(remote, commit, depth),
+        ),
+      ),
+    ];
+    await this.writeState(repoPath, state);
+  }
+
+  async lsRemote(
+    url: string,
+    options?: GitCommandOptions,
+  ): Promise<RemoteRef[]> {
+    this.checkSignal(`ls-remote ${url}`, options);
+    if (!(await fs.pathExists(this.getRemotePath(url)))) {
+      throw fail(
+        ErrorCode.GIT_CLONE_FAILED,
+        `ls-remote ${url}`,
+        `repository '${url}' not found`,
+      );
+    }
+    const remote = await this.readRemote(url);
+    const refs: RemoteRef[] = [];
+    if (remote.heads[remote.head]) {
+      refs.push({ name: "HEAD", commit: remote.heads[remote.head] });
+    }
+    for (const [name, commit] of Object.entries(remote.heads)) {
+      refs.push({ name: `refs/heads/${name}`, commit });
+    }
+    for (const [name, commit] of Object.entries(remote.tags)) {
+      refs.push({ name: `refs/tags/${name}`, commit });
+    }
+    return refs;
+  }
+
+  async listRemoteBranches(repoPath: string): Promise<string[]> {
+    const state = await this.readState(repoPath);
+    return Object.keys(state.remoteHeads);
+  }
+
+  // ============ 检出 ============
+
+  async checkout(
+    repoPath: string,
+    branch: string,
+    options?: GitCommandOptions,
+  ): Promise<void> {
+    await this.fetch(repoPath, options);
+    const state = await this.readState(repoPath);
+    const target = state.remoteHeads[branch];
+    if (!target) {
+      throw new GrfError(
+        ErrorCode.GIT_CHECKOUT_FAILED,
+        `Git command failed: git fetch origin ${branch}\n  fatal: couldn't find remote ref ${branch}\n  Branch "${branch}" may not exist. Use git branch -r to list available branches.`,
+      );
+    }
+    const remote = await this.readRemote(state.url);
+    state.branch = branch;
+    await this.moveHead(repoPath, state, remote, target);
+  }
+
+  async checkoutRef(
+    repoPath: string,
+    ref: string,
+    options?: GitCommandOptions,
+  ): Promise<void> {
+    this.checkSignal(`checkout --detach ${ref}`, options);
+    const state = await this.readState(repoPath);
+    const remote = await this.readRemote(state.url);
+
+    let sha: string;
+    try {
+      sha = this.resolveRemoteRef(remote, ref, `checkout --detach ${ref}`);
+    } catch (error) {
+      throw new GrfError(
+        ErrorCode.GIT_CHECKOUT_FAILED,
+        `${(error as Error).message}\n  Ref "${ref}" may not exist. Use a tag name or a full commit SHA.`,
+      );
+    }
+
+    if (remote.tags[ref]) {
+      state.tags[ref] = remote.tags[ref];
+    }
+    this.learn(state, remote, [sha]);
+    state.branch = null;
+    await this.moveHead(repoPath, state, remote, sha);
+  }
+
+  async setSparseCheckout(repoPath: string, paths: string[]): Promise<void> {
+    await this.changeSparse(repoPath, paths);
+  }
+
+  async disableSparseCheckout(repoPath: string): Promise<void> {
+    await this.changeSparse(repoPath, null);
+  }
+
+  async addWorktree(
+    repoPath: string,
+    dest: string,
+    start: string,
+    options?: WorktreeOptions,
+  ): Promise<void> {
+    const state = await this.readState(repoPath);
+    const remote = await this.readRemote(state.url);
+    const sha = this.resolveLocal(state, start, `worktree add ${dest}`);
+    const sparse =
+      options?.sparse && options.sparse.length > 0 ? options.sparse : null;
+    await fs.ensureDir(path.join(dest, ".git"));
+    await this.writeTree(dest, {}, remote.commits[sha].tree, sparse);
+    await this.writeState(dest, {
+      ...state,
+      branch: options?.branch ?? null,
+      head: sha,
+      sparse,
+    });
+  }
+
+  async removeWorktree(_repoPath: string, dest: string): Promise<void> {
+    await fs.remove(dest);
+  }
+
+  async repairWorktrees(repoPath: string, worktrees: string[]): Promise<void> {
+    // 模拟工作树不记录彼此的路径，只校验仓库与工作树存在
+    await this.readState(repoPath);
+    for (const worktree of worktrees) {
+      await this.readState(worktree);
+    }
+  }
+
+  // ============ 查询 ============
+
+  async getCurrentCommit(repoPath: string): Promise<string> {
+    return (await this.readState(repoPath)).head;
+  }
+
+  async getBranch(repoPath: string): Promise<string> {
+    return (await this.readState(repoPath)).branch ?? "HEAD";
+  }
+
+  async getRemoteUrl(repoPath: string): Promise<string> {
+    return (await this.readState(repoPath)).url;
+  }
+
+  async isGitRepo(repoPath: string): Promise<boolean> {
+    return fs.pathExists(path.join(repoPath, STATE_FILE));
+  }
+
+  async isTag(repoPath: string, ref: string): Promise<boolean> {
+    return ref in (await this.readState(repoPath)).tags;
+  }
+
+  async hasCommit(repoPath: string, commit: string): Promise<boolean> {
+    const state = await this.readState(repoPath);
+    return state.known.some((sha) => sha.startsWith(commit));
+  }
+
+  async isShallow(repoPath: string): Promise<boolean> {
+    return (await this.readState(repoPath)).shallow;
+  }
+
+  // ============ 维护 ============
+
+  async gc(repoPath: string, options?: GitCommandOptions): Promise<void> {
+    // 模拟仓库没有可压缩的对象，只校验仓库存在
+    this.checkSignal("gc --prune=now", options);
+    await this.readState(repoPath);
+  }
+
+  // ============ 比较与合并 ============
+
+  async diff(
+    repoPath: string,
+    from: string,
+    to: string,
+    options: DiffOptions = {},
+  ): Promise<string> {
+    const state = await this.readState(repoPath);
+    const remote = await this.readRemote(state.url);
+    const command = `diff ${from} ${to}`;
+    const oldTree =
+      remote.commits[this.resolveLocal(state, from, command)].tree;
+    const newTree = remote.commits[this.resolveLocal(state, to, command)].tree;
+
+    const changed = [
+      ...new Set([...Object.keys(oldTree), ...Object.keys(newTree)]),
+    ]
+      .filter((file) => isInPaths(file, options.paths))
+      .filter((file) => oldTree[file] !== newTree[file])
+      .sort();
+
+    if (options.format === "name-only") {
+      return changed.join("\n");
+    }
+
+    if (options.format === "stat") {
+      if (changed.length === 0) {
+        return "";
+      }
+      let insertions = 0;
+      let deletions = 0;
+      const lines = changed.map((file) => {
+        const added = splitLines(newTree[file]).length;
+        const removed = splitLines(oldTree[file]).length;
+        insertions += added;
+        deletions += removed;
+        return ` ${file} | ${added + removed} ${"+".repeat(added)}${"-".repeat(removed)}`;
+      });
+      lines.push(
+        ` ${changed.length} file${changed.length > 1 ? "s" : ""} changed, ${insertions} insertions(+), ${deletions} deletions(-)`,
+      );
+      return lines.join("\n");
+    }
+
+    // 模拟补丁：将旧内容整体删除、新内容整体添加
+    return changed
+      .map((file) => {
+        const oldLines = splitLines(oldTree[file]);
+        const newLines = splitLines(newTree[file]);
+        return [
+          `diff --git a/${file} b/${file}`,
+          `--- ${file in oldTree ? `a/${file}` : "/dev/null"}`,
+          `+++ ${file in newTree ? `b/${file}` : "/dev/null"}`,
+          `@@ -1,${oldLines.length} +1,${newLines.length} @@`,
+          ...oldLines.map((line) => `-${line}`),
+          ...newLines.map((line) => `+${line}`),
+        ].join("\n");
+      })
+      .join("\n");
+  }
+
+  async mergeFile(
+    currentPath: string,
+    basePath: string,
+    otherPath: string,
+  ): Promise<number> {
+    const [current, base, other] = await Promise.all(
+      [currentPath, basePath, otherPath].map((file) =>
+        fs.readFile(file, "utf-8"),
+      ),
+    );
+
+    if (current === other || other === base) {
+      return 0;
+    }
+    if (current === base) {
+      await fs.writeFile(currentPath, other, "utf-8");
+      return 0;
+    }
+
+    // 模拟合并：双方都修改时整体标记为一个冲突
+    const conflict = [
+      "<<<<<<< local",
+      ...splitLines(current),
+      "=======",
+      ...splitLines(other),
+      ">>>>>>> upstream",
+      "",
+    ].join("\n");
+    await fs.writeFile(currentPath, conflict, "utf-8");
+    return 1;
+  }
+
+  // ============ 内部实现 ============
+
+  /**
+   * 读取模拟远程仓库
+   * @param url 仓库 URL
+   * @returns 远程仓库数据
+   */
+  private async readRemote(url: string): Promise<FakeRemote> {
+    const remotePath = this.getRemotePath(url);
+    if (!(await fs.pathExists(remotePath))) {
+      throw fail(
+        ErrorCode.GIT_CLONE_FAILED,
+        `fetch ${url}`,
+        `repository '${url}' not found`,
+      );
+    }
+    return (await fs.readJson(remotePath)) as FakeRemote;
+  }
+
+  /**
+   * 写入模拟远程仓库
+   * @param url 仓库 URL
+   * @param remote 远程仓库数据
+   */
+  private async writeRemote(url: string, remote: FakeRemote): Promise<void> {
+    await fs.ensureDir(this.rootDir);
+    await fs.writeJson(this.getRemotePath(url), remote, { spaces: 2 });
+  }
+
+  /**
+   * 读取本地仓库状态
+   * @param repoPath 仓库路径
+   * @returns 本地状态
+   */
+  private async readState(repoPath: string): Promise<FakeLocalState> {
+    const statePath = path.join(repoPath, STATE_FILE);
+    if (!(await fs.pathExists(statePath))) {
+      throw fail(
+        ErrorCode.GIT_CLONE_FAILED,
+        "rev-parse --git-dir",
+        "not a git repository (or any of the parent directories): .git",
+      );
+    }
+    return (await fs.readJson(statePath)) as FakeLocalState;
+  }
+
+  /**
+   * 写入本地仓库状态
+   * @param repoPath 仓库路径
+   * @param state 本地状态
+   */
+  private async writeState(
+    repoPath: string,
+    state: FakeLocalState,
+  ): Promise<void> {
+    await fs.writeJson(path.join(repoPath, STATE_FILE), state, { spaces: 2 });
+  }
+
+  /**
+   * 检查是否已取消
+   * @param command 模拟执行的命令
+   * @param options 命令调用选项
+   */
+  private checkSignal(command: string, options?: GitCommandOptions): void {
+    if (options?.signal?.aborted) {
+      throw new GrfError(
+        ErrorCode.GIT_CLONE_FAILED,
+        `Git command failed: git ${command}\n  操作已取消`,
+      );
+    }
+  }
+
+  /**
+   * 在远程仓库中解析分支、标签或 commit（支持唯一前缀）
+   * @param remote 远程仓库数据
+   * @param ref 引用
+   * @param command 模拟执行的命令（用于错误信息）
+   * @param code 失败时的错误码
+   * @returns commit SHA
+   */
+  private resolveRemoteRef(
+    remote: FakeRemote,
+    ref: string,
+    command: string,
+    code: ErrorCode = ErrorCode.GIT_CHECKOUT_FAILED,
+  ): string {
+    const sha =
+      remote.heads[ref] ??
+      remote.tags[ref] ??
+      (ref.length >= 4
+        ? Object.keys(remote.commits).find((commit) => commit.startsWith(ref))
+        : undefined);
+    if (!sha) {
+      throw fail(code, command, `couldn't find remote ref ${ref}`);
+    }
+    return sha;
+  }
+
+  /**
+   * 在本地已获取的 commit 中解析 commit SHA（支持唯一前缀）
+   * @param state 本地状态
+   * @param ref commit SHA
+   * @param command 模拟执行的命令（用于错误信息）
+   * @returns commit SHA
+   */
+  private resolveLocal(
+    state: FakeLocalState,
+    ref: string,
+    command: string,
+  ): string {
+    const sha =
+      ref === "HEAD"
+        ? state.head
+        : ref.startsWith("origin/")
+          ? state.remoteHeads[ref.slice("origin/".length)]
+          : (state.tags[ref] ??
+            state.known.find((commit) => commit.startsWith(ref)));
+    if (!sha) {
+      throw fail(
+        ErrorCode.GIT_CHECKOUT_FAILED,
+        command,
+        `bad revision '${ref}'`,
+      );
+    }
+    return sha;
+  }
+
+  /**
+   * 记录本地已获取的 commit（非浅克隆时包括全部祖先）
+   * @param state 本地状态
+   * @param remote 远程仓库数据
+   * @param commits 获取的 commit
+   */
+  private learn(
+    state: FakeLocalState,
+    remote: FakeRemote,
+    commits: string[],
+  ): void {
+    const known = new Set(state.known);
+    for (const commit of commits) {
+      let current: string | null = commit;
+      while (current && !known.has(current)) {
+        known.add(current);
+        current = state.shallow ? null : remote.commits[current].parent;
+      }
+    }
+    state.known = [...known];
+  }
+
+  /**
+   * 获取 commit 及其祖先，最多 limit 个
+   * @param remote 远程仓库数据
+   * @param commit 起始 commit
+   * @param limit 最多返回的 commit 数量
+   * @returns commit 列表（从新到旧）
+   */
+  private ancestors(
+    remote: FakeRemote,
+    commit: string,
+    limit: number,
+  ): string[] {
+    const commits: string[] = [];
+    let current: string | null = commit;
+    while (current && commits.length < limit) {
+      commits.push(current);
+      current = remote.commits[current]?.parent ?? null;
+    }
+    return commits;
+  }
+
+  /**
+   * 检查 ancestor 是否为 commit 的祖先（或相同）
+   * @param remote 远程仓库数据
+   * @param ancestor 可能的祖先 commit
+   * @param commit 起始 commit
+   * @returns 是否为祖先
+   */
+  private isAncestor(
+    remote: FakeRemote,
+    ancestor: string,
+    commit: string,
+  ): boolean {
+    let current: string | null = commit;
+    while (current) {
+      if (current === ancestor) {
+        return true;
+      }
+      current = remote.commits[current]?.parent ?? null;
+    }
+    return false;
+  }
+
+  /**
+   * 获取当前分支最近一次获取时的远程位置
+   * @param state 本地状态
+   * @param command 模拟执行的 git 命令（用于错误信息）
+   * @returns 远程分支指向的 commit
+   */
+  private upstreamOf(state: FakeLocalState, command: string): string {
+    const target = state.branch ? state.remoteHeads[state.branch] : undefined;
+    if (!target) {
+      throw fail(
+        ErrorCode.GIT_PULL_FAILED,
+        command,
+        `couldn't find remote ref ${state.branch ?? "HEAD"}`,
+      );
+    }
+    return target;
+  }
+
+  /**
+   * 移动 HEAD 并更新工作树
+   * @param repoPath 仓库路径
+   * @param state 本地状态（会被修改并写回）
+   * @param remote 远程仓库数据
+   * @param target 目标 commit
+   */
+  private async moveHead(
+    repoPath: string,
+    state: FakeLocalState,
+    remote: FakeRemote,
+    target: string,
+  ): Promise<void> {
+    this.learn(state, remote, [target]);
+    await this.writeTree(
+      repoPath,
+      remote.commits[state.head].tree,
+      remote.commits[target].tree,
+      state.sparse,
+    );
+    state.head = target;
+    await this.writeState(repoPath, state);
+  }
+
+  /**
+   * 修改稀疏检出范围并更新工作树
+   * @param repoPath 仓库路径
+   * @param sparse 新的稀疏检出目录（null 表示关闭）
+   */
+  private async changeSparse(
+    repoPath: string,
+    sparse: string[] | null,
+  ): Promise<void> {
+    const state = await this.readState(repoPath);
+    const remote = await this.readRemote(state.url);
+    const tree = remote.commits[state.head].tree;
+
+    // 先移除旧范围内的文件，再按新范围写入
+    await this.writeTree(repoPath, tree, {}, state.sparse);
+    await this.writeTree(repoPath, {}, tree, sparse);
+    state.sparse = sparse;
+    await this.writeState(repoPath, state);
+  }
+
+  /**
+   * 将工作树从 oldTree 更新为 newTree（不影响未跟踪的文件）
+   * @param dir 工作树目录
+   * @param oldTree 当前检出的文件树
+   * @param newTree 目标文件树
+   * @param sparse 稀疏检出的目录
+   */
+  private async writeTree(
+    dir: string,
+    oldTree: FakeTree,
+    newTree: FakeTree,
+    sparse: string[] | null,
+  ): Promise<void> {
+    for (const file of Object.keys(oldTree)) {
+      if (!(file in newTree) && isVisible(file, sparse)) {
+        await fs.remove(path.join(dir, file));
+      }
+    }
+    for (const [file, content] of Object.entries(newTree)) {
+      if (isVisible(file, sparse)) {
+        await fs.outputFile(path.join(dir, file), content, "utf-8");
+      }
+    }
+  }
+}
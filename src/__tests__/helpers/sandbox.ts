@@ -0,0 +1,213 @@
+/**
+ * 端到端测试沙箱
+ * 在临时目录中创建真实的本地裸仓库作为远程仓库、独立的 grf 根目录（GRF_HOME）和项目目录，
+ * 并通过编译后的 CLI（dist/cli.js）执行 grf 命令
+ */
+
+import { execFileSync, spawnSync } from "child_process";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+
+/** 编译后的 CLI 入口 */
+const CLI_PATH = path.resolve(__dirname, "../../../dist/cli.js");
+
+/** 测试中远程仓库使用的 URL 前缀（通过 url.insteadOf 指向本地裸仓库） */
+const REMOTE_BASE = "https://example.com/";
+
+/**
+ * grf 命令的执行结果
+ */
+export interface GrfResult {
+  /** 退出码 */
+  status: number;
+  /** 标准输出 */
+  stdout: string;
+  /** 标准错误 */
+  stderr: string;
+}
+
+/** 远程仓库中的文件内容（null 表示删除该文件） */
+export type FileChanges = Record<string, string | null>;
+
+/**
+ * 端到端测试沙箱
+ */
+export class Sandbox {
+  /** 沙箱根目录 */
+  readonly root: string;
+  /** grf 根目录（GRF_HOME） */
+  readonly grfHome: string;
+  /** 项目目录 */
+  readonly project: string;
+  /** 执行 git 与 grf 时使用的环境变量 */
+  readonly env: NodeJS.ProcessEnv;
+
+  private constructor(root: string) {
+    this.root = root;
+    this.grfHome = path.join(root, "grf-home");
+    this.project = path.join(root, "project");
+    this.env = {
+      ...process.env,
+      HOME: path.join(root, "home"),
+      GRF_HOME: this.grfHome,
+      GIT_CONFIG_GLOBAL: path.join(root, "gitconfig"),
+      GIT_CONFIG_NOSYSTEM: "1",
+      GIT_TERMINAL_PROMPT: "0",
+      NO_COLOR: "1",
+      FORCE_COLOR: "0",
+    };
+  }
+
+  /**
+   * 创建沙箱
+   * @returns 沙箱实例
+   */
+  static async create(): Promise<Sandbox> {
+    const root = await fs.realpath(
+      await fs.mkdtemp(path.join(os.tmpdir(), "grf-test-")),
+    );
+    const sandbox = new Sandbox(root);
+
+    await fs.ensureDir(path.join(root, "home"));
+    await fs.ensureDir(path.join(root, "remotes"));
+    await fs.ensureDir(path.join(root, "work"));
+    await fs.ensureDir(sandbox.project);
+    await fs.writeFile(
+      path.join(root, "gitconfig"),
+      [
+        "[user]",
+        "\temail = test@example.com",
+        "\tname = Test",
+        "[init]",
+        "\tdefaultBranch = main",
+        `[url "file://${path.join(root, "remotes")}/"]`,
+        `\tinsteadOf = ${REMOTE_BASE}`,
+        '[protocol "file"]',
+        "\tallow = always",
+        "",
+      ].join("\n"),
+    );
+
+    return sandbox;
+  }
+
+  /**
+   * 删除沙箱
+   */
+  async cleanup(): Promise<void> {
+    await fs.remove(this.root);
+  }
+
+  /**
+   * 获取远程仓库的 URL
+   * @param name 仓库名（如 acme/lib）
+   * @returns 远程 URL
+   */
+  url(name: string): string {
+    return `${REMOTE_BASE}${name}.git`;
+  }
+
+  /**
+   * 在沙箱中执行 git 命令
+   * @param args git 参数
+   * @param cwd 工作目录
+   * @returns 标准输出（去除首尾空白）
+   */
+  git(args: string[], cwd: string): string {
+    return execFileSync("git", args, {
+      cwd,
+      env: this.env,
+      encoding: "utf-8",
+      stdio: ["ignore", "pipe", "pipe"],
+    }).trim();
+  }
+
+  /**
+   * 创建远程裸仓库并推送第一个提交
+   * @param name 仓库名（如 acme/lib）
+   * @param files 第一个提交的文件
+   * @returns 提交的 SHA
+   */
+  createRemote(name: string, files: FileChanges): string {
+    const bare = path.join(this.root, "remotes", `${name}.git`);
+    fs.ensureDirSync(bare);
+    this.git(["init", "--quiet", "--bare"], bare);
+    this.git(
+      ["clone", "--quiet", bare, this.workDir(name)],
+      path.join(this.root, "work"),
+    );
+    return this.commit(name, files, "initial commit");
+  }
+
+  /**
+   * 在远程仓库的 main 分支上提交并推送
+   * @param name 仓库名
+   * @param files 修改的文件
+   * @param message 提交说明
+   * @returns 提交的 SHA
+   */
+  commit(name: string, files: FileChanges, message: string): string {
+    const work = this.workDir(name);
+    for (const [file, content] of Object.entries(files)) {
+      const filePath = path.join(work, file);
+      if (content === null) {
+        fs.removeSync(filePath);
+      } else {
+        fs.outputFileSync(filePath, content);
+      }
+    }
+    this.git(["add", "-A"], work);
+    this.git(["commit", "--quiet", "-m", message], work);
+    this.git(["push", "--quiet", "origin", "HEAD:main"], work);
+    return this.git(["rev-parse", "HEAD"], work);
+  }
+
+  /**
+   * 在远程仓库上创建标签
+   * @param name 仓库名
+   * @param tag 标签名
+   */
+  tag(name: string, tag: string): void {
+    const work = this.workDir(name);
+    this.git(["tag", tag], work);
+    this.git(["push", "--quiet", "origin", tag], work);
+  }
+
+  /**
+   * 执行 grf 命令
+   * @param args 命令参数
+   * @param cwd 工作目录（默认为项目目录）
+   * @returns 执行结果
+   */
+  grf(args: string[], cwd = this.project): GrfResult {
+    const result = spawnSync(process.execPath, [CLI_PATH, ...args], {
+      cwd,
+      env: this.env,
+      encoding: "utf-8",
+    });
+    return {
+      status: result.status ?? 1,
+      stdout: result.stdout,
+      stderr: result.stderr,
+    };
+  }
+
+  /**
+   * 读取项目中的文件
+   * @param file 相对于项目目录的路径
+   * @returns 文件内容
+   */
+  read(file: string): string {
+    return fs.readFileSync(path.join(this.project, file), "utf-8");
+  }
+
+  /**
+   * 获取远程仓库的本地工作副本路径（用于提交和推送）
+   * @param name 仓库名
+   * @returns 工作副本路径
+   */
+  private workDir(name: string): string {
+    return path.join(this.root, "work", name);
+  }
+}
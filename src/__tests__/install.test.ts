@@ -0,0 +1,130 @@
+/**
+ * install 测试
+ */
+
+import fs from "fs-extra";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { Sandbox } from "./helpers/sandbox.js";
+
+const REPO = "acme/dep";
+const REPO_NAME = "example.com/acme/dep";
+
+describe("install", () => {
+  let sandbox: Sandbox;
+
+  beforeAll(async () => {
+    sandbox = await Sandbox.create();
+    sandbox.createRemote(REPO, { "dep.ts": "dep1\n" });
+  });
+
+  afterAll(async () => {
+    await sandbox.cleanup();
+  });
+
+  /**
+   * 在新目录中写入只包含一个条目的清单
+   * @param dir 目录名
+   * @param target 条目的目标路径
+   * @returns 项目目录
+   */
+  async function writeManifest(dir: string, target: string): Promise<string> {
+    const project = path.join(sandbox.root, dir);
+    await fs.outputJson(path.join(project, "grf.json"), {
+      version: "1.0.0",
+      references: [{ name: REPO_NAME, url: sandbox.url(REPO), target }],
+    });
+    return project;
+  }
+
+  it.each([
+    ["a parent directory", ".."],
+    ["a path outside the project", "../outside"],
+    ["an absolute path", "/tmp/grf-outside"],
+  ])("rejects a manifest target pointing at %s", async (_, target) => {
+    const outside = path.join(sandbox.root, "outside");
+    await fs.outputFile(path.join(outside, "keep.txt"), "keep\n");
+    const project = await writeManifest("evil", target);
+
+    const result = sandbox.grf(["install"], project);
+    expect(result.status).toBe(1);
+    expect(result.stderr).toContain(target);
+    expect(fs.readFileSync(path.join(outside, "keep.txt"), "utf-8")).toBe(
+      "keep\n",
+    );
+    expect(fs.existsSync(path.join(project, "grf.json"))).toBe(true);
+  });
+});
+
+describe("install with grf.lock", () => {
+  let sandbox: Sandbox;
+  let v1: string;
+
+  /**
+   * 将加载 v1 后的清单和锁文件复制到新目录
+   * @param dir 目录名
+   * @returns 项目目录
+   */
+  async function copyProject(dir: string): Promise<string> {
+    const project = path.join(sandbox.root, dir);
+    for (const file of ["grf.json", "grf.lock"]) {
+      await fs.copy(path.join(sandbox.project, file), path.join(project, file));
+    }
+    return project;
+  }
+
+  beforeAll(async () => {
+    sandbox = await Sandbox.create();
+    v1 = sandbox.createRemote(REPO, { "dep.ts": "dep1\n" });
+    expect(sandbox.grf(["load", sandbox.url(REPO), "vendor/dep"]).status).toBe(
+      0,
+    );
+
+    // 缓存更新到 v2 后，锁文件仍锁定 v1
+    sandbox.commit(REPO, { "dep.ts": "dep2\n" }, "v2");
+    expect(sandbox.grf(["update", "dep"]).status).toBe(0);
+  });
+
+  afterAll(async () => {
+    await sandbox.cleanup();
+  });
+
+  it("installs the locked commit with --frozen and leaves grf.lock as is", async () => {
+    const project = await copyProject("frozen");
+    const lock = await fs.readFile(path.join(project, "grf.lock"), "utf-8");
+    expect(lock).toContain(v1);
+
+    const result = sandbox.grf(["install", "--frozen"], project);
+    expect(result.status).toBe(0);
+    expect(
+      await fs.readFile(path.join(project, "vendor/dep/dep.ts"), "utf-8"),
+    ).toBe("dep1\n");
+    expect(await fs.readFile(path.join(project, "grf.lock"), "utf-8")).toBe(
+      lock,
+    );
+  });
+
+  it("refuses --frozen without grf.lock", async () => {
+    const project = await copyProject("no-lock");
+    await fs.remove(path.join(project, "grf.lock"));
+
+    const result = sandbox.grf(["install", "--frozen"], project);
+    expect(result.status).toBe(1);
+    expect(result.stderr).toContain("No grf.lock found");
+    expect(fs.existsSync(path.join(project, "vendor/dep"))).toBe(false);
+  });
+
+  it("fails when the installed files do not match the locked integrity", async () => {
+    const project = await copyProject("tampered");
+    const lockPath = path.join(project, "grf.lock");
+    const lock = (await fs.readJson(lockPath)) as {
+      references: Record<string, { integrity: string }>;
+    };
+    lock.references["vendor/dep"].integrity = "sha256-tampered";
+    await fs.writeJson(lockPath, lock);
+
+    const result = sandbox.grf(["install"], project);
+    expect(result.status).toBe(1);
+    expect(result.stdout + result.stderr).toContain("Integrity check failed");
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Git LFS 指针文件检测测试
+ */
+
+import { spawnSync } from "child_process";
+import fs from "fs-extra";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { Sandbox } from "./helpers/sandbox.js";
+
+const REPO = "acme/assets";
+const POINTER = [
+  "version https://git-lfs.github.com/spec/v1",
+  "oid sha256:4d7a214614ab2935c943f9e0ff69d22eadbb8f32b1258daaa5e2ca24d17e2393",
+  "size 12345",
+  "",
+].join("\n");
+
+/** 当前环境是否安装了 git-lfs */
+const hasGitLfs = spawnSync("git", ["lfs", "version"]).status === 0;
+
+describe("Git LFS pointers", () => {
+  let sandbox: Sandbox;
+
+  beforeAll(async () => {
+    sandbox = await Sandbox.create();
+    sandbox.createRemote(REPO, {
+      "assets/logo.png": POINTER,
+      "assets/icon.png": POINTER,
+      "README.md": "assets\n",
+    });
+  });
+
+  afterAll(async () => {
+    await sandbox.cleanup();
+  });
+
+  it("warns with the number of pointer files copied", () => {
+    const result = sandbox.grf(["load", sandbox.url(REPO), "vendor/assets"]);
+    expect(result.status).toBe(0);
+    expect(result.stdout).toContain("2 files are Git LFS pointers");
+    expect(result.stdout).toContain("--lfs");
+    expect(sandbox.read("vendor/assets/assets/logo.png")).toBe(POINTER);
+  });
+
+  it("does not warn when the copied files contain no pointers", () => {
+    const result = sandbox.grf([
+      "load",
+      "assets",
+      "vendor/readme",
+      "--include",
+      "README.md",
+    ]);
+    expect(result.status).toBe(0);
+    expect(result.stdout).not.toContain("Git LFS pointer");
+  });
+
+  it.skipIf(hasGitLfs)("explains that --lfs needs git-lfs", () => {
+    const result = sandbox.grf(["load", "assets", "vendor/lfs", "--lfs"]);
+    expect(result.status).toBe(1);
+    expect(result.stderr).toContain("git-lfs");
+    expect(fs.existsSync(path.join(sandbox.project, "vendor/lfs"))).toBe(false);
+  });
+});
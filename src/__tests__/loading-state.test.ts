@@ -0,0 +1,73 @@
+/**
+ * 旧版加载状态迁移测试
+ */
+
+import fs from "fs-extra";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { Sandbox } from "./helpers/sandbox.js";
+
+const REPO = "acme/mig";
+const REPO_NAME = "example.com/acme/mig";
+
+describe("version 1 loading state migration", () => {
+  let sandbox: Sandbox;
+
+  beforeAll(async () => {
+    sandbox = await Sandbox.create();
+    sandbox.createRemote(REPO, { "index.ts": "mig\n" });
+  });
+
+  afterAll(async () => {
+    await sandbox.cleanup();
+  });
+
+  it("resolves entries against the index and marks the rest unresolved", async () => {
+    expect(sandbox.grf(["add", sandbox.url(REPO)]).status).toBe(0);
+
+    const known = `.gitreference/${REPO_NAME}`;
+    const unknown = "vendor/mystery";
+    await fs.ensureDir(path.join(sandbox.project, known));
+    await fs.ensureDir(path.join(sandbox.project, unknown));
+    const loadedAt = new Date().toISOString();
+    await fs.writeJson(path.join(sandbox.grfHome, "loading.json"), {
+      version: 1,
+      loadedRepos: {
+        [`${sandbox.project}::${known}`]: {
+          targetPath: known,
+          loadedAt,
+          workingDirectory: sandbox.project,
+        },
+        [`${sandbox.project}::${unknown}`]: {
+          targetPath: unknown,
+          loadedAt,
+          workingDirectory: sandbox.project,
+        },
+      },
+    });
+
+    const result = sandbox.grf(["doctor"]);
+    expect(result.stdout).toContain(
+      "Loading entries whose source repository is unknown (1)",
+    );
+    expect(result.stdout).toContain(path.join(sandbox.project, unknown));
+
+    const state = (await fs.readJson(
+      path.join(sandbox.grfHome, "loading.json"),
+    )) as {
+      version: number;
+      loadedRepos: Record<
+        string,
+        { repoName: string; repoUrl?: string; unresolved?: boolean }
+      >;
+    };
+    expect(state.version).toBe(2);
+    expect(state.loadedRepos[`${sandbox.project}::${known}`]).toMatchObject({
+      repoName: REPO_NAME,
+      repoUrl: sandbox.url(REPO),
+    });
+    const unresolved = state.loadedRepos[`${sandbox.project}::${unknown}`];
+    expect(unresolved).toMatchObject({ repoName: "", unresolved: true });
+    expect(unresolved.repoUrl).toBeUndefined();
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * 同步时三方合并本地修改的测试
+ */
+
+import fs from "fs-extra";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { Sandbox } from "./helpers/sandbox.js";
+
+const REPO = "acme/merged";
+const TARGET = "vendor/merged";
+const BASE = "one\ntwo\nthree\nfour\nfive\n";
+
+describe("update --sync-only --merge", () => {
+  let sandbox: Sandbox;
+
+  /**
+   * 写入目标目录中的文件（模拟本地修改）
+   * @param file 文件相对路径
+   * @param content 文件内容
+   */
+  async function edit(file: string, content: string): Promise<void> {
+    await fs.writeFile(path.join(sandbox.project, TARGET, file), content);
+  }
+
+  beforeAll(async () => {
+    sandbox = await Sandbox.create();
+    sandbox.createRemote(REPO, { "a.txt": BASE, "b.txt": "b1\n" });
+    expect(sandbox.grf(["load", sandbox.url(REPO), TARGET]).status).toBe(0);
+  });
+
+  afterAll(async () => {
+    await sandbox.cleanup();
+  });
+
+  it("merges upstream changes into locally edited files", async () => {
+    await edit("a.txt", "ONE\ntwo\nthree\nfour\nfive\n");
+    await edit("local.txt", "mine\n");
+    sandbox.commit(
+      REPO,
+      { "a.txt": "one\ntwo\nthree\nfour\nFIVE\n", "b.txt": "b2\n" },
+      "v2",
+    );
+    expect(sandbox.grf(["update", "merged"]).status).toBe(0);
+
+    const result = sandbox.grf(["update", "--sync-only", "--merge"]);
+    expect(result.status).toBe(0);
+    expect(sandbox.read(`${TARGET}/a.txt`)).toBe(
+      "ONE\ntwo\nthree\nfour\nFIVE\n",
+    );
+    expect(sandbox.read(`${TARGET}/b.txt`)).toBe("b2\n");
+    expect(sandbox.read(`${TARGET}/local.txt`)).toBe("mine\n");
+  });
+
+  it("writes conflict markers when both sides change the same lines", async () => {
+    await edit("b.txt", "local\n");
+    sandbox.commit(REPO, { "b.txt": "upstream\n" }, "v3");
+    expect(sandbox.grf(["update", "merged"]).status).toBe(0);
+
+    const result = sandbox.grf(["update", "--sync-only", "--merge"]);
+    expect(result.stdout).toContain("conflict b.txt");
+
+    const merged = sandbox.read(`${TARGET}/b.txt`);
+    expect(merged).toContain("<<<<<<< local");
+    expect(merged).toContain("local\n");
+    expect(merged).toContain("upstream\n");
+    expect(merged).toContain(">>>>>>> upstream");
+  });
+});
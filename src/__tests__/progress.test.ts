@@ -0,0 +1,44 @@
+/**
+ * git 传输进度输出测试
+ * 测试中 stdout 不是 TTY，每个阶段完成时输出一行进度
+ */
+
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { Sandbox } from "./helpers/sandbox.js";
+
+const REPO = "acme/progress";
+
+describe("git progress", () => {
+  let sandbox: Sandbox;
+
+  beforeAll(async () => {
+    sandbox = await Sandbox.create();
+    sandbox.createRemote(REPO, { "a.ts": "a1\n", "b.ts": "b1\n" });
+  });
+
+  afterAll(async () => {
+    await sandbox.cleanup();
+  });
+
+  it("prints a line for each completed transfer phase when cloning", () => {
+    const result = sandbox.grf(["add", sandbox.url(REPO)]);
+    expect(result.status).toBe(0);
+    expect(result.stdout).toMatch(/^ {2}Counting objects 100% \(\d+\/\d+\)$/m);
+
+    // 同一阶段的进度只在完成时输出一次
+    const phases = result.stdout
+      .split("\n")
+      .filter((line) => /^ {2}\w+ objects /.test(line))
+      .map((line) => line.trim().split(" ")[0]);
+    expect(phases.length).toBeGreaterThan(0);
+    expect(new Set(phases).size).toBe(phases.length);
+  });
+
+  it("keeps progress lines out of git error messages", () => {
+    const result = sandbox.grf(["add", sandbox.url("acme/missing")]);
+    expect(result.status).toBe(1);
+    expect(result.stderr).toContain("Git command failed");
+    expect(result.stderr).toContain("fatal:");
+    expect(result.stdout + result.stderr).not.toMatch(/\w+ objects \d/);
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * 仓库 URL 标识测试
+ */
+
+import { describe, expect, it } from "vitest";
+import { getRepoIdentity } from "../core/repository.js";
+
+describe("getRepoIdentity", () => {
+  it("gives the HTTPS and SSH URLs of a repository the same identity", () => {
+    const identity = "github.com/acme/lib";
+    expect(getRepoIdentity("https://github.com/acme/lib.git")).toBe(identity);
+    expect(getRepoIdentity("git@github.com:acme/lib.git")).toBe(identity);
+    expect(getRepoIdentity("ssh://git@github.com:22/acme/lib")).toBe(identity);
+    expect(getRepoIdentity("https://github.com:443/acme/lib")).toBe(identity);
+  });
+
+  it("keeps non-default ports in the identity", () => {
+    expect(getRepoIdentity("ssh://git@example.com:2222/acme/lib.git")).toBe(
+      "example.com_2222/acme/lib",
+    );
+    expect(getRepoIdentity("ssh://git@example.com/acme/lib.git")).toBe(
+      "example.com/acme/lib",
+    );
+    expect(getRepoIdentity("https://example.com:8443/acme/lib.git")).toBe(
+      "example.com_8443/acme/lib",
+    );
+    expect(getRepoIdentity("git://example.com:9419/acme/lib.git")).toBe(
+      "example.com_9419/acme/lib",
+    );
+  });
+
+  it("keeps HTTPS and SSH on a custom port apart", () => {
+    expect(getRepoIdentity("https://example.com/group/repo")).not.toBe(
+      getRepoIdentity("ssh://git@example.com:2222/group/repo"),
+    );
+  });
+});
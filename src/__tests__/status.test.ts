@@ -0,0 +1,67 @@
+/**
+ * status 与同步时的本地修改保护测试
+ */
+
+import fs from "fs-extra";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { Sandbox } from "./helpers/sandbox.js";
+
+const REPO = "acme/edited";
+const TARGET = "vendor/edited";
+
+describe("status and local edits", () => {
+  let sandbox: Sandbox;
+
+  beforeAll(async () => {
+    sandbox = await Sandbox.create();
+    sandbox.createRemote(REPO, { "a.ts": "a1\n", "b.ts": "b1\n" });
+    expect(sandbox.grf(["load", sandbox.url(REPO), TARGET]).status).toBe(0);
+  });
+
+  afterAll(async () => {
+    await sandbox.cleanup();
+  });
+
+  it("reports modified, added and deleted files", async () => {
+    const target = path.join(sandbox.project, TARGET);
+    await fs.writeFile(path.join(target, "a.ts"), "local\n");
+    await fs.writeFile(path.join(target, "c.ts"), "new\n");
+    await fs.remove(path.join(target, "b.ts"));
+
+    const result = sandbox.grf(["status", "--json"]);
+    expect(result.status).toBe(0);
+    expect(JSON.parse(result.stdout)).toEqual([
+      expect.objectContaining({
+        targetPath: TARGET,
+        modified: ["a.ts"],
+        added: ["c.ts"],
+        deleted: ["b.ts"],
+      }),
+    ]);
+  });
+
+  it("skips syncing a modified reference", () => {
+    sandbox.commit(REPO, { "a.ts": "a2\n" }, "v2");
+
+    expect(sandbox.grf(["update", "edited"]).status).toBe(0);
+
+    const result = sandbox.grf(["update", "--sync-only"]);
+    expect(result.status).toBe(1);
+    expect(result.stdout).toContain("Local changes were found");
+    expect(sandbox.read(`${TARGET}/a.ts`)).toBe("local\n");
+    expect(sandbox.read(`${TARGET}/c.ts`)).toBe("new\n");
+  });
+
+  it("overwrites local edits with --force", () => {
+    const result = sandbox.grf(["update", "--sync-only", "--force"]);
+    expect(result.status).toBe(0);
+    expect(sandbox.read(`${TARGET}/a.ts`)).toBe("a2\n");
+    expect(sandbox.read(`${TARGET}/b.ts`)).toBe("b1\n");
+
+    const status = sandbox.grf(["status", "--json"]);
+    expect(JSON.parse(status.stdout)).toEqual([
+      expect.objectContaining({ targetPath: TARGET, state: "clean" }),
+    ]);
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * storageRoot 与 cache move 测试
+ */
+
+import fs from "fs-extra";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { Sandbox } from "./helpers/sandbox.js";
+
+const REPO = "acme/big";
+const REPO_NAME = "example.com/acme/big";
+
+describe("storage root", () => {
+  let sandbox: Sandbox;
+
+  beforeAll(async () => {
+    sandbox = await Sandbox.create();
+    sandbox.createRemote(REPO, { "index.ts": "big\n" });
+  });
+
+  afterAll(async () => {
+    await sandbox.cleanup();
+  });
+
+  it("refuses to change storageRoot while repositories are cached", () => {
+    expect(sandbox.grf(["add", sandbox.url(REPO)]).status).toBe(0);
+
+    const result = sandbox.grf([
+      "config",
+      "storageRoot",
+      path.join(sandbox.root, "elsewhere"),
+    ]);
+    expect(result.status).toBe(1);
+    expect(result.stderr).toContain("grf cache move");
+  });
+
+  it("moves the cache and points the index at the new location", async () => {
+    const dest = path.join(sandbox.root, "disk");
+    const result = sandbox.grf(["cache", "move", dest]);
+    expect(result.status).toBe(0);
+
+    const index = (await fs.readJson(
+      path.join(sandbox.grfHome, "repos.json"),
+    )) as { repos: Record<string, { path: string }> };
+    const repoPath = index.repos[REPO_NAME].path;
+    expect(repoPath).toBe(path.join(dest, "repos", REPO_NAME));
+    expect(await fs.readFile(path.join(repoPath, "index.ts"), "utf-8")).toBe(
+      "big\n",
+    );
+    expect(fs.existsSync(path.join(sandbox.grfHome, "repos"))).toBe(false);
+
+    expect(sandbox.grf(["load", "big"]).status).toBe(0);
+    expect(sandbox.read(`.gitreference/${REPO_NAME}/index.ts`)).toBe("big\n");
+  });
+});
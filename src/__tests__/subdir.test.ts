@@ -0,0 +1,72 @@
+/**
+ * 多个 --subdir src:dest 映射测试
+ */
+
+import fs from "fs-extra";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { Sandbox } from "./helpers/sandbox.js";
+
+const REPO = "acme/mono";
+
+describe("multiple --subdir mappings", () => {
+  let sandbox: Sandbox;
+
+  beforeAll(async () => {
+    sandbox = await Sandbox.create();
+    sandbox.createRemote(REPO, {
+      "packages/core/src/a.ts": "a1\n",
+      "packages/shared/types/t.ts": "t1\n",
+      "other/x.ts": "x\n",
+    });
+  });
+
+  afterAll(async () => {
+    await sandbox.cleanup();
+  });
+
+  it("copies each mapped subdirectory to its destination", () => {
+    const result = sandbox.grf([
+      "load",
+      sandbox.url(REPO),
+      "vendor/mono",
+      "--subdir",
+      "packages/core/src:core",
+      "--subdir",
+      "packages/shared/types:types",
+    ]);
+    expect(result.status).toBe(0);
+
+    expect(sandbox.read("vendor/mono/core/a.ts")).toBe("a1\n");
+    expect(sandbox.read("vendor/mono/types/t.ts")).toBe("t1\n");
+    expect(fs.existsSync(path.join(sandbox.project, "vendor/mono/other"))).toBe(
+      false,
+    );
+  });
+
+  it("keeps the mappings when syncing", () => {
+    sandbox.commit(REPO, { "packages/core/src/a.ts": "a2\n" }, "v2");
+
+    const result = sandbox.grf(["update", "mono", "--sync"]);
+    expect(result.status).toBe(0);
+    expect(sandbox.read("vendor/mono/core/a.ts")).toBe("a2\n");
+    expect(sandbox.read("vendor/mono/types/t.ts")).toBe("t1\n");
+  });
+
+  it("reinstalls the mappings from grf.json", async () => {
+    const fresh = path.join(sandbox.root, "fresh");
+    await fs.copy(
+      path.join(sandbox.project, "grf.json"),
+      path.join(fresh, "grf.json"),
+    );
+
+    const result = sandbox.grf(["install"], fresh);
+    expect(result.status).toBe(0);
+    expect(
+      await fs.readFile(path.join(fresh, "vendor/mono/core/a.ts"), "utf-8"),
+    ).toBe("a2\n");
+    expect(
+      await fs.readFile(path.join(fresh, "vendor/mono/types/t.ts"), "utf-8"),
+    ).toBe("t1\n");
+  });
+});
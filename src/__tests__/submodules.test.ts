@@ -0,0 +1,70 @@
+/**
+ * --recursive 子模块测试
+ */
+
+import fs from "fs-extra";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { Sandbox } from "./helpers/sandbox.js";
+
+const PARENT = "acme/parent";
+const CHILD = "acme/child";
+
+describe("submodules", () => {
+  let sandbox: Sandbox;
+  let parentWork: string;
+
+  beforeAll(async () => {
+    sandbox = await Sandbox.create();
+    sandbox.createRemote(CHILD, { "c.ts": "c1\n" });
+    sandbox.createRemote(PARENT, { "p.ts": "p1\n" });
+
+    parentWork = path.join(sandbox.root, "work", PARENT);
+    sandbox.git(
+      ["submodule", "add", "--quiet", sandbox.url(CHILD), "child"],
+      parentWork,
+    );
+    sandbox.commit(PARENT, {}, "add submodule");
+  });
+
+  afterAll(async () => {
+    await sandbox.cleanup();
+  });
+
+  it("leaves submodules empty without --recursive", () => {
+    const result = sandbox.grf(["load", sandbox.url(PARENT), "vendor/plain"]);
+    expect(result.status).toBe(0);
+    expect(sandbox.read("vendor/plain/p.ts")).toBe("p1\n");
+    expect(
+      fs.existsSync(path.join(sandbox.project, "vendor/plain/child/c.ts")),
+    ).toBe(false);
+  });
+
+  it("enables submodules for the repository with load --recursive", async () => {
+    const result = sandbox.grf([
+      "load",
+      "parent",
+      "vendor/deep",
+      "--recursive",
+    ]);
+    expect(result.status).toBe(0);
+    expect(sandbox.read("vendor/deep/child/c.ts")).toBe("c1\n");
+
+    const manifest = (await fs.readJson(
+      path.join(sandbox.project, "grf.json"),
+    )) as { references: { target: string; recursive?: boolean }[] };
+    expect(
+      manifest.references.find((r) => r.target === "vendor/deep")?.recursive,
+    ).toBe(true);
+  });
+
+  it("moves submodules to the commits recorded upstream on update", () => {
+    sandbox.commit(CHILD, { "c.ts": "c2\n" }, "child v2");
+    sandbox.git(["submodule", "update", "--quiet", "--remote"], parentWork);
+    sandbox.commit(PARENT, {}, "bump child");
+
+    expect(sandbox.grf(["update", "parent"]).status).toBe(0);
+    expect(sandbox.grf(["update", "--sync-only"]).status).toBe(0);
+    expect(sandbox.read("vendor/deep/child/c.ts")).toBe("c2\n");
+  });
+});
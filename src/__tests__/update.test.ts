@@ -0,0 +1,102 @@
+/**
+ * 远程历史被改写时的 update 测试
+ */
+
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { Sandbox } from "./helpers/sandbox.js";
+
+const REPO = "acme/rewrite";
+const REPO_NAME = "example.com/acme/rewrite";
+
+describe("update after upstream history is rewritten", () => {
+  let sandbox: Sandbox;
+  let mirror: string;
+
+  /**
+   * 改写远程 main 分支的最新提交并强制推送
+   * @param message 新的提交说明
+   * @returns 改写后的 commit
+   */
+  function rewrite(message: string): string {
+    const work = path.join(sandbox.root, "work", REPO);
+    sandbox.git(["commit", "--quiet", "--amend", "-m", message], work);
+    sandbox.git(["push", "--quiet", "--force", "origin", "HEAD:main"], work);
+    return sandbox.git(["rev-parse", "HEAD"], work);
+  }
+
+  /**
+   * 列出镜像中的备份引用
+   * @returns 引用名称与 commit
+   */
+  function listBackups(): string[] {
+    return sandbox
+      .git(
+        ["for-each-ref", "--format=%(refname) %(objectname)", "refs/grf/"],
+        mirror,
+      )
+      .split("\n")
+      .filter(Boolean)
+      .sort();
+  }
+
+  beforeAll(async () => {
+    sandbox = await Sandbox.create();
+    mirror = path.join(sandbox.grfHome, "mirrors", `${REPO_NAME}.git`);
+  });
+
+  afterAll(async () => {
+    await sandbox.cleanup();
+  });
+
+  it("keeps a separate backup ref for every rewrite", () => {
+    const first = sandbox.createRemote(REPO, { "a.ts": "a\n" });
+    expect(sandbox.grf(["add", sandbox.url(REPO)]).status).toBe(0);
+
+    const second = rewrite("rewritten once");
+    const once = sandbox.grf(["update", "rewrite"]);
+    expect(once.status).toBe(0);
+    expect(once.stdout).toContain(`refs/grf/backup/main/${first}`);
+
+    rewrite("rewritten twice");
+    expect(sandbox.grf(["update", "rewrite"]).status).toBe(0);
+
+    expect(listBackups()).toEqual(
+      [
+        `refs/grf/backup/main/${first} ${first}`,
+        `refs/grf/backup/main/${second} ${second}`,
+      ].sort(),
+    );
+  });
+});
+
+describe("update all", () => {
+  let sandbox: Sandbox;
+
+  beforeAll(async () => {
+    sandbox = await Sandbox.create();
+  });
+
+  afterAll(async () => {
+    await sandbox.cleanup();
+  });
+
+  it("pluralizes the summary counts", () => {
+    for (const name of ["acme/pin-a", "acme/pin-b"]) {
+      sandbox.createRemote(name, { "a.ts": "a\n" });
+      sandbox.tag(name, "v1");
+      expect(
+        sandbox.grf(["add", sandbox.url(name), "--ref", "v1"]).status,
+      ).toBe(0);
+    }
+    sandbox.createRemote("acme/moving", { "a.ts": "a\n" });
+    expect(sandbox.grf(["add", sandbox.url("acme/moving")]).status).toBe(0);
+    sandbox.commit("acme/moving", { "a.ts": "b\n" }, "move");
+
+    const result = sandbox.grf(["update"]);
+    expect(result.status).toBe(0);
+    expect(result.stdout).toContain("1 repository updated.");
+    expect(result.stdout).toContain("2 pinned repositories skipped.");
+    expect(result.stdout).not.toContain("repositoryies");
+  });
+});
@@ -4,6 +4,7 @@ import { Command } from "commander";
 import * as fs from "fs";
 import * as path from "path";
 import { registerAllCommands } from "./commands/index.js";
+import { redactCredentials } from "./utils/redact.js";
 
 // 读取 package.json 获取版本号
 const packageJsonPath = path.join(__dirname, "..", "package.json");
@@ -23,14 +24,16 @@ registerAllCommands(program);
 
 // 全局错误处理
 process.on("uncaughtException", (error: Error) => {
-  console.error("Error:", error.message);
+  console.error("Error:", redactCredentials(error.message));
   process.exit(1);
 });
 
 process.on("unhandledRejection", (reason: unknown) => {
   console.error(
     "Error:",
-    reason instanceof Error ? reason.message : String(reason),
+    redactCredentials(
+      reason instanceof Error ? reason.message : String(reason),
+    ),
   );
   process.exit(1);
 });
@@ -4,7 +4,7 @@
 
 import chalk from "chalk";
 import { RepoInfo } from "../../core/repository.js";
-import { shortCommit } from "../../ui/format.js";
+import { shortCommit, formatPin } from "../../ui/format.js";
 
 /**
  * 显示添加成功的仓库信息
@@ -17,6 +17,15 @@ export function displaySuccess(repoInfo: RepoInfo): void {
   if (repoInfo.branch) {
     console.log(`  ${chalk.gray("Branch:")}   ${repoInfo.branch}`);
   }
+  if (repoInfo.ref) {
+    console.log(`  ${chalk.gray("Ref:")}      ${formatPin(repoInfo)}`);
+  }
+  if (repoInfo.sparse) {
+    console.log(`  ${chalk.gray("Sparse:")}   ${repoInfo.sparse.join(", ")}`);
+  }
+  if (repoInfo.recursive) {
+    console.log(`  ${chalk.gray("Submodules:")} yes`);
+  }
   console.log(
     `  ${chalk.gray("Commit:")}   ${shortCommit(repoInfo.commitId)}...`,
   );
@@ -3,6 +3,7 @@
  */
 
 import * as repository from "../../core/repository.js";
+import { createProgressHandler } from "../../ui/spinner.js";
 import { AddContext } from "./types.js";
 
 /**
@@ -11,13 +12,17 @@ import { AddContext } from "./types.js";
  * @returns 更新后的上下文（包含 repoInfo）
  */
 export async function addRepository(context: AddContext): Promise<AddContext> {
-  const { url, options } = context;
+  const { url, options, spinner } = context;
 
   const repoInfo = await repository.add(url, {
     name: options.name,
     branch: options.branch,
+    ref: options.ref,
     shallow: options.shallow,
     depth: parseInt(options.depth, 10),
+    sparse: options.sparse?.split(","),
+    recursive: options.recursive,
+    onProgress: createProgressHandler(spinner, "Cloning repository..."),
   });
 
   return {
@@ -10,9 +10,12 @@ import { handleError } from "../../utils/error.js";
 import {
   nameOption,
   branchOption,
+  refOption,
   shallowOption,
   noShallowOption,
   depthOption,
+  sparseOption,
+  recursiveOption,
 } from "../options/index.js";
 import { AddOptions, AddContext } from "./types.js";
 import { addRepository } from "./helpers.js";
@@ -31,9 +34,12 @@ export const addCommand = new Command("add")
   .argument("<url>", "Git repository URL")
   .addOption(nameOption)
   .addOption(branchOption)
+  .addOption(refOption)
   .addOption(shallowOption)
   .addOption(noShallowOption)
   .addOption(depthOption)
+  .addOption(sparseOption)
+  .addOption(recursiveOption)
   .action(async (url: string, options: AddOptions) => {
     const spinner = startSpinner("Cloning repository...");
 
@@ -13,10 +13,16 @@ export interface AddOptions {
   name?: string;
   /** 指定分支 */
   branch?: string;
+  /** 指定标签或 commit */
+  ref?: string;
   /** 是否浅克隆 */
   shallow: boolean;
   /** 克隆深度 */
   depth: string;
+  /** 稀疏检出的路径（逗号分隔） */
+  sparse?: string;
+  /** 是否克隆并更新子模块 */
+  recursive?: boolean;
 }
 
 /**
@@ -0,0 +1,121 @@
+/**
+ * cache 命令显示函数
+ */
+
+import chalk from "chalk";
+import type { CacheMove, RepoUsage } from "../../core/cache.js";
+import { formatBytes, formatDate } from "../../ui/format.js";
+import { printTable } from "../../ui/table.js";
+import { TABLE_COLUMNS } from "../../utils/constants.js";
+import { redactCredentials } from "../../utils/redact.js";
+
+/**
+ * 计算所有仓库占用的空间之和
+ * @param usage 各仓库的使用情况
+ * @returns 字节数
+ */
+function getTotalSize(usage: RepoUsage[]): number {
+  return usage.reduce((total, item) => total + item.size, 0);
+}
+
+/**
+ * 格式化历史深度（表格中使用的简短形式）
+ * @param depth 深度（完整历史时为空）
+ * @returns 显示文本
+ */
+function formatDepth(depth?: number): string {
+  return depth === undefined ? "full" : depth.toString();
+}
+
+/**
+ * 显示空缓存消息
+ */
+export function displayEmptyCache(): void {
+  console.log(chalk.yellow("No repositories cached yet."));
+  console.log();
+  console.log(`Use '${chalk.cyan("grf add <url>")}' to add a repository.`);
+}
+
+/**
+ * 显示 JSON 格式的缓存统计
+ * @param usage 各仓库的使用情况
+ */
+export function displayCacheStatsJson(usage: RepoUsage[]): void {
+  const repositories = usage.map((item) => ({
+    name: item.repo.name,
+    url: redactCredentials(item.repo.url),
+    path: item.repo.path,
+    size: item.size,
+    depth: item.depth ?? null,
+    updatedAt: item.repo.updatedAt,
+    lastLoadedAt: item.lastLoadedAt ?? null,
+    projects: item.projects,
+    entries: item.entryCount,
+  }));
+  console.log(
+    JSON.stringify({ repositories, totalSize: getTotalSize(usage) }, null, 2),
+  );
+}
+
+/**
+ * 显示表格格式的缓存统计（按占用空间从大到小排列）
+ * @param usage 各仓库的使用情况
+ */
+export function displayCacheStats(usage: RepoUsage[]): void {
+  const sorted = [...usage].sort((a, b) => b.size - a.size);
+
+  console.log(chalk.bold("Cache usage:"));
+  console.log();
+  printTable(
+    {
+      columns: [
+        { header: "NAME", width: TABLE_COLUMNS.NAME },
+        { header: "SIZE", width: 12 },
+        { header: "DEPTH", width: 8 },
+        { header: "UPDATED", width: 16 },
+        { header: "LAST LOADED", width: 16 },
+        { header: "PROJECTS", width: 10 },
+      ],
+    },
+    sorted.map((item) => [
+      item.repo.name,
+      formatBytes(item.size),
+      formatDepth(item.depth),
+      formatDate(item.repo.updatedAt, "relative"),
+      item.lastLoadedAt ? formatDate(item.lastLoadedAt, "relative") : "never",
+      item.projects.length.toString(),
+    ]),
+  );
+
+  const unused = usage.filter((item) => item.entryCount === 0).length;
+  console.log();
+  console.log(
+    chalk.gray(
+      `Total: ${usage.length} ${usage.length === 1 ? "repository" : "repositories"}, ${formatBytes(getTotalSize(usage))}` +
+        (unused > 0 ? ` (${unused} not loaded by any project)` : ""),
+    ),
+  );
+}
+
+/**
+ * 显示缓存迁移结果
+ * @param result 迁移结果
+ */
+export function displayCacheMove(result: CacheMove): void {
+  console.log(chalk.gray(`  From: ${result.from}`));
+  console.log(
+    `Updated the path of ${result.repoCount} cached ${result.repoCount === 1 ? "repository" : "repositories"}.`,
+  );
+
+  if (result.repairErrors.length > 0) {
+    console.log();
+    console.log(
+      chalk.yellow(
+        "Some repositories could not relink their worktrees. Remove and re-add them:",
+      ),
+    );
+    for (const err of result.repairErrors) {
+      console.log(chalk.yellow(`  - ${err}`));
+    }
+  }
+}
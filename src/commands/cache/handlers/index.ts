@@ -0,0 +1,6 @@
+/**
+ * cache 命令 handlers 统一导出
+ */
+
+export { handleCacheStats } from "./stats.js";
+export { handleCacheMove } from "./move.js";
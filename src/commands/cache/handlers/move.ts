@@ -0,0 +1,28 @@
+/**
+ * cache 命令 - 缓存迁移处理器
+ */
+
+import chalk from "chalk";
+import { moveStorage } from "../../../core/cache.js";
+import { startSpinner } from "../../../ui/spinner.js";
+import { displayCacheMove } from "../display.js";
+
+/**
+ * 处理 cache move：将缓存移动到新的存储根目录
+ * @param dir 新的存储根目录
+ */
+export async function handleCacheMove(dir: string): Promise<void> {
+  const spinner = startSpinner("Moving cache...");
+  try {
+    const result = await moveStorage(dir);
+    if (result.repairErrors.length > 0) {
+      spinner.warn(chalk.yellow(`Cache moved to ${result.to} with errors`));
+    } else {
+      spinner.succeed(chalk.green(`Cache moved to ${result.to}`));
+    }
+    displayCacheMove(result);
+  } catch (error) {
+    spinner.fail(chalk.red("Failed to move cache"));
+    throw error;
+  }
+}
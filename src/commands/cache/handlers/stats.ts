@@ -0,0 +1,37 @@
+/**
+ * cache 命令 - 缓存统计处理器
+ */
+
+import { getCacheUsage } from "../../../core/cache.js";
+import { startSpinner } from "../../../ui/spinner.js";
+import { CacheStatsOptions } from "../types.js";
+import {
+  displayCacheStats,
+  displayCacheStatsJson,
+  displayEmptyCache,
+} from "../display.js";
+
+/**
+ * 处理 cache stats：统计各缓存仓库的磁盘占用与使用情况
+ * @param options 命令选项
+ */
+export async function handleCacheStats(
+  options: CacheStatsOptions,
+): Promise<void> {
+  // JSON 输出时不显示 spinner
+  const spinner = options.json ? undefined : startSpinner("Measuring cache...");
+  const usage = await getCacheUsage();
+  spinner?.stop();
+
+  if (options.json) {
+    displayCacheStatsJson(usage);
+    return;
+  }
+
+  if (usage.length === 0) {
+    displayEmptyCache();
+    return;
+  }
+
+  displayCacheStats(usage);
+}
@@ -0,0 +1,47 @@
+/**
+ * cache 命令
+ * 查看缓存仓库的磁盘占用与使用情况，或将缓存迁移到其他目录
+ */
+
+import { Command } from "commander";
+import { handleError } from "../../utils/error.js";
+import { jsonOption } from "../options/index.js";
+import { CacheStatsOptions } from "./types.js";
+import { handleCacheMove, handleCacheStats } from "./handlers/index.js";
+
+/**
+ * 注册 cache 命令
+ * @param program Commander 程序实例
+ */
+export function registerCacheCommand(program: Command): void {
+  program.addCommand(cacheCommand);
+}
+
+const statsCommand = new Command("stats")
+  .description("Show disk usage and usage statistics of cached repositories")
+  .addOption(jsonOption)
+  .action(async (options: CacheStatsOptions) => {
+    try {
+      await handleCacheStats(options);
+    } catch (error) {
+      handleError(error, { exit: true });
+    }
+  });
+
+const moveCommand = new Command("move")
+  .description(
+    "Move cached repositories to another directory and use it as storageRoot",
+  )
+  .argument("<dir>", "New storage directory")
+  .action(async (dir: string) => {
+    try {
+      await handleCacheMove(dir);
+    } catch (error) {
+      handleError(error, { exit: true });
+    }
+  });
+
+export const cacheCommand = new Command("cache")
+  .description("Inspect and relocate the repository cache")
+  .addCommand(statsCommand)
+  .addCommand(moveCommand);
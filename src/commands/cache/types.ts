@@ -0,0 +1,11 @@
+/**
+ * cache 命令类型定义
+ */
+
+/**
+ * cache stats 命令选项
+ */
+export interface CacheStatsOptions {
+  /** 以 JSON 格式输出 */
+  json?: boolean;
+}
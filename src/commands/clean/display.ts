@@ -4,6 +4,8 @@
 
 import chalk from "chalk";
 import { RepoInfo } from "../../core/repository.js";
+import { LoadingEntry } from "../../types/index.js";
+import { shortenPath } from "../../ui/format.js";
 
 /**
  * 显示没有仓库可清理的消息
@@ -47,6 +49,80 @@ export function displayPartialRemoveResult(
   }
 }
 
+/**
+ * 显示仍在加载待删除仓库的参考代码
+ * @param entries 加载条目
+ * @param cascade 是否会一并卸载（--cascade）
+ */
+export function displayLoadingEntries(
+  entries: LoadingEntry[],
+  cascade: boolean,
+): void {
+  const projects = new Set(
+    entries.map((entry) => entry.workingDirectory ?? entry.targetPath),
+  );
+  console.log(
+    chalk.yellow(
+      `${entries.length} loaded reference${entries.length === 1 ? "" : "s"} in ${projects.size} project${projects.size === 1 ? "" : "s"} still use${entries.length === 1 ? "s" : ""} ${entries.length === 1 ? "this repository" : "these repositories"}:`,
+    ),
+  );
+  for (const entry of entries) {
+    const project = entry.workingDirectory
+      ? shortenPath(entry.workingDirectory)
+      : chalk.gray("(unknown project)");
+    console.log(
+      `  - ${project}: ${entry.targetPath} ${chalk.gray(`(${entry.repoName})`)}`,
+    );
+  }
+  console.log();
+  const them = entries.length === 1 ? "it" : "them";
+  if (cascade) {
+    console.log(
+      `${entries.length === 1 ? "It" : "They"} will be unloaded too (--cascade).`,
+    );
+  } else {
+    console.log(
+      chalk.gray(
+        `Without the cache, \`grf update --sync\` fails for ${them}. Use --cascade to unload ${them} too.`,
+      ),
+    );
+  }
+  console.log();
+}
+
+/**
+ * 显示部分卸载失败的结果
+ * @param errors 错误列表
+ */
+export function displayPartialUnloadResult(errors: string[]): void {
+  console.log(chalk.yellow("Some reference code could not be unloaded:"));
+  for (const err of errors) {
+    console.log(chalk.red(`  - ${err}`));
+  }
+}
+
+/**
+ * 显示卸载时跳过的旧版条目
+ * @param entries 跳过的加载条目
+ */
+export function displaySkippedEntries(entries: LoadingEntry[]): void {
+  console.log(
+    chalk.yellow(
+      `Skipped ${entries.length} reference${entries.length === 1 ? "" : "s"} from unknown projects (only the loading record was dropped):`,
+    ),
+  );
+  for (const entry of entries) {
+    console.log(
+      chalk.yellow(
+        `  - ${entry.targetPath} ${chalk.gray(`(${entry.repoName})`)}`,
+      ),
+    );
+  }
+  console.log(
+    chalk.gray("Remove their files manually if they are still there."),
+  );
+}
+
 /**
  * 显示仓库未找到的错误
  * @param name 仓库名称
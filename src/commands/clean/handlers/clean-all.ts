@@ -6,11 +6,13 @@
 import { confirm, showCancelled } from "../../../ui/prompt.js";
 import { startSpinner } from "../../../ui/spinner.js";
 import { CleanContext } from "../types.js";
-import { removeAllRepos } from "../helpers.js";
+import { findLoadingEntries, removeAllRepos } from "../helpers.js";
 import {
   displayReposToDelete,
+  displayLoadingEntries,
   displayPartialRemoveResult,
 } from "../display.js";
+import { handleUnloadCascade } from "./unload-cascade.js";
 
 /**
  * 处理 --all 选项，删除所有仓库
@@ -24,10 +26,18 @@ export async function handleCleanAll(context: CleanContext): Promise<boolean> {
     return false;
   }
 
+  // 列出仍在加载这些仓库的参考代码
+  const entries = await findLoadingEntries(repos);
+
   // 显示将要删除的仓库列表
   if (!options.force) {
     displayReposToDelete(repos);
+  }
+  if (entries.length > 0) {
+    displayLoadingEntries(entries, !!options.cascade);
+  }
 
+  if (!options.force) {
     const confirmed = await confirm("Are you sure?");
     if (!confirmed) {
       showCancelled();
@@ -46,5 +56,7 @@ export async function handleCleanAll(context: CleanContext): Promise<boolean> {
     spinner.succeed("All repositories removed!");
   }
 
+  await handleUnloadCascade(entries, options);
+
   return true;
 }
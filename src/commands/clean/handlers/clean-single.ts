@@ -8,8 +8,9 @@ import * as repository from "../../../core/repository.js";
 import { confirm, showCancelled } from "../../../ui/prompt.js";
 import { startSpinner } from "../../../ui/spinner.js";
 import { CleanContext } from "../types.js";
-import { removeSingleRepo } from "../helpers.js";
-import { displayRepoNotFound } from "../display.js";
+import { findLoadingEntries, removeSingleRepo } from "../helpers.js";
+import { displayLoadingEntries, displayRepoNotFound } from "../display.js";
+import { handleUnloadCascade } from "./unload-cascade.js";
 
 /**
  * 处理删除单个仓库
@@ -30,6 +31,12 @@ export async function handleCleanSingle(
     process.exit(1);
   }
 
+  // 列出仍在加载该仓库的参考代码
+  const entries = await findLoadingEntries([repoInfo]);
+  if (entries.length > 0) {
+    displayLoadingEntries(entries, !!options.cascade);
+  }
+
   // 确认删除
   if (!options.force) {
     const confirmed = await confirm(
@@ -46,5 +53,7 @@ export async function handleCleanSingle(
   await removeSingleRepo(repoInfo.name);
   spinner.succeed("Repository removed successfully!");
 
+  await handleUnloadCascade(entries, options);
+
   return true;
 }
@@ -4,3 +4,4 @@
 
 export { handleCleanAll } from "./clean-all.js";
 export { handleCleanSingle } from "./clean-single.js";
+export { handleUnloadCascade } from "./unload-cascade.js";
@@ -0,0 +1,49 @@
+/**
+ * clean --cascade 处理器
+ * 删除仓库后卸载仍引用它的参考代码
+ */
+
+import * as repository from "../../../core/repository.js";
+import { LoadingEntry } from "../../../types/index.js";
+import { startSpinner } from "../../../ui/spinner.js";
+import { CleanOptions } from "../types.js";
+import { unloadEntries } from "../helpers.js";
+import {
+  displayPartialUnloadResult,
+  displaySkippedEntries,
+} from "../display.js";
+
+/**
+ * 在指定 --cascade 时卸载引用已删除仓库的参考代码
+ * @param entries 引用已删除仓库的加载条目
+ * @param options 命令选项
+ */
+export async function handleUnloadCascade(
+  entries: LoadingEntry[],
+  options: CleanOptions,
+): Promise<void> {
+  if (!options.cascade || entries.length === 0) {
+    return;
+  }
+
+  // 只卸载仓库已被删除的条目（删除失败的仓库仍可继续使用）
+  const remaining = new Set((await repository.list()).map((repo) => repo.name));
+  const orphaned = entries.filter((entry) => !remaining.has(entry.repoName));
+  if (orphaned.length === 0) {
+    return;
+  }
+
+  const spinner = startSpinner("Unloading reference code...");
+  const { removedCount, errors, skipped } = await unloadEntries(orphaned);
+  const total = orphaned.length - skipped.length;
+
+  if (errors.length > 0) {
+    spinner.warn(`Unloaded ${removedCount} of ${total} reference code.`);
+    displayPartialUnloadResult(errors);
+  } else {
+    spinner.succeed(`Unloaded ${removedCount} reference code.`);
+  }
+  if (skipped.length > 0) {
+    displaySkippedEntries(skipped);
+  }
+}
@@ -2,8 +2,11 @@
  * clean 命令辅助函数
  */
 
+import * as loading from "../../core/loading.js";
 import * as repository from "../../core/repository.js";
 import { RepoInfo } from "../../core/repository.js";
+import { LoadingEntry } from "../../types/index.js";
+import { unloadEntry } from "../unload/helpers.js";
 
 /**
  * 删除结果
@@ -15,6 +18,14 @@ export interface RemoveResult {
   errors: string[];
 }
 
+/**
+ * 卸载结果
+ */
+export interface UnloadResult extends RemoveResult {
+  /** 跳过的条目（旧版条目，没有记录所属项目） */
+  skipped: LoadingEntry[];
+}
+
 /**
  * 删除所有仓库
  * @param repos 仓库列表
@@ -45,3 +56,49 @@ export async function removeAllRepos(repos: RepoInfo[]): Promise<RemoveResult> {
 export async function removeSingleRepo(name: string): Promise<void> {
   await repository.remove(name);
 }
+
+/**
+ * 查找仍在加载这些仓库的参考代码
+ * @param repos 仓库列表
+ * @returns loading.json 中指向这些仓库的条目
+ */
+export async function findLoadingEntries(
+  repos: RepoInfo[],
+): Promise<LoadingEntry[]> {
+  const names = new Set(repos.map((repo) => repo.name));
+  const entries = await loading.getEntries();
+  return entries.filter((entry) => names.has(entry.repoName));
+}
+
+/**
+ * 卸载引用已删除仓库的参考代码（--cascade）
+ * 旧版条目没有记录工作目录，无法确定目标路径相对于哪个项目，
+ * 只移除其加载记录，不删除或修改任何文件
+ * @param entries 加载条目
+ * @returns 卸载结果
+ */
+export async function unloadEntries(
+  entries: LoadingEntry[],
+): Promise<UnloadResult> {
+  let removedCount = 0;
+  const errors: string[] = [];
+  const skipped: LoadingEntry[] = [];
+
+  for (const entry of entries) {
+    try {
+      if (!entry.workingDirectory) {
+        await loading.removeEntry(entry.id);
+        skipped.push(entry);
+        continue;
+      }
+      await unloadEntry(entry);
+      removedCount++;
+    } catch (error) {
+      if (error instanceof Error) {
+        errors.push(`${entry.targetPath}: ${error.message}`);
+      }
+    }
+  }
+
+  return { removedCount, errors, skipped };
+}
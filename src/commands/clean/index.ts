@@ -6,7 +6,7 @@
 import { Command } from "commander";
 import * as repository from "../../core/repository.js";
 import { handleError } from "../../utils/error.js";
-import { allOption, forceOption } from "../options/index.js";
+import { allOption, cascadeOption, forceOption } from "../options/index.js";
 import { CleanOptions, CleanContext } from "./types.js";
 import { displayNoRepos, displayUsageHelp } from "./display.js";
 import { handleCleanAll, handleCleanSingle } from "./handlers/index.js";
@@ -24,6 +24,7 @@ export const cleanCommand = new Command("clean")
   .argument("[name]", "Repository name to remove")
   .addOption(allOption)
   .addOption(forceOption)
+  .addOption(cascadeOption)
   .action(async (name: string | undefined, options: CleanOptions) => {
     try {
       // 获取所有仓库列表
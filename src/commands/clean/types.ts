@@ -10,6 +10,7 @@ import { RepoInfo } from "../../core/repository.js";
 export interface CleanOptions {
   all?: boolean;
   force?: boolean;
+  cascade?: boolean;
 }
 
 /**
@@ -3,6 +3,8 @@
  */
 
 import { writeGlobalConfig } from "../../../core/config.js";
+import { clearStorageRootCache } from "../../../core/paths.js";
+import { ErrorCode, GrfError } from "../../../types/index.js";
 import { ConfigContext } from "../types.js";
 import { isValidKey, parseValue } from "../helpers.js";
 import { displayUpdateSuccess, displayInvalidKeyError } from "../display.js";
@@ -31,9 +33,20 @@ export async function handleSetValue(context: ConfigContext): Promise<boolean> {
   const key = context.key;
   const parsedValue = parseValue(key, context.value);
 
+  // 已有缓存仓库时直接修改存储位置会使它们失去镜像和工作树，需要通过 cache move 迁移
+  if (key === "storageRoot" && Object.keys(context.config.repos).length > 0) {
+    throw new GrfError(
+      ErrorCode.INVALID_ARGUMENT,
+      "Cannot change storageRoot while repositories are cached. Use 'grf cache move <dir>' to relocate them.",
+    );
+  }
+
   // 更新配置
   (context.config as unknown as Record<string, unknown>)[key] = parsedValue;
   await writeGlobalConfig(context.config);
+  if (key === "storageRoot") {
+    clearStorageRootCache();
+  }
 
   displayUpdateSuccess(key, parsedValue);
   return true;
@@ -2,6 +2,8 @@
  * config 命令辅助函数
  */
 
+import path from "path";
+import { parseDuration, parseSize } from "../../core/gc.js";
 import { validKeys, ConfigKey } from "./types.js";
 
 /**
@@ -23,8 +25,8 @@ export function parseValue(
   key: ConfigKey,
   value: string,
 ): string | boolean | number {
-  // shallowClone 应该是布尔值
-  if (key === "shallowClone") {
+  // shallowClone、gcUnused 应该是布尔值
+  if (key === "shallowClone" || key === "gcUnused") {
     if (value === "true" || value === "1") {
       return true;
     }
@@ -43,6 +45,23 @@ export function parseValue(
     return num;
   }
 
+  // gcMaxSize、gcOlderThan 保存原文本，写入前校验格式
+  if (key === "gcMaxSize" && parseSize(value) === null) {
+    throw new Error(
+      `Invalid value for ${key}: expected a size such as 500M or 5G`,
+    );
+  }
+  if (key === "gcOlderThan" && parseDuration(value) === null) {
+    throw new Error(
+      `Invalid value for ${key}: expected a duration such as 12h, 30d or 2w`,
+    );
+  }
+
+  // storageRoot 保存为绝对路径
+  if (key === "storageRoot") {
+    return path.resolve(value);
+  }
+
   // 其他都是字符串
   return value;
 }
@@ -9,6 +9,10 @@ export const validKeys = [
   "defaultBranch",
   "shallowClone",
   "shallowDepth",
+  "gcMaxSize",
+  "gcOlderThan",
+  "gcUnused",
+  "storageRoot",
 ] as const;
 
 /** 配置项名称类型 */
@@ -0,0 +1,63 @@
+/**
+ * diff 命令显示/格式化逻辑
+ */
+
+import chalk from "chalk";
+import { shortCommit } from "../../ui/format.js";
+import type { EntryDiff } from "./types.js";
+
+/**
+ * 显示未找到匹配条目的提示
+ * @param name 用户输入的名称
+ */
+export function displayNoMatch(name: string): void {
+  console.error(
+    chalk.red(`${chalk.bold("✗")} No matching reference code found: ${name}`),
+  );
+  console.log();
+  console.log(
+    `Use '${chalk.cyan("grf unload --list")}' to see all loaded reference code.`,
+  );
+}
+
+/**
+ * 显示差异
+ * name-only 模式下只输出文件列表，便于脚本处理
+ * @param result 差异信息
+ */
+export function displayDiff(result: EntryDiff): void {
+  const { entry, loadedCommit, headCommit, paths, format, output } = result;
+
+  if (format === "name-only") {
+    if (output) {
+      console.log(output);
+    }
+    return;
+  }
+
+  console.log(
+    chalk.bold(`${entry.repoName}`) + chalk.gray(` -> ${entry.targetPath}`),
+  );
+  console.log(
+    chalk.gray(
+      `  ${shortCommit(loadedCommit)} (loaded) → ${shortCommit(headCommit)} (cache)` +
+        (paths.length > 0 ? `  [${paths.join(", ")}]` : ""),
+    ),
+  );
+  console.log();
+
+  if (loadedCommit === headCommit || !output) {
+    console.log(
+      chalk.green("No changes between the loaded version and the cache."),
+    );
+    return;
+  }
+
+  console.log(output);
+  console.log();
+  console.log(
+    chalk.gray(
+      `Run ${chalk.cyan("grf update --sync-only")} to apply these changes to the workspace.`,
+    ),
+  );
+}
@@ -0,0 +1,99 @@
+/**
+ * diff 命令辅助函数
+ */
+
+import { getGitBackend } from "../../core/git-backend.js";
+import * as repository from "../../core/repository.js";
+import { getSubdirMappings } from "../../core/subdir.js";
+import { getMissingRepoMessage, resolveLoadedCommit } from "../../core/sync.js";
+import { ErrorCode, GrfError, type LoadingEntry } from "../../types/index.js";
+import type { DiffFormat } from "../../core/git.js";
+import type { DiffOptions, EntryDiff } from "./types.js";
+
+/**
+ * 根据命令选项确定输出格式
+ * @param options diff 命令选项
+ * @returns 输出格式
+ */
+export function getDiffFormat(options: DiffOptions): DiffFormat {
+  if (options.stat) {
+    return "stat";
+  }
+  if (options.nameOnly) {
+    return "name-only";
+  }
+  return "patch";
+}
+
+/**
+ * 获取条目在仓库中对应的路径
+ * 子目录为仓库根目录时返回空数组，表示比较整个仓库
+ * @param entry 加载条目
+ * @returns 相对于仓库根目录的路径列表
+ */
+export function getEntryPaths(entry: LoadingEntry): string[] {
+  const sources = getSubdirMappings(entry).map((mapping) => mapping.source);
+  return sources.includes("") ? [] : sources;
+}
+
+/**
+ * 比较条目加载时的 commit 与其检出目录当前的 HEAD
+ * 加载时的 commit 优先使用项目锁文件 grf.lock 中锁定的 commit，与 sync 一致
+ * @param entry 加载条目
+ * @param format 输出格式
+ * @param color 是否输出颜色
+ * @param projectRoot 项目根目录（条目未记录工作目录时使用）
+ * @returns 差异信息
+ * @throws GrfError 如果缓存仓库不存在或无法确定加载时的 commit
+ */
+export async function getEntryDiff(
+  entry: LoadingEntry,
+  format: DiffFormat,
+  color: boolean,
+  projectRoot: string = process.cwd(),
+): Promise<EntryDiff> {
+  const repoInfo = entry.unresolved
+    ? null
+    : await repository.get(entry.repoName);
+  if (!repoInfo) {
+    throw new GrfError(ErrorCode.REPO_NOT_FOUND, getMissingRepoMessage(entry));
+  }
+
+  // 迁移或未记录 commit 的条目无法确定比较的起点
+  const loadedCommit = await resolveLoadedCommit(
+    entry,
+    entry.workingDirectory || projectRoot,
+  );
+  if (!loadedCommit) {
+    throw new GrfError(
+      ErrorCode.INVALID_ARGUMENT,
+      `无法确定加载时的 commit，无法比较差异（同步后重试）: ${entry.targetPath}`,
+    );
+  }
+
+  // 与条目同步时使用的检出目录（加载时的分支或标签/commit）比较
+  const checkout = await repository.resolveCheckout(repoInfo, {
+    branch: entry.branch,
+    ref: entry.ref,
+  });
+  const headCommit = await getGitBackend().getCurrentCommit(checkout.path);
+  const paths = getEntryPaths(entry);
+
+  // 加载时的 commit 可能已不在缓存中（如浅克隆），按需获取
+  if (!(await getGitBackend().hasCommit(checkout.path, loadedCommit))) {
+    await getGitBackend().fetchCommit(checkout.path, loadedCommit);
+  }
+
+  const output = await getGitBackend().diff(
+    checkout.path,
+    loadedCommit,
+    headCommit,
+    {
+      format,
+      paths,
+      color,
+    },
+  );
+
+  return { entry, loadedCommit, headCommit, paths, format, output };
+}
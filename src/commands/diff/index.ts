@@ -0,0 +1,66 @@
+/**
+ * diff 命令
+ * 显示已加载的参考代码与缓存仓库最新版本之间的差异
+ */
+
+import { Command } from "commander";
+import chalk from "chalk";
+import * as loading from "../../core/loading.js";
+import { handleError } from "../../utils/error.js";
+import { statOption, nameOnlyOption } from "../options/index.js";
+import { matchEntries } from "../unload/helpers.js";
+import { selectEntry } from "../unload/display.js";
+import { DiffOptions } from "./types.js";
+import { getDiffFormat, getEntryDiff } from "./helpers.js";
+import { displayDiff, displayNoMatch } from "./display.js";
+
+/**
+ * 注册 diff 命令
+ * @param program Commander 程序实例
+ */
+export function registerDiffCommand(program: Command): void {
+  program.addCommand(diffCommand);
+}
+
+export const diffCommand = new Command("diff")
+  .description(
+    "Show changes between the loaded version and the latest cached version",
+  )
+  .argument("<name>", "Repository name or target path")
+  .addOption(statOption)
+  .addOption(nameOnlyOption)
+  .action(async (name: string, options: DiffOptions) => {
+    try {
+      const entries = await loading.getEntries();
+      const matches = matchEntries(entries, name);
+
+      if (matches.length === 0) {
+        displayNoMatch(name);
+        process.exit(1);
+      }
+
+      let entry = matches[0];
+      if (matches.length > 1) {
+        const selected = await selectEntry(
+          matches,
+          name,
+          "Select reference code to diff:",
+        );
+        if (!selected) {
+          console.log(chalk.yellow("Operation cancelled."));
+          return;
+        }
+        entry = selected;
+        console.log();
+      }
+
+      const result = await getEntryDiff(
+        entry,
+        getDiffFormat(options),
+        chalk.level > 0,
+      );
+      displayDiff(result);
+    } catch (error) {
+      handleError(error, { exit: true });
+    }
+  });
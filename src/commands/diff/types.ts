@@ -0,0 +1,34 @@
+/**
+ * diff 命令类型定义
+ */
+
+import type { LoadingEntry } from "../../types/index.js";
+import type { DiffFormat } from "../../core/git.js";
+
+/**
+ * diff 命令选项
+ */
+export interface DiffOptions {
+  /** 仅显示变更统计 */
+  stat?: boolean;
+  /** 仅显示变更的文件名 */
+  nameOnly?: boolean;
+}
+
+/**
+ * 加载版本与缓存最新版本之间的差异
+ */
+export interface EntryDiff {
+  /** 加载条目 */
+  entry: LoadingEntry;
+  /** 加载时的 commit（优先取自 grf.lock） */
+  loadedCommit: string;
+  /** 缓存仓库当前的 commit */
+  headCommit: string;
+  /** 比较的路径（相对于仓库根目录，空数组表示整个仓库） */
+  paths: string[];
+  /** 输出格式 */
+  format: DiffFormat;
+  /** git diff 输出 */
+  output: string;
+}
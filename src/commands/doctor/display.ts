@@ -0,0 +1,124 @@
+/**
+ * doctor 命令显示函数
+ */
+
+import path from "path";
+import chalk from "chalk";
+import type { DoctorIssue, DoctorIssueKind } from "../../core/doctor.js";
+import type { DoctorFixResult } from "./types.js";
+
+/** 各类问题的标题（按显示顺序） */
+const ISSUE_TITLES: Record<DoctorIssueKind, string> = {
+  "orphaned-dir": "Orphaned cache directories",
+  "missing-dir": "Indexed repositories without a directory",
+  "missing-meta": "Repositories without a metadata file",
+  "corrupt-meta": "Repositories with a corrupt metadata file",
+  "stale-loading": "Loading entries whose project or target is gone",
+  "unresolved-loading": "Loading entries whose source repository is unknown",
+  "missing-gitignore": "Missing .gitignore entries",
+};
+
+/** 各类问题的修复方式 */
+const FIX_ACTIONS: Record<DoctorIssueKind, string> = {
+  "orphaned-dir": "remove the directory",
+  "missing-dir": "drop it from the index",
+  "missing-meta": "rebuild it from the checkout",
+  "corrupt-meta": "rebuild it from the checkout",
+  "stale-loading": "drop the loading entry",
+  "unresolved-loading": "drop the loading entry",
+  "missing-gitignore": "add the entry",
+};
+
+/**
+ * 获取问题的描述
+ * @param issue 一致性问题
+ * @returns 描述文本
+ */
+export function describeIssue(issue: DoctorIssue): string {
+  switch (issue.kind) {
+    case "orphaned-dir":
+      return issue.path;
+    case "missing-dir":
+      return `${issue.repoName} (${issue.path})`;
+    case "missing-meta":
+    case "corrupt-meta":
+      return `${issue.repoName} (${issue.repo.path})`;
+    case "stale-loading": {
+      const { entry } = issue;
+      const target = path.resolve(
+        entry.workingDirectory ?? "",
+        entry.targetPath,
+      );
+      return `${target} from ${entry.repoName} (${issue.missing} no longer exists)`;
+    }
+    case "unresolved-loading": {
+      const { entry } = issue;
+      const target = entry.workingDirectory
+        ? path.resolve(entry.workingDirectory, entry.targetPath)
+        : entry.targetPath;
+      return `${target} (migrated from an older version, load it again)`;
+    }
+    case "missing-gitignore":
+      return `${issue.line} in ${path.join(issue.project, ".gitignore")}`;
+  }
+}
+
+/**
+ * 显示未发现问题
+ */
+export function displayNoIssues(): void {
+  console.log(chalk.green("No problems found."));
+}
+
+/**
+ * 按类别显示发现的问题
+ * @param issues 一致性问题
+ * @param fix 是否将要修复（修复时不显示 --fix 提示）
+ */
+export function displayIssues(issues: DoctorIssue[], fix: boolean): void {
+  console.log(
+    chalk.bold(
+      `Found ${issues.length} ${issues.length === 1 ? "problem" : "problems"}:`,
+    ),
+  );
+
+  for (const kind of Object.keys(ISSUE_TITLES) as DoctorIssueKind[]) {
+    const group = issues.filter((issue) => issue.kind === kind);
+    if (group.length === 0) {
+      continue;
+    }
+    console.log();
+    console.log(
+      `${ISSUE_TITLES[kind]} (${group.length}) ` +
+        chalk.gray(`- fix: ${FIX_ACTIONS[kind]}`),
+    );
+    for (const issue of group) {
+      console.log(chalk.yellow(`  - ${describeIssue(issue)}`));
+    }
+  }
+
+  if (!fix) {
+    console.log();
+    console.log(chalk.gray("Run 'grf doctor --fix' to repair them."));
+  }
+}
+
+/**
+ * 显示修复结果
+ * @param result 修复结果
+ * @param total 问题总数
+ */
+export function displayFixResult(result: DoctorFixResult, total: number): void {
+  if (result.errors.length === 0) {
+    console.log(`Fixed ${total} ${total === 1 ? "problem" : "problems"}.`);
+    return;
+  }
+
+  console.log(
+    chalk.yellow(`Fixed ${result.fixed.length} of ${total} problems.`),
+  );
+  console.log(chalk.yellow("Failed to fix:"));
+  for (const err of result.errors) {
+    console.log(chalk.yellow(`  - ${err}`));
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * doctor 命令辅助函数
+ */
+
+import { fixIssue, type DoctorIssue } from "../../core/doctor.js";
+import { getErrorMessage } from "../../utils/error.js";
+import { describeIssue } from "./display.js";
+import type { DoctorFixResult } from "./types.js";
+
+/**
+ * 逐个修复一致性问题
+ * 单个问题修复失败不影响其余问题
+ * @param issues 一致性问题
+ * @returns 修复结果
+ */
+export async function fixIssues(
+  issues: DoctorIssue[],
+): Promise<DoctorFixResult> {
+  const result: DoctorFixResult = { fixed: [], errors: [] };
+
+  for (const issue of issues) {
+    try {
+      await fixIssue(issue);
+      result.fixed.push(issue);
+    } catch (error) {
+      result.errors.push(`${describeIssue(issue)}: ${getErrorMessage(error)}`);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,57 @@
+/**
+ * doctor 命令
+ * 检查缓存、仓库索引、加载记录与项目 .gitignore 之间的一致性，并可修复发现的问题
+ */
+
+import { Command } from "commander";
+import chalk from "chalk";
+import { diagnose } from "../../core/doctor.js";
+import { startSpinner } from "../../ui/spinner.js";
+import { handleError } from "../../utils/error.js";
+import { fixOption } from "../options/index.js";
+import { DoctorOptions } from "./types.js";
+import { fixIssues } from "./helpers.js";
+import { displayFixResult, displayIssues, displayNoIssues } from "./display.js";
+
+/**
+ * 注册 doctor 命令
+ * @param program Commander 程序实例
+ */
+export function registerDoctorCommand(program: Command): void {
+  program.addCommand(doctorCommand);
+}
+
+export const doctorCommand = new Command("doctor")
+  .description(
+    "Check the cache, repository index and loading records for inconsistencies",
+  )
+  .addOption(fixOption)
+  .action(async (options: DoctorOptions) => {
+    try {
+      const spinner = startSpinner("Checking cache...");
+      const issues = await diagnose();
+      spinner.stop();
+
+      if (issues.length === 0) {
+        displayNoIssues();
+        return;
+      }
+
+      displayIssues(issues, !!options.fix);
+      if (!options.fix) {
+        return;
+      }
+
+      console.log();
+      const fixSpinner = startSpinner("Repairing...");
+      const result = await fixIssues(issues);
+      if (result.errors.length > 0) {
+        fixSpinner.warn(chalk.yellow("Repair finished with errors"));
+      } else {
+        fixSpinner.succeed(chalk.green("Repair complete"));
+      }
+      displayFixResult(result, issues.length);
+    } catch (error) {
+      handleError(error, { exit: true });
+    }
+  });
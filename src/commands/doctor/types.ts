@@ -0,0 +1,23 @@
+/**
+ * doctor 命令类型定义
+ */
+
+import type { DoctorIssue } from "../../core/doctor.js";
+
+/**
+ * doctor 命令选项
+ */
+export interface DoctorOptions {
+  /** 是否修复发现的问题 */
+  fix?: boolean;
+}
+
+/**
+ * 修复结果
+ */
+export interface DoctorFixResult {
+  /** 已修复的问题 */
+  fixed: DoctorIssue[];
+  /** 修复失败的错误信息 */
+  errors: string[];
+}
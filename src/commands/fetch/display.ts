@@ -0,0 +1,35 @@
+/**
+ * fetch 命令显示函数
+ */
+
+import chalk from "chalk";
+import { formatBytes } from "../../ui/format.js";
+import type { FetchResult } from "./types.js";
+
+/**
+ * 格式化历史深度
+ * @param depth 深度（完整历史时为空）
+ * @returns 显示文本
+ */
+function formatDepth(depth?: number): string {
+  if (depth === undefined) {
+    return "full history";
+  }
+  return depth === 1 ? "1 commit" : `${depth} commits`;
+}
+
+/**
+ * 显示历史深度调整结果
+ * @param result 调整结果
+ */
+export function displayFetchResult(result: FetchResult): void {
+  const { repoInfo, oldDepth, oldSize, newSize } = result;
+  console.log();
+  console.log(`  ${chalk.gray("Name:")}       ${repoInfo.name}`);
+  console.log(
+    `  ${chalk.gray("Depth:")}      ${formatDepth(oldDepth)} → ${formatDepth(repoInfo.depth)}`,
+  );
+  console.log(
+    `  ${chalk.gray("Disk usage:")} ${formatBytes(oldSize)} → ${formatBytes(newSize)}`,
+  );
+}
@@ -0,0 +1,101 @@
+/**
+ * fetch 命令辅助函数
+ */
+
+import * as repository from "../../core/repository.js";
+import { getDirSize } from "../../core/filesystem.js";
+import type { GitProgressHandler } from "../../core/git.js";
+import type { HistoryDepthChange } from "../../core/repository.js";
+import { ErrorCode, GrfError } from "../../types/index.js";
+import type { FetchOptions, FetchResult } from "./types.js";
+
+/**
+ * 解析正整数参数
+ * @param option 选项名称（用于错误信息）
+ * @param value 参数值
+ * @returns 正整数
+ * @throws GrfError 如果不是正整数
+ */
+function parseCount(option: string, value: string): number {
+  const num = Number(value);
+  if (!Number.isInteger(num) || num < 1) {
+    throw new GrfError(
+      ErrorCode.INVALID_ARGUMENT,
+      `Invalid value for ${option}: expected a positive number`,
+    );
+  }
+  return num;
+}
+
+/**
+ * 将命令选项解析为历史深度调整方式
+ * @param options 命令选项
+ * @returns 调整方式
+ * @throws GrfError 如果未指定或同时指定了多个调整方式
+ */
+export function parseDepthChange(options: FetchOptions): HistoryDepthChange {
+  const given = [
+    options.deepen !== undefined,
+    options.unshallow === true,
+    options.shallow !== undefined,
+  ].filter(Boolean).length;
+
+  if (given !== 1) {
+    throw new GrfError(
+      ErrorCode.INVALID_ARGUMENT,
+      "Specify exactly one of --deepen <n>, --unshallow or --shallow <n>",
+    );
+  }
+
+  if (options.deepen !== undefined) {
+    return { deepen: parseCount("--deepen", options.deepen) };
+  }
+  if (options.shallow !== undefined) {
+    return { shallow: parseCount("--shallow", options.shallow) };
+  }
+  return { unshallow: true };
+}
+
+/**
+ * 调整缓存仓库的历史深度，并统计调整前后 Git 数据占用的空间
+ * @param repoInfo 仓库信息
+ * @param change 调整方式
+ * @param onProgress 获取进度回调
+ * @returns 调整结果
+ */
+export async function changeHistoryDepth(
+  repoInfo: repository.RepoInfo,
+  change: HistoryDepthChange,
+  onProgress?: GitProgressHandler,
+): Promise<FetchResult> {
+  const gitDir = await repository.getRepoGitDir(repoInfo);
+  const oldSize = await getDirSize(gitDir);
+  const oldDepth = await repository.getHistoryDepth(repoInfo);
+
+  const updated = await repository.setHistoryDepth(repoInfo.name, {
+    ...change,
+    onProgress,
+  });
+
+  return {
+    repoInfo: updated,
+    oldDepth,
+    oldSize,
+    newSize: await getDirSize(gitDir),
+  };
+}
+
+/**
+ * 获取调整过程中 spinner 显示的文本
+ * @param change 调整方式
+ * @returns spinner 文本
+ */
+export function getSpinnerText(change: HistoryDepthChange): string {
+  if (change.deepen !== undefined) {
+    return `Fetching ${change.deepen} more commits...`;
+  }
+  if (change.shallow !== undefined) {
+    return `Truncating history to ${change.shallow} commits...`;
+  }
+  return "Fetching complete history...";
+}
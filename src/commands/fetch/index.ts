@@ -0,0 +1,67 @@
+/**
+ * fetch 命令
+ * 调整缓存仓库的历史深度（加深、获取完整历史或重新截断）
+ */
+
+import { Command } from "commander";
+import chalk from "chalk";
+import * as repository from "../../core/repository.js";
+import { createProgressHandler, startSpinner } from "../../ui/spinner.js";
+import { handleError } from "../../utils/error.js";
+import {
+  deepenOption,
+  unshallowOption,
+  shallowDepthOption,
+} from "../options/index.js";
+import { FetchOptions } from "./types.js";
+import {
+  changeHistoryDepth,
+  getSpinnerText,
+  parseDepthChange,
+} from "./helpers.js";
+import { displayFetchResult } from "./display.js";
+
+/**
+ * 注册 fetch 命令
+ * @param program Commander 程序实例
+ */
+export function registerFetchCommand(program: Command): void {
+  program.addCommand(fetchCommand);
+}
+
+export const fetchCommand = new Command("fetch")
+  .description("Change the history depth of a cached repository")
+  .argument("<name>", "Repository name")
+  .addOption(deepenOption)
+  .addOption(unshallowOption)
+  .addOption(shallowDepthOption)
+  .action(async (name: string, options: FetchOptions) => {
+    try {
+      const change = parseDepthChange(options);
+
+      const repoInfo = await repository.get(name);
+      if (!repoInfo) {
+        console.error(
+          chalk.red(`${chalk.bold("✗")} Repository not found: ${name}`),
+        );
+        process.exit(1);
+      }
+
+      const text = getSpinnerText(change);
+      const spinner = startSpinner(text);
+      try {
+        const result = await changeHistoryDepth(
+          repoInfo,
+          change,
+          createProgressHandler(spinner, text),
+        );
+        spinner.succeed(chalk.green("History depth updated"));
+        displayFetchResult(result);
+      } catch (error) {
+        spinner.fail(chalk.red("Failed to change history depth"));
+        throw error;
+      }
+    } catch (error) {
+      handleError(error, { exit: true });
+    }
+  });
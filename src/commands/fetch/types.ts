@@ -0,0 +1,31 @@
+/**
+ * fetch 命令类型定义
+ */
+
+import type { RepoInfo } from "../../core/repository.js";
+
+/**
+ * fetch 命令选项
+ */
+export interface FetchOptions {
+  /** 加深的 commit 数量 */
+  deepen?: string;
+  /** 是否获取完整历史 */
+  unshallow?: boolean;
+  /** 截断后保留的 commit 数量 */
+  shallow?: string;
+}
+
+/**
+ * 历史深度调整结果
+ */
+export interface FetchResult {
+  /** 调整后的仓库信息 */
+  repoInfo: RepoInfo;
+  /** 调整前的深度（完整历史时为空） */
+  oldDepth?: number;
+  /** 调整前 Git 数据占用的空间（字节） */
+  oldSize: number;
+  /** 调整后 Git 数据占用的空间（字节） */
+  newSize: number;
+}
@@ -0,0 +1,144 @@
+/**
+ * gc 命令显示函数
+ */
+
+import chalk from "chalk";
+import type { RepoUsage } from "../../core/cache.js";
+import {
+  getLastUsedAt,
+  type Eviction,
+  type GcPlan,
+  type GcPolicy,
+} from "../../core/gc.js";
+import { formatBytes, formatDate } from "../../ui/format.js";
+import { padEnd } from "../../ui/table.js";
+import { TABLE_COLUMNS } from "../../utils/constants.js";
+import { displayPartialRemoveResult } from "../clean/display.js";
+import type { GcResult } from "./types.js";
+
+/**
+ * 获取淘汰原因的显示文本
+ * @param eviction 待淘汰的仓库
+ * @returns 显示文本
+ */
+function getReasonText(eviction: Eviction): string {
+  switch (eviction.reason) {
+    case "unused":
+      return "not loaded by any project";
+    case "older-than":
+      return `last used ${formatDate(new Date(getLastUsedAt(eviction.usage)), "relative")}`;
+    case "max-size":
+      return "over the size limit";
+  }
+}
+
+/**
+ * 显示待淘汰的仓库列表
+ * @param evictions 待淘汰的仓库
+ */
+function displayEvictions(evictions: Eviction[]): void {
+  for (const eviction of evictions) {
+    console.log(
+      `  - ${padEnd(eviction.usage.repo.name, TABLE_COLUMNS.NAME)}` +
+        `${padEnd(formatBytes(eviction.usage.size), 12)}` +
+        chalk.gray(getReasonText(eviction)),
+    );
+  }
+}
+
+/**
+ * 计算仓库占用的空间之和
+ * @param usage 仓库的使用情况
+ * @returns 字节数
+ */
+function sumSize(usage: RepoUsage[]): number {
+  return usage.reduce((total, item) => total + item.size, 0);
+}
+
+/**
+ * 显示因仍被项目加载而不会被淘汰的仓库数量
+ * @param plan 回收计划
+ * @param policy 回收策略
+ */
+function displayLoadedKept(plan: GcPlan, policy: GcPolicy): void {
+  if (policy.includeLoaded) {
+    return;
+  }
+  const loaded = plan.keep.filter((item) => item.entryCount > 0).length;
+  if (loaded > 0) {
+    console.log(
+      chalk.gray(
+        `${loaded} ${loaded === 1 ? "repository is" : "repositories are"} still loaded by projects and will not be evicted. Use --include-loaded to evict them too.`,
+      ),
+    );
+  }
+}
+
+/**
+ * 在 dry-run 模式下显示回收计划
+ * @param plan 回收计划
+ * @param policy 回收策略
+ */
+export function displayGcPlan(plan: GcPlan, policy: GcPolicy): void {
+  if (plan.evict.length === 0) {
+    console.log(chalk.green("No repositories to evict."));
+  } else {
+    console.log(
+      chalk.bold(
+        `[Dry Run] Will remove ${plan.evict.length} cached ${plan.evict.length === 1 ? "repository" : "repositories"}:`,
+      ),
+    );
+    displayEvictions(plan.evict);
+    console.log();
+    console.log(
+      `Would free ${formatBytes(sumSize(plan.evict.map((e) => e.usage)))}, keeping ${formatBytes(sumSize(plan.keep))} in ${plan.keep.length} ${plan.keep.length === 1 ? "repository" : "repositories"}.`,
+    );
+  }
+  displayLoadedKept(plan, policy);
+  console.log(
+    chalk.gray(
+      "\nThis is dry-run mode, no actual operations performed. Remove --dry-run option to execute.",
+    ),
+  );
+}
+
+/**
+ * 显示回收结果
+ * @param result 回收结果
+ * @param policy 回收策略
+ */
+export function displayGcResult(result: GcResult, policy: GcPolicy): void {
+  const { plan, removed, errors, compactErrors, compacted } = result;
+
+  if (removed.length > 0) {
+    console.log(
+      `Removed ${removed.length} cached ${removed.length === 1 ? "repository" : "repositories"}:`,
+    );
+    displayEvictions(removed);
+    console.log();
+  } else {
+    console.log(chalk.green("No repositories to evict."));
+  }
+
+  if (errors.length > 0) {
+    displayPartialRemoveResult(removed.length, plan.evict.length, errors);
+    console.log();
+  }
+
+  if (compactErrors.length > 0) {
+    console.log(chalk.yellow("Some repositories could not be compacted:"));
+    for (const err of compactErrors) {
+      console.log(chalk.yellow(`  - ${err}`));
+    }
+    console.log();
+  }
+
+  const freed = sumSize(removed.map((e) => e.usage)) + compacted;
+  console.log(
+    `Freed ${formatBytes(freed)}` +
+      (plan.keep.length > 0
+        ? ` (${formatBytes(compacted)} by compacting ${plan.keep.length} remaining ${plan.keep.length === 1 ? "repository" : "repositories"}).`
+        : "."),
+  );
+  displayLoadedKept(plan, policy);
+}
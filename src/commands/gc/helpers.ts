@@ -0,0 +1,118 @@
+/**
+ * gc 命令辅助函数
+ */
+
+import {
+  compactRepository,
+  parseDuration,
+  parseSize,
+  type Eviction,
+  type GcPlan,
+  type GcPolicy,
+} from "../../core/gc.js";
+import { ErrorCode, GrfError, type GlobalConfig } from "../../types/index.js";
+import { removeSingleRepo } from "../clean/helpers.js";
+import type { GcOptions, GcResult } from "./types.js";
+
+/**
+ * 解析空间上限
+ * @param source 参数来源（用于错误信息）
+ * @param value 空间大小文本
+ * @returns 字节数
+ * @throws GrfError 如果格式无效
+ */
+function parseMaxSize(source: string, value: string): number {
+  const size = parseSize(value);
+  if (size === null) {
+    throw new GrfError(
+      ErrorCode.INVALID_ARGUMENT,
+      `Invalid value for ${source}: expected a size such as 500M or 5G`,
+    );
+  }
+  return size;
+}
+
+/**
+ * 解析闲置时长
+ * @param source 参数来源（用于错误信息）
+ * @param value 时长文本
+ * @returns 毫秒数
+ * @throws GrfError 如果格式无效
+ */
+function parseOlderThan(source: string, value: string): number {
+  const duration = parseDuration(value);
+  if (duration === null) {
+    throw new GrfError(
+      ErrorCode.INVALID_ARGUMENT,
+      `Invalid value for ${source}: expected a duration such as 12h, 30d or 2w`,
+    );
+  }
+  return duration;
+}
+
+/**
+ * 由命令选项和全局配置确定回收策略
+ * 命令行指定的策略优先，未指定的使用 gcMaxSize、gcOlderThan、gcUnused 配置
+ * @param options 命令选项
+ * @param config 全局配置
+ * @returns 回收策略
+ * @throws GrfError 如果空间大小或时长格式无效
+ */
+export function resolveGcPolicy(
+  options: GcOptions,
+  config: GlobalConfig,
+): GcPolicy {
+  const policy: GcPolicy = {
+    unused: options.unused ?? config.gcUnused,
+    includeLoaded: options.includeLoaded,
+  };
+
+  if (options.maxSize !== undefined) {
+    policy.maxSize = parseMaxSize("--max-size", options.maxSize);
+  } else if (config.gcMaxSize !== undefined) {
+    policy.maxSize = parseMaxSize("gcMaxSize", config.gcMaxSize);
+  }
+
+  if (options.olderThan !== undefined) {
+    policy.olderThan = parseOlderThan("--older-than", options.olderThan);
+  } else if (config.gcOlderThan !== undefined) {
+    policy.olderThan = parseOlderThan("gcOlderThan", config.gcOlderThan);
+  }
+
+  return policy;
+}
+
+/**
+ * 执行回收计划：删除需要淘汰的仓库，并清理保留的仓库
+ * @param plan 回收计划
+ * @returns 回收结果
+ */
+export async function runGc(plan: GcPlan): Promise<GcResult> {
+  const removed: Eviction[] = [];
+  const errors: string[] = [];
+
+  for (const eviction of plan.evict) {
+    try {
+      await removeSingleRepo(eviction.usage.repo.name);
+      removed.push(eviction);
+    } catch (error) {
+      if (error instanceof Error) {
+        errors.push(`${eviction.usage.repo.name}: ${error.message}`);
+      }
+    }
+  }
+
+  let compacted = 0;
+  const compactErrors: string[] = [];
+  for (const usage of plan.keep) {
+    try {
+      compacted += await compactRepository(usage.repo);
+    } catch (error) {
+      if (error instanceof Error) {
+        compactErrors.push(`${usage.repo.name}: ${error.message}`);
+      }
+    }
+  }
+
+  return { plan, removed, errors, compactErrors, compacted };
+}
@@ -0,0 +1,74 @@
+/**
+ * gc 命令
+ * 按空间上限、闲置时间和使用情况淘汰缓存仓库，并清理保留的仓库
+ */
+
+import { Command } from "commander";
+import chalk from "chalk";
+import { getCacheUsage } from "../../core/cache.js";
+import { readGlobalConfig } from "../../core/config.js";
+import { planGc } from "../../core/gc.js";
+import { startSpinner } from "../../ui/spinner.js";
+import { handleError } from "../../utils/error.js";
+import {
+  dryRunOption,
+  includeLoadedOption,
+  maxSizeOption,
+  olderThanOption,
+  unusedOption,
+} from "../options/index.js";
+import { displayNoRepos } from "../clean/display.js";
+import { GcOptions } from "./types.js";
+import { resolveGcPolicy, runGc } from "./helpers.js";
+import { displayGcPlan, displayGcResult } from "./display.js";
+
+/**
+ * 注册 gc 命令
+ * @param program Commander 程序实例
+ */
+export function registerGcCommand(program: Command): void {
+  program.addCommand(gcCommand);
+}
+
+export const gcCommand = new Command("gc")
+  .description(
+    "Evict least recently used cached repositories and compact the rest",
+  )
+  .addOption(maxSizeOption)
+  .addOption(olderThanOption)
+  .addOption(unusedOption)
+  .addOption(includeLoadedOption)
+  .addOption(dryRunOption)
+  .action(async (options: GcOptions) => {
+    try {
+      const policy = resolveGcPolicy(options, await readGlobalConfig());
+
+      const spinner = startSpinner("Measuring cache...");
+      const usage = await getCacheUsage();
+      spinner.stop();
+
+      if (usage.length === 0) {
+        displayNoRepos();
+        return;
+      }
+
+      const plan = planGc(usage, policy);
+
+      if (options.dryRun) {
+        displayGcPlan(plan, policy);
+        return;
+      }
+
+      const gcSpinner = startSpinner("Collecting garbage...");
+      const result = await runGc(plan);
+      if (result.errors.length > 0 || result.compactErrors.length > 0) {
+        gcSpinner.warn(chalk.yellow("Garbage collection finished with errors"));
+      } else {
+        gcSpinner.succeed(chalk.green("Garbage collection complete"));
+      }
+      console.log();
+      displayGcResult(result, policy);
+    } catch (error) {
+      handleError(error, { exit: true });
+    }
+  });
@@ -0,0 +1,37 @@
+/**
+ * gc 命令类型定义
+ */
+
+import type { Eviction, GcPlan } from "../../core/gc.js";
+
+/**
+ * gc 命令选项
+ */
+export interface GcOptions {
+  /** 缓存总空间上限（如 5G） */
+  maxSize?: string;
+  /** 闲置时长（如 30d） */
+  olderThan?: string;
+  /** 是否淘汰没有被任何项目加载的仓库 */
+  unused?: boolean;
+  /** 是否允许淘汰仍被项目加载的仓库 */
+  includeLoaded?: boolean;
+  /** 仅显示将要淘汰的仓库 */
+  dryRun?: boolean;
+}
+
+/**
+ * 回收结果
+ */
+export interface GcResult {
+  /** 回收计划 */
+  plan: GcPlan;
+  /** 成功删除的仓库 */
+  removed: Eviction[];
+  /** 删除失败的错误信息 */
+  errors: string[];
+  /** 清理失败的错误信息（不影响仓库的使用） */
+  compactErrors: string[];
+  /** 清理保留仓库释放的空间（字节） */
+  compacted: number;
+}
@@ -7,10 +7,17 @@ import { Command } from "commander";
 
 // 导入所有命令模块的注册函数
 import { registerAddCommand } from "./add/index.js";
+import { registerCacheCommand } from "./cache/index.js";
 import { registerCleanCommand } from "./clean/index.js";
 import { registerConfigCommand } from "./config/index.js";
+import { registerDiffCommand } from "./diff/index.js";
+import { registerDoctorCommand } from "./doctor/index.js";
+import { registerFetchCommand } from "./fetch/index.js";
+import { registerGcCommand } from "./gc/index.js";
+import { registerInstallCommand } from "./install/index.js";
 import { registerListCommand } from "./list/index.js";
 import { registerLoadCommand } from "./load/index.js";
+import { registerStatusCommand } from "./status/index.js";
 import { registerUnloadCommand } from "./unload/index.js";
 import { registerUpdateCommand } from "./update/index.js";
 
@@ -25,10 +32,17 @@ export type CommandRegister = (program: Command) => void;
  */
 export const commands: CommandRegister[] = [
   registerAddCommand,
+  registerCacheCommand,
   registerCleanCommand,
   registerConfigCommand,
+  registerDiffCommand,
+  registerDoctorCommand,
+  registerFetchCommand,
+  registerGcCommand,
+  registerInstallCommand,
   registerListCommand,
   registerLoadCommand,
+  registerStatusCommand,
   registerUnloadCommand,
   registerUpdateCommand,
 ];
@@ -43,9 +57,16 @@ export function registerAllCommands(program: Command): void {
 
 // 单独导出各命令的注册函数，方便按需使用
 export { registerAddCommand } from "./add/index.js";
+export { registerCacheCommand } from "./cache/index.js";
 export { registerCleanCommand } from "./clean/index.js";
 export { registerConfigCommand } from "./config/index.js";
+export { registerDiffCommand } from "./diff/index.js";
+export { registerDoctorCommand } from "./doctor/index.js";
+export { registerFetchCommand } from "./fetch/index.js";
+export { registerGcCommand } from "./gc/index.js";
+export { registerInstallCommand } from "./install/index.js";
 export { registerListCommand } from "./list/index.js";
 export { registerLoadCommand } from "./load/index.js";
+export { registerStatusCommand } from "./status/index.js";
 export { registerUnloadCommand } from "./unload/index.js";
 export { registerUpdateCommand } from "./update/index.js";
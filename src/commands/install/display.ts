@@ -0,0 +1,116 @@
+/**
+ * install 命令显示/格式化逻辑
+ */
+
+import chalk from "chalk";
+import { shortCommit } from "../../ui/format.js";
+import type { ManifestEntry } from "../../types/index.js";
+import type { InstallResult, InstallStatus } from "./types.js";
+
+/**
+ * 获取安装状态图标
+ * @param status 安装状态
+ * @returns 状态图标
+ */
+export function getInstallIcon(status: InstallStatus): string {
+  switch (status) {
+    case "installed":
+      return chalk.green("✓");
+    case "skipped":
+      return chalk.gray("-");
+    case "failed":
+      return chalk.red("✗");
+  }
+}
+
+/**
+ * 获取安装结果文本
+ * @param result 安装结果
+ * @returns 结果文本
+ */
+export function getInstallText(result: InstallResult): string {
+  const label = `${result.entry.target} ${chalk.gray(`(${result.entry.name})`)}`;
+  switch (result.status) {
+    case "installed":
+      return `${label}  ${chalk.green(`installed at ${shortCommit(result.commitId ?? "")}`)}`;
+    case "skipped":
+      return `${label}  ${chalk.gray("already loaded")}`;
+    case "failed":
+      return `${label}  ${chalk.red(`error: ${result.error}`)}`;
+  }
+}
+
+/**
+ * 显示清单不存在的错误
+ */
+export function displayNoManifest(): void {
+  console.error(
+    chalk.red(`${chalk.bold("✗")} No grf.json found in current directory.`),
+  );
+  console.log();
+  console.log(
+    `Use '${chalk.cyan("grf load <name>")}' to load reference code and create grf.json.`,
+  );
+}
+
+/**
+ * 显示锁文件不存在的错误（--frozen 模式）
+ */
+export function displayNoLock(): void {
+  console.error(
+    chalk.red(`${chalk.bold("✗")} No grf.lock found in current directory.`),
+  );
+  console.log();
+  console.log(
+    `Run '${chalk.cyan("grf install")}' without --frozen to create grf.lock.`,
+  );
+}
+
+/**
+ * 显示锁文件过期的错误（--frozen 模式）
+ * @param entries 锁文件未覆盖或已过期的清单条目
+ */
+export function displayLockOutOfDate(entries: ManifestEntry[]): void {
+  console.error(
+    chalk.red(
+      `${chalk.bold("✗")} grf.lock is out of date with grf.json for ${entries.length} reference(s):`,
+    ),
+  );
+  console.log();
+  for (const entry of entries) {
+    console.log(`  - ${entry.target} ${chalk.gray(`(${entry.name})`)}`);
+  }
+  console.log();
+  console.log(
+    `Run '${chalk.cyan("grf install")}' without --frozen to update grf.lock.`,
+  );
+}
+
+/**
+ * 显示空清单消息
+ */
+export function displayEmptyManifest(): void {
+  console.log(chalk.yellow("No references declared in grf.json."));
+}
+
+/**
+ * 显示安装汇总
+ * @param results 安装结果列表
+ */
+export function displayInstallSummary(results: InstallResult[]): void {
+  const installedCount = results.filter((r) => r.status === "installed").length;
+  const skippedCount = results.filter((r) => r.status === "skipped").length;
+  const failedCount = results.filter((r) => r.status === "failed").length;
+
+  console.log();
+  console.log(
+    `Install complete: ${installedCount} installed, ${skippedCount} already loaded` +
+      (failedCount > 0 ? chalk.red(`, ${failedCount} failed`) : ""),
+  );
+
+  if (skippedCount > 0 && installedCount === 0 && failedCount === 0) {
+    console.log(
+      chalk.gray("\nUse `grf install --force` to reinstall all references."),
+    );
+  }
+}
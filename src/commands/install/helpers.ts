@@ -0,0 +1,287 @@
+/**
+ * install 命令辅助函数
+ */
+
+import path from "path";
+import * as filesystem from "../../core/filesystem.js";
+import { isRepoLoaded } from "../../core/loading-state.js";
+import { withCommitCheckout } from "../../core/repository.js";
+import { normalizeTarget } from "../../core/manifest.js";
+import { isSameSubdirSelection, toSubdirSpecs } from "../../core/subdir.js";
+import {
+  ErrorCode,
+  GrfError,
+  type LockEntry,
+  type ManifestEntry,
+  type ProjectLock,
+  type ProjectManifest,
+} from "../../types/index.js";
+import {
+  parseGitUrlToFullName,
+  checkRepoExists,
+  addRepository,
+  enableRepoSubmodules,
+  getRepoInfo,
+  resolveRepoCheckout,
+  determineSourcePath,
+  pathExists,
+  findMissingSourceSubdir,
+  determineFinalTargetPath,
+  copyRepoFiles,
+  pullRepoLfs,
+  updateGitignoreEntries,
+  recordLoadingEntry,
+  recordLockEntry,
+} from "../load/helpers.js";
+import type { LoadContext } from "../load/types.js";
+import type { InstallOptions, InstallResult } from "./types.js";
+
+/**
+ * 确保清单条目对应的缓存仓库存在，不存在则自动添加
+ * @param entry 清单条目
+ * @returns 缓存中的仓库名称
+ */
+export async function ensureRepository(entry: ManifestEntry): Promise<string> {
+  // 优先使用清单中记录的名称（可能是自定义名称）
+  if (await checkRepoExists(entry.name)) {
+    return entry.name;
+  }
+
+  const fullName = parseGitUrlToFullName(entry.url);
+  if (await checkRepoExists(fullName)) {
+    return fullName;
+  }
+
+  const repoInfo = await addRepository(
+    entry.url,
+    entry.branch,
+    undefined,
+    undefined,
+    entry.recursive,
+  );
+  return repoInfo.name;
+}
+
+/**
+ * 比较两组文件模式是否一致（忽略顺序）
+ * @param a 文件模式列表
+ * @param b 文件模式列表
+ * @returns 是否一致
+ */
+function samePatterns(a?: string[], b?: string[]): boolean {
+  const left = [...(a ?? [])].sort();
+  const right = [...(b ?? [])].sort();
+  return (
+    left.length === right.length &&
+    left.every((pattern, index) => pattern === right[index])
+  );
+}
+
+/**
+ * 检查锁定条目是否仍与清单条目一致
+ * @param entry 清单条目
+ * @param lockEntry 锁定条目
+ * @returns 是否一致
+ */
+export function isLockEntryCurrent(
+  entry: ManifestEntry,
+  lockEntry: LockEntry | undefined,
+): lockEntry is LockEntry {
+  return (
+    lockEntry?.url === entry.url &&
+    isSameSubdirSelection(lockEntry, entry) &&
+    (lockEntry.ref ?? "") === (entry.ref ?? "") &&
+    samePatterns(lockEntry.include, entry.include) &&
+    samePatterns(lockEntry.exclude, entry.exclude) &&
+    (!entry.branch || lockEntry.branch === entry.branch)
+  );
+}
+
+/**
+ * 查找锁文件中的对应条目（仅当其与清单条目一致时返回）
+ * @param entry 清单条目
+ * @param lock 项目锁文件
+ * @returns 锁定条目或 undefined
+ */
+export function findLockEntry(
+  entry: ManifestEntry,
+  lock: ProjectLock | null,
+): LockEntry | undefined {
+  const lockEntry = lock?.references[normalizeTarget(entry.target)];
+  return isLockEntryCurrent(entry, lockEntry) ? lockEntry : undefined;
+}
+
+/**
+ * 查找锁文件未覆盖或已过期的清单条目
+ * @param manifest 项目清单
+ * @param lock 项目锁文件
+ * @returns 过期的清单条目列表
+ */
+export function findStaleEntries(
+  manifest: ProjectManifest,
+  lock: ProjectLock,
+): ManifestEntry[] {
+  return manifest.references.filter(
+    (entry) => findLockEntry(entry, lock) === undefined,
+  );
+}
+
+/**
+ * 检查清单条目是否已按锁文件加载到项目中
+ * 要求存在一致的锁定条目，且目标目录内容与锁定的哈希一致
+ * @param entry 清单条目
+ * @param projectRoot 项目根目录
+ * @param lockEntry 锁定条目
+ * @returns 是否已加载
+ */
+export async function isEntryInstalled(
+  entry: ManifestEntry,
+  projectRoot: string,
+  lockEntry: LockEntry | undefined,
+): Promise<boolean> {
+  const targetPath = path.resolve(projectRoot, entry.target);
+  if (
+    !lockEntry ||
+    !(await pathExists(targetPath)) ||
+    !(await isRepoLoaded(projectRoot, entry.target))
+  ) {
+    return false;
+  }
+
+  return (await filesystem.hashDirectory(targetPath)) === lockEntry.integrity;
+}
+
+/**
+ * 安装单个清单条目
+ * 流程与 grf load 相同，但不会回写 grf.json；
+ * 存在锁定条目时检出锁定的 commit 并校验内容哈希
+ * @param entry 清单条目
+ * @param projectRoot 项目根目录
+ * @param options 命令选项
+ * @param lockEntry 锁定条目
+ * @returns 安装结果
+ */
+export async function installEntry(
+  entry: ManifestEntry,
+  projectRoot: string,
+  options: InstallOptions,
+  lockEntry?: LockEntry,
+): Promise<InstallResult> {
+  try {
+    if (
+      !options.force &&
+      (await isEntryInstalled(entry, projectRoot, lockEntry))
+    ) {
+      return { entry, status: "skipped" };
+    }
+
+    const repoName = await ensureRepository(entry);
+
+    let cachedRepo = await getRepoInfo(repoName);
+    if (!cachedRepo) {
+      throw new GrfError(
+        ErrorCode.REPO_NOT_FOUND,
+        `Repository "${repoName}" does not exist.`,
+      );
+    }
+
+    // 清单条目需要子模块而缓存仓库尚未启用时，先启用子模块
+    if (entry.recursive && !cachedRepo.recursive) {
+      cachedRepo = await enableRepoSubmodules(repoName);
+    }
+
+    // 检出清单中声明的标签/commit 或分支（与缓存当前引用不同时使用独立的工作树），
+    // 稀疏检出的仓库按需检出清单条目需要的子目录
+    const repoInfo = await resolveRepoCheckout(
+      cachedRepo,
+      { branch: entry.branch, ref: entry.ref },
+      entry,
+    );
+
+    const headCommit = repoInfo.commitId;
+    const commit = lockEntry?.commit ?? headCommit;
+
+    const context: LoadContext = {
+      name: entry.url,
+      repoName,
+      targetPath: entry.target,
+      options: {
+        subdir: toSubdirSpecs(entry),
+        include: entry.include,
+        exclude: entry.exclude,
+        ignore: options.ignore,
+        branch: entry.branch,
+        ref: entry.ref,
+        lfs: entry.lfs,
+        save: false,
+      },
+      repoInfo: { ...repoInfo, commitId: commit },
+      repoPath: repoInfo.path,
+    };
+
+    context.finalTargetPath = determineFinalTargetPath(
+      entry.target,
+      repoInfo.name,
+    );
+    const finalTargetPath = context.finalTargetPath;
+
+    // 重新安装时先清空目标目录，保证内容与缓存一致
+    if (await pathExists(finalTargetPath)) {
+      await filesystem.removeDir(finalTargetPath);
+    }
+
+    await withCommitCheckout(
+      repoInfo.path,
+      headCommit,
+      commit,
+      async (checkoutPath) => {
+        const missingSubdir = await findMissingSourceSubdir(
+          checkoutPath,
+          entry,
+        );
+        if (missingSubdir) {
+          throw new GrfError(
+            ErrorCode.FS_PATH_NOT_FOUND,
+            `Subdirectory "${missingSubdir}" does not exist in repository "${repoName}".`,
+          );
+        }
+        if (entry.lfs) {
+          await pullRepoLfs(checkoutPath, entry);
+        }
+        await copyRepoFiles(checkoutPath, finalTargetPath, entry);
+      },
+      { recursive: repoInfo.recursive },
+    );
+    context.sourcePath = determineSourcePath(repoInfo.path, entry.subdir);
+
+    // 校验内容哈希，防止锁定的内容被篡改或无法复现
+    if (lockEntry) {
+      const integrity = await filesystem.hashDirectory(finalTargetPath);
+      if (integrity !== lockEntry.integrity) {
+        throw new GrfError(
+          ErrorCode.FS_COPY_FAILED,
+          `Integrity check failed: expected ${lockEntry.integrity}, got ${integrity}`,
+        );
+      }
+    }
+
+    if (options.ignore !== false) {
+      await updateGitignoreEntries(entry.target, finalTargetPath);
+    }
+
+    await recordLoadingEntry(context);
+
+    // --frozen 模式下不修改锁文件
+    if (!options.frozen) {
+      await recordLockEntry(context);
+    }
+
+    return { entry, status: "installed", commitId: commit };
+  } catch (error) {
+    return {
+      entry,
+      status: "failed",
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * install 命令
+ * 根据项目清单 grf.json 添加缺失的缓存仓库并加载所有声明的参考代码，
+ * 存在 grf.lock 时按锁定的 commit 加载
+ */
+
+import { Command, Option } from "commander";
+import chalk from "chalk";
+import { readManifest } from "../../core/manifest.js";
+import { readLock } from "../../core/lockfile.js";
+import { createSpinner } from "../../ui/spinner.js";
+import { handleError } from "../../utils/error.js";
+import { noIgnoreOption } from "../options/index.js";
+import { InstallOptions, InstallContext, InstallResult } from "./types.js";
+import { installEntry, findLockEntry, findStaleEntries } from "./helpers.js";
+import {
+  getInstallIcon,
+  getInstallText,
+  displayNoManifest,
+  displayNoLock,
+  displayLockOutOfDate,
+  displayEmptyManifest,
+  displayInstallSummary,
+} from "./display.js";
+
+/**
+ * 注册 install 命令
+ * @param program Commander 程序实例
+ */
+export function registerInstallCommand(program: Command): void {
+  program.addCommand(installCommand);
+}
+
+/** --force 选项（install 专用语义） */
+const reinstallOption = new Option(
+  "-f, --force",
+  "Reinstall references that are already loaded",
+);
+
+/** --frozen 选项 */
+const frozenOption = new Option(
+  "--frozen",
+  "Install exactly the commits in grf.lock and fail if it is missing or out of date",
+);
+
+export const installCommand = new Command("install")
+  .description("Load all references declared in grf.json")
+  .addOption(reinstallOption)
+  .addOption(frozenOption)
+  .addOption(noIgnoreOption)
+  .action(async (options: InstallOptions) => {
+    try {
+      const projectRoot = process.cwd();
+      const manifest = await readManifest(projectRoot);
+
+      if (!manifest) {
+        displayNoManifest();
+        process.exit(1);
+      }
+
+      // 构建上下文
+      const context: InstallContext = {
+        projectRoot,
+        manifest,
+        lock: await readLock(projectRoot),
+        options,
+      };
+
+      // --frozen 模式要求锁文件覆盖清单中的每个条目
+      if (context.options.frozen) {
+        if (!context.lock) {
+          displayNoLock();
+          process.exit(1);
+        }
+
+        const staleEntries = findStaleEntries(context.manifest, context.lock);
+        if (staleEntries.length > 0) {
+          displayLockOutOfDate(staleEntries);
+          process.exit(1);
+        }
+      }
+
+      if (context.manifest.references.length === 0) {
+        displayEmptyManifest();
+        return;
+      }
+
+      console.log(
+        chalk.bold(
+          `Installing ${context.manifest.references.length} reference(s) from grf.json...`,
+        ),
+      );
+      console.log();
+
+      const results: InstallResult[] = [];
+
+      for (const entry of context.manifest.references) {
+        const spinner = createSpinner(`  ${entry.target}`).start();
+        const result = await installEntry(
+          entry,
+          context.projectRoot,
+          context.options,
+          findLockEntry(entry, context.lock),
+        );
+        results.push(result);
+
+        spinner.stopAndPersist({
+          symbol: getInstallIcon(result.status),
+          text: getInstallText(result),
+        });
+      }
+
+      displayInstallSummary(results);
+
+      if (results.some((r) => r.status === "failed")) {
+        process.exit(1);
+      }
+    } catch (error) {
+      handleError(error, { exit: true });
+    }
+  });
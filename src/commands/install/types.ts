@@ -0,0 +1,54 @@
+/**
+ * install 命令类型定义
+ */
+
+import type {
+  ManifestEntry,
+  ProjectManifest,
+  ProjectLock,
+} from "../../types/index.js";
+
+/**
+ * 单个条目的安装状态
+ */
+export type InstallStatus = "installed" | "skipped" | "failed";
+
+/**
+ * 单个条目的安装结果
+ */
+export interface InstallResult {
+  /** 清单条目 */
+  entry: ManifestEntry;
+  /** 安装状态 */
+  status: InstallStatus;
+  /** 加载的 commit ID（仅当状态为 'installed' 时） */
+  commitId?: string;
+  /** 错误消息（仅当状态为 'failed' 时） */
+  error?: string;
+}
+
+/**
+ * install 命令选项
+ */
+export interface InstallOptions {
+  /** 重新安装已加载的参考代码 */
+  force?: boolean;
+  /** 是否更新 .gitignore */
+  ignore: boolean;
+  /** 严格按 grf.lock 安装，且不修改锁文件 */
+  frozen?: boolean;
+}
+
+/**
+ * install 命令上下文
+ */
+export interface InstallContext {
+  /** 项目根目录 */
+  projectRoot: string;
+  /** 项目清单 */
+  manifest: ProjectManifest;
+  /** 项目锁文件（不存在时为 null） */
+  lock: ProjectLock | null;
+  /** 命令选项 */
+  options: InstallOptions;
+}
@@ -6,8 +6,14 @@ import chalk from "chalk";
 import { RepoInfo } from "../../core/repository.js";
 import { LoadingEntry } from "../../types/index.js";
 import { padEnd, truncate } from "../../ui/table.js";
-import { shortCommit, formatDate } from "../../ui/format.js";
+import {
+  shortCommit,
+  formatDate,
+  formatPin,
+  formatSubdirs,
+} from "../../ui/format.js";
 import { TABLE_COLUMNS } from "../../utils/constants.js";
+import { redactCredentials } from "../../utils/redact.js";
 
 // 列宽定义（使用共享常量）
 const COL_NAME = TABLE_COLUMNS.NAME;
@@ -36,7 +42,11 @@ export function displayEmptyJson(): void {
  * @param repos 仓库列表
  */
 export function displayJsonOutput(repos: RepoInfo[]): void {
-  console.log(JSON.stringify(repos, null, 2));
+  const redacted = repos.map((repo) => ({
+    ...repo,
+    url: redactCredentials(repo.url),
+  }));
+  console.log(JSON.stringify(redacted, null, 2));
 }
 
 /**
@@ -59,7 +69,11 @@ export function displayTableOutput(repos: RepoInfo[]): void {
   // 仓库列表
   for (const repo of repos) {
     const name = truncate(repo.name, COL_NAME - 2);
-    const branch = truncate(repo.branch ?? "-", COL_BRANCH - 2);
+    // 固定到标签或 commit 的仓库显示固定的引用
+    const branch = truncate(
+      repo.branch ?? (formatPin(repo) || "-"),
+      COL_BRANCH - 2,
+    );
     const commit = shortCommit(repo.commitId);
     const added = formatDate(repo.addedAt);
 
@@ -101,7 +115,11 @@ export function displayEmptyLoadedList(): void {
  * @param entries 已加载条目列表
  */
 export function displayLoadedJsonOutput(entries: LoadingEntry[]): void {
-  console.log(JSON.stringify(entries, null, 2));
+  const redacted = entries.map((entry) => ({
+    ...entry,
+    repoUrl: entry.repoUrl && redactCredentials(entry.repoUrl),
+  }));
+  console.log(JSON.stringify(redacted, null, 2));
 }
 
 /**
@@ -133,7 +151,7 @@ export function displayLoadedEntries(
   // 条目列表
   for (const entry of loadedEntries) {
     const repoName = truncate(
-      entry.repoName.replace(/\\/g, "/"),
+      (entry.repoName || "(unknown)").replace(/\\/g, "/"),
       COL_LOADED_NAME - 2,
     );
     const targetPath = truncate(
@@ -155,16 +173,20 @@ export function displayLoadedEntries(
   if (verbose) {
     console.log(chalk.gray("Details:"));
     for (const entry of loadedEntries) {
-      console.log(chalk.gray(`  - ${entry.repoName}`));
+      console.log(chalk.gray(`  - ${entry.repoName || "(unknown)"}`));
       console.log(chalk.gray(`    ID: ${entry.id}`));
-      console.log(chalk.gray(`    URL: ${entry.repoUrl}`));
+      console.log(
+        chalk.gray(
+          `    URL: ${entry.repoUrl ? redactCredentials(entry.repoUrl) : "-"}`,
+        ),
+      );
       console.log(chalk.gray(`    Path: ${entry.targetPath}`));
       console.log(chalk.gray(`    Commit: ${entry.commitId}`));
       if (entry.branch) {
         console.log(chalk.gray(`    Branch: ${entry.branch}`));
       }
-      if (entry.subdir) {
-        console.log(chalk.gray(`    Subdir: ${entry.subdir}`));
+      if (entry.subdir || entry.subdirs) {
+        console.log(chalk.gray(`    Subdir: ${formatSubdirs(entry)}`));
       }
       console.log(chalk.gray(`    Loaded at: ${entry.loadedAt}`));
       if (entry.updatedAt) {
@@ -3,8 +3,11 @@
  */
 
 import chalk from "chalk";
-import { shortCommit } from "../../ui/format.js";
+import path from "path";
+import { formatWarning, shortCommit } from "../../ui/format.js";
 import type { RepoInfo } from "../../core/repository.js";
+import type { CopyStats } from "../../core/filesystem.js";
+import type { SubdirMapping } from "../../types/index.js";
 
 /**
  * 显示仓库添加成功信息
@@ -23,16 +26,51 @@ export function displayAddSuccess(repoInfo: RepoInfo): void {
  * @param sourcePath 源路径
  * @param targetPath 目标路径
  * @param commitId commit ID
+ * @param stats 复制统计
+ * @param subdirs 子目录映射（指定多个 --subdir 时）
  */
 export function displayCopySuccess(
   sourcePath: string,
   targetPath: string,
   commitId: string,
+  stats?: CopyStats,
+  subdirs?: SubdirMapping[],
 ): void {
   console.log();
   console.log(`  ${chalk.gray("Source:")}   ${sourcePath}`);
   console.log(`  ${chalk.gray("Target:")}   ${targetPath}`);
+  for (const mapping of subdirs ?? []) {
+    console.log(
+      `  ${chalk.gray("Subdir:")}   ${mapping.source} → ${path.join(targetPath, mapping.target)}`,
+    );
+  }
   console.log(`  ${chalk.gray("Commit:")}   ${shortCommit(commitId)}...`);
+  if (stats && stats.filtered > 0) {
+    console.log(
+      `  ${chalk.gray("Files:")}    ${stats.copied} copied, ${stats.filtered} filtered out`,
+    );
+  }
+}
+
+/**
+ * 显示复制了 Git LFS 指针文件的警告
+ * @param count LFS 指针文件数量
+ * @param lfs 是否已使用 --lfs 下载
+ */
+export function displayLfsPointerWarning(count: number, lfs?: boolean): void {
+  const files =
+    count === 1
+      ? "1 file is a Git LFS pointer"
+      : `${count} files are Git LFS pointers`;
+  console.log();
+  console.log(formatWarning(`${files}, not the actual content.`));
+  console.log(
+    chalk.gray(
+      lfs
+        ? "  Their LFS objects could not be downloaded. Check the LFS server or your --include patterns."
+        : `  Re-run with ${chalk.cyan("--lfs")} to download the LFS content before copying.`,
+    ),
+  );
 }
 
 /**
@@ -4,22 +4,25 @@
  */
 
 import chalk from "chalk";
-import { startSpinner } from "../../../ui/spinner.js";
+import { createProgressHandler, startSpinner } from "../../../ui/spinner.js";
 import { handleError } from "../../../utils/error.js";
 import {
   checkRepoExists,
   getRepoInfo,
-  switchRepoBranch,
-  resolveRepoPath,
+  enableRepoSubmodules,
+  resolveRepoCheckout,
   determineSourcePath,
-  pathExists,
+  resolveSubdirSelection,
+  findMissingSourceSubdir,
   determineFinalTargetPath,
   copyRepoFiles,
+  pullRepoLfs,
   updateGitignoreEntries,
   recordLoadingEntry,
 } from "../helpers.js";
 import {
   displayCopySuccess,
+  displayLfsPointerWarning,
   displayRepoNotFoundError,
   displaySubdirNotFoundError,
 } from "../display.js";
@@ -49,37 +52,56 @@ export async function handleCopyRepo(context: LoadContext): Promise<boolean> {
       process.exit(1);
     }
 
-    // 如果指定了分支且与当前分支不同，则切换分支
-    if (context.options.branch && repoInfo.branch !== context.options.branch) {
-      spinner.text = `Switching to branch ${context.options.branch}...`;
-      try {
-        repoInfo = await switchRepoBranch(
-          context.repoName,
-          context.options.branch,
-        );
-        spinner.text = "Copying repository...";
-      } catch (error) {
-        spinner.fail(chalk.red(`Failed to switch branch`));
-        handleError(error, { exit: true });
-      }
+    // --recursive 为已添加但未启用子模块的仓库启用子模块
+    if (context.options.recursive && !repoInfo.recursive) {
+      spinner.text = "Updating submodules...";
+      repoInfo = await enableRepoSubmodules(
+        repoInfo.name,
+        createProgressHandler(spinner, "Updating submodules..."),
+      );
+    }
+
+    // 检出指定的分支或标签/commit（与缓存当前引用不同时使用独立的工作树），
+    // 稀疏检出的仓库按需检出本次需要的子目录
+    const selection = resolveSubdirSelection(context.options);
+    const selector = {
+      branch: context.options.branch,
+      ref: context.options.ref,
+    };
+    const refName = selector.ref ?? selector.branch;
+    if (refName) {
+      spinner.text = `Checking out ${refName}...`;
+    } else if (repoInfo.sparse) {
+      spinner.text = "Expanding sparse checkout...";
+    }
+    try {
+      repoInfo = await resolveRepoCheckout(repoInfo, selector, selection);
+      spinner.text = "Copying repository...";
+    } catch (error) {
+      spinner.fail(
+        chalk.red(`Failed to check out ${refName ?? repoInfo.name}`),
+      );
+      handleError(error, { exit: true });
     }
 
     // 更新上下文中的仓库信息
     context.repoInfo = repoInfo;
+    context.repoPath = repoInfo.path;
 
-    // 解析仓库路径
-    context.repoPath = await resolveRepoPath(context.repoName);
-
-    // 确定源路径（如果指定了 subdir，则使用子目录）
+    // 确定源路径（如果指定了单个 subdir，则使用子目录）
     context.sourcePath = determineSourcePath(
       context.repoPath,
-      context.options.subdir,
+      selection.subdir,
     );
 
-    // 检查源路径是否存在（特别是子目录情况）
-    if (context.options.subdir && !(await pathExists(context.sourcePath))) {
+    // 检查所有源子目录是否存在
+    const missingSubdir = await findMissingSourceSubdir(
+      context.repoPath,
+      selection,
+    );
+    if (missingSubdir) {
       spinner.fail(chalk.red("Subdirectory not found"));
-      displaySubdirNotFoundError(context.options.subdir, repoInfo.name);
+      displaySubdirNotFoundError(missingSubdir, repoInfo.name);
       process.exit(1);
     }
 
@@ -89,8 +111,29 @@ export async function handleCopyRepo(context: LoadContext): Promise<boolean> {
       repoInfo.name,
     );
 
+    const copyOptions = {
+      ...selection,
+      include: context.options.include,
+      exclude: context.options.exclude,
+    };
+
+    // --lfs 先下载本次复制范围内的 Git LFS 对象
+    if (context.options.lfs) {
+      spinner.text = "Downloading Git LFS objects...";
+      await pullRepoLfs(
+        context.repoPath,
+        copyOptions,
+        createProgressHandler(spinner, "Downloading Git LFS objects..."),
+      );
+      spinner.text = "Copying repository...";
+    }
+
     // 复制文件
-    await copyRepoFiles(context.sourcePath, context.finalTargetPath);
+    const stats = await copyRepoFiles(
+      context.repoPath,
+      context.finalTargetPath,
+      copyOptions,
+    );
 
     // 更新 .gitignore（如果没有 --no-ignore 选项）
     if (context.options.ignore !== false) {
@@ -107,7 +150,12 @@ export async function handleCopyRepo(context: LoadContext): Promise<boolean> {
       context.sourcePath,
       context.finalTargetPath,
       repoInfo.commitId,
+      stats,
+      selection.subdirs,
     );
+    if (stats.lfsPointers > 0) {
+      displayLfsPointerWarning(stats.lfsPointers, context.options.lfs);
+    }
 
     return true;
   } catch (error) {
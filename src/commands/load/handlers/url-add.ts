@@ -4,13 +4,15 @@
  */
 
 import chalk from "chalk";
-import { startSpinner } from "../../../ui/spinner.js";
+import { createProgressHandler, startSpinner } from "../../../ui/spinner.js";
 import { handleError } from "../../../utils/error.js";
 import { isGitUrl } from "../../../utils/validation.js";
 import {
   parseGitUrlToFullName,
   checkRepoExists,
   addRepository,
+  getSubdirSources,
+  resolveSubdirSelection,
 } from "../helpers.js";
 import { displayAddSuccess } from "../display.js";
 import type { LoadContext } from "../types.js";
@@ -41,6 +43,11 @@ export async function handleUrlAdd(context: LoadContext): Promise<boolean> {
       const repoInfo = await addRepository(
         context.name,
         context.options.branch,
+        context.options.sparse
+          ? getSubdirSources(resolveSubdirSelection(context.options))
+          : undefined,
+        createProgressHandler(addSpinner, "Adding repository..."),
+        context.options.recursive,
       );
       addSpinner.succeed(chalk.green("Repository added successfully!"));
       displayAddSuccess(repoInfo);
@@ -6,17 +6,29 @@ import path from "path";
 import * as repository from "../../core/repository.js";
 import * as filesystem from "../../core/filesystem.js";
 import * as loading from "../../core/loading.js";
-import type { RepoInfo } from "../../core/repository.js";
-import type { LoadContext } from "./types.js";
+import { saveManifestEntry } from "../../core/manifest.js";
+import { saveLockEntry } from "../../core/lockfile.js";
+import { saveSnapshot } from "../../core/snapshot.js";
+import { pullLfsObjects } from "../../core/lfs.js";
+import {
+  copyMappedSubdirs,
+  findMissingSubdir,
+  getSubdirMappings,
+  parseSubdirSpecs,
+  type MappedCopyOptions,
+  type SubdirSelection,
+} from "../../core/subdir.js";
+import type { GitProgressHandler } from "../../core/git.js";
+import type { RefSelector, RepoInfo } from "../../core/repository.js";
+import type { LoadContext, LoadOptions } from "./types.js";
 
 /**
  * 解析 Git URL 获取完整仓库名称
- * @param url Git URL
- * @returns 完整仓库名称 (host/owner/repo)
+ * @param url Git URL 或本地路径
+ * @returns 完整仓库名称（与缓存中的规范标识一致，如 host/owner/repo）
  */
 export function parseGitUrlToFullName(url: string): string {
-  const parsed = repository.parseRepoUrl(url);
-  return `${parsed.host}/${parsed.owner}/${parsed.repo}`;
+  return repository.getRepoIdentity(url);
 }
 
 /**
@@ -32,19 +44,41 @@ export async function checkRepoExists(repoName: string): Promise<boolean> {
  * 添加仓库
  * @param url Git URL
  * @param branch 分支名称
+ * @param sparse 稀疏检出的路径
+ * @param onProgress 克隆进度回调
+ * @param recursive 是否克隆子模块
  * @returns 仓库信息
  */
 export async function addRepository(
   url: string,
   branch?: string,
+  sparse?: string[],
+  onProgress?: GitProgressHandler,
+  recursive?: boolean,
 ): Promise<RepoInfo> {
   return await repository.add(url, {
     branch,
     shallow: true,
     depth: 1,
+    sparse,
+    recursive,
+    onProgress,
   });
 }
 
+/**
+ * 为已添加的仓库启用子模块
+ * @param repoName 仓库名称
+ * @param onProgress 子模块克隆进度回调
+ * @returns 更新后的仓库信息
+ */
+export async function enableRepoSubmodules(
+  repoName: string,
+  onProgress?: GitProgressHandler,
+): Promise<RepoInfo> {
+  return await repository.enableSubmodules(repoName, onProgress);
+}
+
 /**
  * 获取仓库信息
  * @param repoName 仓库名称
@@ -55,25 +89,33 @@ export async function getRepoInfo(repoName: string): Promise<RepoInfo | null> {
 }
 
 /**
- * 切换仓库分支
- * @param repoName 仓库名称
- * @param branch 目标分支
- * @returns 更新后的仓库信息
+ * 获取需要从仓库中检出的源子目录
+ * @param selection 子目录信息
+ * @returns 源子目录列表（空字符串表示仓库根目录）
  */
-export async function switchRepoBranch(
-  repoName: string,
-  branch: string,
-): Promise<RepoInfo> {
-  return await repository.switchBranch(repoName, branch);
+export function getSubdirSources(selection: SubdirSelection): string[] {
+  return getSubdirMappings(selection).map((mapping) => mapping.source);
 }
 
 /**
- * 解析仓库缓存路径
- * @param repoName 仓库名称
- * @returns 仓库缓存路径
+ * 获取本次加载使用的检出目录
+ * 指定的分支或标签/commit 与缓存的主检出目录不同时检出到独立的工作树，不影响其他项目；
+ * 稀疏检出的仓库按需检出所需的子目录
+ * @param repoInfo 仓库信息
+ * @param selector 分支或标签/commit
+ * @param selection 子目录信息
+ * @returns 检出目录的仓库信息
  */
-export async function resolveRepoPath(repoName: string): Promise<string> {
-  return await repository.resolvePath(repoName);
+export async function resolveRepoCheckout(
+  repoInfo: RepoInfo,
+  selector: RefSelector,
+  selection: SubdirSelection,
+): Promise<RepoInfo> {
+  return await repository.resolveCheckout(
+    repoInfo,
+    selector,
+    getSubdirSources(selection),
+  );
 }
 
 /**
@@ -110,23 +152,59 @@ export function determineFinalTargetPath(
     : path.join(process.cwd(), ".gitreference", repoName);
 }
 
+/**
+ * 解析 --subdir 参数为子目录信息
+ * @param options load 命令选项
+ * @returns 子目录信息（单个子目录或多个映射）
+ */
+export function resolveSubdirSelection(options: LoadOptions): SubdirSelection {
+  return parseSubdirSpecs(options.subdir);
+}
+
+/**
+ * 查找仓库中不存在的源子目录
+ * @param repoPath 仓库（或检出）路径
+ * @param selection 子目录信息
+ * @returns 第一个不存在的子目录，全部存在时返回 undefined
+ */
+export async function findMissingSourceSubdir(
+  repoPath: string,
+  selection: SubdirSelection,
+): Promise<string | undefined> {
+  return await findMissingSubdir(repoPath, selection);
+}
+
 /**
  * 复制仓库文件到目标路径
- * @param sourcePath 源路径
+ * @param repoPath 仓库（或检出）路径
  * @param targetPath 目标路径
+ * @param options 子目录映射与文件过滤选项
+ * @returns 复制统计
  */
 export async function copyRepoFiles(
-  sourcePath: string,
+  repoPath: string,
   targetPath: string,
-): Promise<void> {
+  options: SubdirSelection & MappedCopyOptions = {},
+): Promise<filesystem.CopyStats> {
   // 确保目标目录的父目录存在
   await filesystem.ensureDir(path.dirname(targetPath));
 
-  // 复制文件（排除 .git 和 meta.json）
-  await filesystem.copyDir(sourcePath, targetPath, {
-    exclude: [".git", "meta.json", ".grf-meta.json", ".gitreference-meta.json"],
-    overwrite: true,
-  });
+  // 按子目录映射复制文件（排除 .git 和仓库根部的 meta.json，并应用 include/exclude 模式）
+  return await copyMappedSubdirs(repoPath, targetPath, options, options);
+}
+
+/**
+ * 下载复制内容所需的 Git LFS 对象（按子目录与 include 模式限定范围）
+ * @param repoPath 仓库（或检出）路径
+ * @param options 子目录映射与文件过滤选项
+ * @param onProgress 下载进度回调
+ */
+export async function pullRepoLfs(
+  repoPath: string,
+  options: SubdirSelection & MappedCopyOptions = {},
+  onProgress?: GitProgressHandler,
+): Promise<void> {
+  await pullLfsObjects(repoPath, options, options, onProgress);
 }
 
 /**
@@ -159,7 +237,8 @@ export async function updateGitignoreEntries(
 }
 
 /**
- * 记录加载信息到 loading.json
+ * 记录加载信息到 loading.json 与文件快照，并（除非指定 --no-save）写入项目清单 grf.json
+ * 与锁文件 grf.lock
  * @param context 加载上下文
  */
 export async function recordLoadingEntry(context: LoadContext): Promise<void> {
@@ -171,13 +250,66 @@ export async function recordLoadingEntry(context: LoadContext): Promise<void> {
     .relative(process.cwd(), context.finalTargetPath)
     .replace(/\\/g, "/");
 
-  await loading.addEntry({
+  const entry = await loading.addEntry({
     repoName: context.repoInfo.name,
     repoUrl: context.repoInfo.url,
     commitId: context.repoInfo.commitId,
     branch: context.repoInfo.branch,
-    subdir: context.options.subdir,
+    ref: context.options.ref,
+    ...resolveSubdirSelection(context.options),
+    include: context.options.include,
+    exclude: context.options.exclude,
+    lfs: context.options.lfs,
     targetPath: relativeTargetPath,
     workingDirectory: process.cwd(),
   });
+
+  // 记录每个文件的哈希，用于检测之后的本地修改
+  await saveSnapshot(
+    entry.id,
+    context.finalTargetPath,
+    context.repoInfo.commitId,
+  );
+
+  if (context.options.save !== false) {
+    await saveManifestEntry(process.cwd(), {
+      name: context.repoInfo.name,
+      url: context.repoInfo.url,
+      branch: context.repoInfo.branch,
+      ref: context.repoInfo.ref,
+      ...resolveSubdirSelection(context.options),
+      include: context.options.include,
+      exclude: context.options.exclude,
+      recursive: context.repoInfo.recursive,
+      lfs: context.options.lfs,
+      target: relativeTargetPath,
+    });
+    await recordLockEntry(context);
+  }
+}
+
+/**
+ * 将当前加载的 commit 与内容哈希写入锁文件 grf.lock
+ * @param context 加载上下文
+ */
+export async function recordLockEntry(context: LoadContext): Promise<void> {
+  if (!context.repoInfo || !context.finalTargetPath) {
+    throw new Error("Missing required context for recording lock entry");
+  }
+
+  const relativeTargetPath = path
+    .relative(process.cwd(), context.finalTargetPath)
+    .replace(/\\/g, "/");
+
+  await saveLockEntry(process.cwd(), relativeTargetPath, {
+    name: context.repoInfo.name,
+    url: context.repoInfo.url,
+    branch: context.repoInfo.branch,
+    ref: context.repoInfo.ref,
+    commit: context.repoInfo.commitId,
+    ...resolveSubdirSelection(context.options),
+    include: context.options.include,
+    exclude: context.options.exclude,
+    integrity: await filesystem.hashDirectory(context.finalTargetPath),
+  });
 }
@@ -5,14 +5,23 @@
  */
 
 import { Command } from "commander";
+import chalk from "chalk";
 import { handleError } from "../../utils/error.js";
 import {
   subdirOption,
+  includeOption,
+  excludeOption,
   noIgnoreOption,
+  noSaveOption,
   branchOption,
+  refOption,
+  sparseSubdirOption,
+  recursiveOption,
+  lfsOption,
 } from "../options/index.js";
 import { LoadOptions, LoadContext } from "./types.js";
 import { handleUrlAdd, handleCopyRepo } from "./handlers/index.js";
+import { resolveSubdirSelection } from "./helpers.js";
 
 /**
  * 注册 load 命令
@@ -29,8 +38,15 @@ export const loadCommand = new Command("load")
   .argument("<name>", "Repository name, short name, or Git URL")
   .argument("[path]", "Target path (default: .gitreference/<repo-path>)")
   .addOption(subdirOption)
+  .addOption(includeOption)
+  .addOption(excludeOption)
   .addOption(noIgnoreOption)
+  .addOption(noSaveOption)
   .addOption(branchOption)
+  .addOption(refOption)
+  .addOption(sparseSubdirOption)
+  .addOption(recursiveOption)
+  .addOption(lfsOption)
   .action(
     async (
       name: string,
@@ -45,7 +61,20 @@ export const loadCommand = new Command("load")
         options,
       };
 
+      // --sparse 只检出 --subdir 指定的目录，因此必须同时指定 --subdir
+      if (options.sparse && !options.subdir) {
+        console.error(
+          chalk.red(
+            `${chalk.bold("✗")} --sparse requires --subdir: grf load <url> --subdir <path> --sparse`,
+          ),
+        );
+        process.exit(1);
+      }
+
       try {
+        // 提前校验 --subdir 映射，避免参数无效时仍然克隆仓库
+        resolveSubdirSelection(options);
+
         // 处理 Git URL 自动添加
         await handleUrlAdd(context);
 
@@ -8,12 +8,26 @@ import type { RepoInfo } from "../../core/repository.js";
  * load 命令选项
  */
 export interface LoadOptions {
-  /** 子目录 */
-  subdir?: string;
+  /** 子目录（src 或 src:dest 映射） */
+  subdir?: string[];
+  /** 包含的文件模式 */
+  include?: string[];
+  /** 排除的文件模式 */
+  exclude?: string[];
   /** 是否更新 .gitignore */
   ignore: boolean;
   /** 指定分支 */
   branch?: string;
+  /** 指定标签或 commit */
+  ref?: string;
+  /** 是否记录到项目清单 grf.json */
+  save: boolean;
+  /** 是否使用稀疏检出（仅检出 --subdir 指定的目录） */
+  sparse?: boolean;
+  /** 是否克隆并更新子模块 */
+  recursive?: boolean;
+  /** 复制前是否下载 Git LFS 内容 */
+  lfs?: boolean;
 }
 
 /**
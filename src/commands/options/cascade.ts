@@ -0,0 +1,15 @@
+/**
+ * --cascade 参数
+ * 用于删除缓存仓库时一并卸载引用它的参考代码
+ */
+
+import { Option } from "commander";
+
+/**
+ * --cascade 选项
+ * 用于 clean 命令同时卸载各项目中仍在加载该仓库的参考代码
+ */
+export const cascadeOption = new Option(
+  "--cascade",
+  "Also unload the reference code that projects load from the removed repositories",
+);
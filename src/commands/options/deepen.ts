@@ -0,0 +1,15 @@
+/**
+ * --deepen 参数
+ * 用于加深浅克隆仓库的历史
+ */
+
+import { Option } from "commander";
+
+/**
+ * --deepen <n> 选项
+ * 用于 fetch 命令在当前深度上再获取 n 个 commit 的历史
+ */
+export const deepenOption = new Option(
+  "--deepen <n>",
+  "Fetch n more commits of history",
+);
@@ -0,0 +1,34 @@
+/**
+ * --include / --exclude 参数
+ * 用于按 glob 模式过滤要复制的文件
+ */
+
+import { Option } from "commander";
+
+/**
+ * 收集可重复指定的参数值
+ * @param value 本次传入的值
+ * @param previous 之前收集的值
+ * @returns 合并后的值列表
+ */
+function collect(value: string, previous: string[] | undefined): string[] {
+  return [...(previous ?? []), value];
+}
+
+/**
+ * --include 选项
+ * 用于 load 命令只复制匹配的文件，可多次指定
+ */
+export const includeOption = new Option(
+  "--include <glob>",
+  "Only copy files matching the glob (repeatable)",
+).argParser(collect);
+
+/**
+ * --exclude 选项
+ * 用于 load 命令跳过匹配的文件，可多次指定
+ */
+export const excludeOption = new Option(
+  "--exclude <glob>",
+  "Skip files matching the glob (repeatable)",
+).argParser(collect);
@@ -0,0 +1,12 @@
+/**
+ * --fix 参数
+ * 用于修复检查发现的问题
+ */
+
+import { Option } from "commander";
+
+/**
+ * --fix 选项
+ * 用于 doctor 命令修复发现的每一类不一致
+ */
+export const fixOption = new Option("--fix", "Repair the problems found");
@@ -0,0 +1,15 @@
+/**
+ * --include-loaded 参数
+ * 用于允许淘汰仍被项目加载的缓存仓库
+ */
+
+import { Option } from "commander";
+
+/**
+ * --include-loaded 选项
+ * 用于 gc 命令在淘汰时不跳过仍被项目加载的仓库
+ */
+export const includeLoadedOption = new Option(
+  "--include-loaded",
+  "Also evict repositories that projects still load",
+);
@@ -14,17 +14,30 @@ export { listOption } from "./list.js";
 // add 命令参数
 export { nameOption } from "./name.js";
 export { branchOption } from "./branch.js";
-export { shallowOption, noShallowOption } from "./shallow.js";
+export { refOption } from "./ref.js";
+export {
+  shallowOption,
+  noShallowOption,
+  shallowDepthOption,
+} from "./shallow.js";
 export { depthOption } from "./depth.js";
+export { sparseOption, sparseSubdirOption } from "./sparse.js";
+export { recursiveOption } from "./recursive.js";
 
 // load 命令参数
 export { subdirOption } from "./subdir.js";
 export { noIgnoreOption } from "./no-ignore.js";
+export { noSaveOption } from "./no-save.js";
+export { includeOption, excludeOption } from "./filter.js";
+export { lfsOption } from "./lfs.js";
 
 // unload 命令参数
 export { keepEmptyOption } from "./keep-empty.js";
 export { cleanEmptyOption } from "./clean-empty.js";
 
+// clean 命令参数
+export { cascadeOption } from "./cascade.js";
+
 // config 命令参数
 export { pathOption } from "./path.js";
 
@@ -33,3 +46,21 @@ export { checkOption } from "./check.js";
 export { statusOption } from "./status.js";
 export { syncOption } from "./sync.js";
 export { syncOnlyOption } from "./sync-only.js";
+export { mergeOption } from "./merge.js";
+
+// fetch 命令参数
+export { deepenOption } from "./deepen.js";
+export { unshallowOption } from "./unshallow.js";
+
+// gc 命令参数
+export { maxSizeOption } from "./max-size.js";
+export { olderThanOption } from "./older-than.js";
+export { unusedOption } from "./unused.js";
+export { includeLoadedOption } from "./include-loaded.js";
+
+// doctor 命令参数
+export { fixOption } from "./fix.js";
+
+// diff 命令参数
+export { statOption } from "./stat.js";
+export { nameOnlyOption } from "./name-only.js";
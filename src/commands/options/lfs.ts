@@ -0,0 +1,15 @@
+/**
+ * --lfs 参数
+ * 用于在复制前下载 Git LFS 文件内容
+ */
+
+import { Option } from "commander";
+
+/**
+ * --lfs 选项
+ * 用于 load 命令在复制前对加载的子目录执行 git lfs pull，避免复制 LFS 指针文件
+ */
+export const lfsOption = new Option(
+  "--lfs",
+  "Download Git LFS content for the loaded paths before copying",
+);
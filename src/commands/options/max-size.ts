@@ -0,0 +1,15 @@
+/**
+ * --max-size 参数
+ * 用于限制缓存占用的总空间
+ */
+
+import { Option } from "commander";
+
+/**
+ * --max-size <size> 选项
+ * 用于 gc 命令从最久未使用的仓库开始淘汰，直到缓存总空间不超过 size
+ */
+export const maxSizeOption = new Option(
+  "--max-size <size>",
+  "Evict least recently used repositories until the cache fits in size (e.g. 5G)",
+);
@@ -0,0 +1,15 @@
+/**
+ * --merge 参数
+ * 用于同步时保留本地修改
+ */
+
+import { Option } from "commander";
+
+/**
+ * --merge 选项
+ * 用于 update 命令同步时将上游更新三方合并到本地修改过的文件
+ */
+export const mergeOption = new Option(
+  "--merge",
+  "Three-way merge upstream changes into locally modified references when syncing",
+);
@@ -0,0 +1,15 @@
+/**
+ * --name-only 参数
+ * 用于仅显示变更的文件名
+ */
+
+import { Option } from "commander";
+
+/**
+ * --name-only 选项
+ * 用于 diff 命令仅列出变更的文件
+ */
+export const nameOnlyOption = new Option(
+  "--name-only",
+  "Show only the names of changed files",
+).conflicts("stat");
@@ -0,0 +1,15 @@
+/**
+ * --no-save 参数
+ * 用于禁止写入项目清单
+ */
+
+import { Option } from "commander";
+
+/**
+ * --no-save 选项
+ * 用于 load 命令不将参考代码记录到 grf.json
+ */
+export const noSaveOption = new Option(
+  "--no-save",
+  "Do not record the reference in grf.json",
+);
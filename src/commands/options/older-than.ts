@@ -0,0 +1,15 @@
+/**
+ * --older-than 参数
+ * 用于按闲置时长淘汰缓存仓库
+ */
+
+import { Option } from "commander";
+
+/**
+ * --older-than <age> 选项
+ * 用于 gc 命令淘汰超过 age 未使用的仓库
+ */
+export const olderThanOption = new Option(
+  "--older-than <age>",
+  "Evict repositories not used for longer than age (e.g. 30d, 2w)",
+);
@@ -0,0 +1,15 @@
+/**
+ * --recursive 参数
+ * 用于克隆并更新 Git 子模块
+ */
+
+import { Option } from "commander";
+
+/**
+ * --recursive 选项
+ * 用于 add/load 命令克隆仓库时同时检出子模块，之后的更新也会同步子模块
+ */
+export const recursiveOption = new Option(
+  "--recursive",
+  "Clone and update Git submodules",
+);
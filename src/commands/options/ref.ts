@@ -0,0 +1,15 @@
+/**
+ * --ref 参数
+ * 用于指定标签或 commit
+ */
+
+import { Option } from "commander";
+
+/**
+ * --ref 选项
+ * 用于 add, load, update 等命令将仓库固定到标签或 commit
+ */
+export const refOption = new Option(
+  "--ref <ref>",
+  "Pin to a tag or commit SHA (detached checkout)",
+).conflicts("branch");
@@ -1,6 +1,6 @@
 /**
  * --shallow / --no-shallow 参数
- * 用于控制浅克隆
+ * 用于控制浅克隆及缓存仓库的历史深度
  */
 
 import { Option } from "commander";
@@ -19,3 +19,12 @@ export const shallowOption = new Option(
  * 用于 add 命令禁用浅克隆，执行完整克隆
  */
 export const noShallowOption = new Option("--no-shallow", "Full clone");
+
+/**
+ * --shallow <n> 选项
+ * 用于 fetch 命令将历史截断到 n 个 commit 并回收空间
+ */
+export const shallowDepthOption = new Option(
+  "--shallow <n>",
+  "Truncate history to n commits and reclaim disk space",
+);
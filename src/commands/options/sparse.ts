@@ -0,0 +1,24 @@
+/**
+ * --sparse 参数
+ * 用于部分克隆并只检出需要的目录
+ */
+
+import { Option } from "commander";
+
+/**
+ * --sparse <paths> 选项
+ * 用于 add 命令只检出指定的目录（逗号分隔）
+ */
+export const sparseOption = new Option(
+  "--sparse <paths>",
+  "Partial clone that checks out only the given comma-separated paths",
+);
+
+/**
+ * --sparse 选项
+ * 用于 load 命令通过 Git URL 添加仓库时只检出 --subdir 指定的目录
+ */
+export const sparseSubdirOption = new Option(
+  "--sparse",
+  "Partial clone that checks out only the --subdir paths (only for Git URL)",
+);
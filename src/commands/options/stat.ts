@@ -0,0 +1,15 @@
+/**
+ * --stat 参数
+ * 用于仅显示变更统计
+ */
+
+import { Option } from "commander";
+
+/**
+ * --stat 选项
+ * 用于 diff 命令仅显示每个文件的变更统计
+ */
+export const statOption = new Option(
+  "--stat",
+  "Show a diffstat instead of the full patch",
+).conflicts("nameOnly");
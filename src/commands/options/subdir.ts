@@ -1,15 +1,18 @@
 /**
  * --subdir 参数
- * 用于指定只复制特定子目录
+ * 用于指定只复制特定子目录，可通过 src:dest 映射多个子目录
  */
 
 import { Option } from "commander";
 
 /**
  * --subdir 选项
- * 用于 load 命令只复制仓库的特定子目录
+ * 用于 load 命令只复制仓库的特定子目录，可多次指定
  */
 export const subdirOption = new Option(
   "-s, --subdir <path>",
-  "Copy only a specific subdirectory",
-);
+  "Copy only a specific subdirectory, or map one with src:dest (repeatable)",
+).argParser((value: string, previous: string[] | undefined) => [
+  ...(previous ?? []),
+  value,
+]);
@@ -0,0 +1,15 @@
+/**
+ * --unshallow 参数
+ * 用于获取完整历史
+ */
+
+import { Option } from "commander";
+
+/**
+ * --unshallow 选项
+ * 用于 fetch 命令将浅克隆仓库转换为完整仓库
+ */
+export const unshallowOption = new Option(
+  "--unshallow",
+  "Fetch the complete history",
+);
@@ -0,0 +1,15 @@
+/**
+ * --unused 参数
+ * 用于淘汰没有被任何项目加载的缓存仓库
+ */
+
+import { Option } from "commander";
+
+/**
+ * --unused 选项
+ * 用于 gc 命令淘汰没有被任何项目加载的仓库
+ */
+export const unusedOption = new Option(
+  "--unused",
+  "Evict repositories not loaded by any project",
+);
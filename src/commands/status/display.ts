@@ -0,0 +1,115 @@
+/**
+ * status 命令显示/格式化逻辑
+ */
+
+import chalk from "chalk";
+import type { EntryState, EntryStatus } from "./types.js";
+
+/**
+ * 获取条目状态图标
+ * @param state 条目状态
+ * @returns 状态图标
+ */
+function getStateIcon(state: EntryState): string {
+  switch (state) {
+    case "clean":
+      return chalk.green("✓");
+    case "modified":
+      return chalk.yellow("M");
+    case "missing":
+      return chalk.red("✗");
+    case "unknown":
+      return chalk.gray("?");
+  }
+}
+
+/**
+ * 获取条目状态文本
+ * @param status 条目状态
+ * @returns 状态文本
+ */
+function getStateText(status: EntryStatus): string {
+  switch (status.state) {
+    case "clean":
+      return chalk.green("clean");
+    case "modified": {
+      const { modified, added, deleted } = status.changes ?? {
+        modified: [],
+        added: [],
+        deleted: [],
+      };
+      return chalk.yellow(
+        `${modified.length} modified, ${added.length} added, ${deleted.length} deleted`,
+      );
+    }
+    case "missing":
+      return chalk.red("target directory not found");
+    case "unknown":
+      return chalk.gray("no snapshot (reload to start tracking changes)");
+  }
+}
+
+/**
+ * 显示没有已加载条目
+ */
+export function displayNoEntries(): void {
+  console.log(chalk.yellow("No loaded reference code in current project."));
+  console.log(
+    chalk.gray("\nUse `grf load <name>` to load reference code to workspace."),
+  );
+}
+
+/**
+ * 显示各条目的本地修改状态
+ * @param statuses 条目状态列表
+ */
+export function displayStatus(statuses: EntryStatus[]): void {
+  console.log(chalk.bold("Loaded reference status:\n"));
+
+  for (const status of statuses) {
+    console.log(
+      `${getStateIcon(status.state)} ${status.entry.targetPath} ${chalk.gray(`(${status.entry.repoName})`)}  ${getStateText(status)}`,
+    );
+
+    if (status.changes) {
+      for (const file of status.changes.modified) {
+        console.log(chalk.yellow(`    M ${file}`));
+      }
+      for (const file of status.changes.added) {
+        console.log(chalk.green(`    A ${file}`));
+      }
+      for (const file of status.changes.deleted) {
+        console.log(chalk.red(`    D ${file}`));
+      }
+    }
+  }
+
+  const modifiedCount = statuses.filter((s) => s.state === "modified").length;
+  console.log();
+  console.log(
+    `Total ${statuses.length} references, ${modifiedCount} with local changes`,
+  );
+
+  if (modifiedCount > 0) {
+    console.log(
+      chalk.gray(
+        "\n`grf update --sync` will skip modified references unless --merge or --force is passed.",
+      ),
+    );
+  }
+}
+
+/**
+ * 以 JSON 格式显示各条目的本地修改状态
+ * @param statuses 条目状态列表
+ */
+export function displayJsonStatus(statuses: EntryStatus[]): void {
+  const output = statuses.map((status) => ({
+    id: status.entry.id,
+    repoName: status.entry.repoName,
+    targetPath: status.entry.targetPath,
+    state: status.state,
+    ...status.changes,
+  }));
+  console.log(JSON.stringify(output, null, 2));
+}
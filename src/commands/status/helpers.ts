@@ -0,0 +1,55 @@
+/**
+ * status 命令辅助函数
+ */
+
+import path from "path";
+import * as filesystem from "../../core/filesystem.js";
+import * as loading from "../../core/loading.js";
+import { getLocalChanges, hasLocalChanges } from "../../core/snapshot.js";
+import type { LoadingEntry } from "../../types/index.js";
+import type { EntryStatus } from "./types.js";
+
+/**
+ * 获取当前项目中已加载的条目
+ * @param projectRoot 项目根目录
+ * @returns 加载条目列表
+ */
+export async function getProjectEntries(
+  projectRoot: string,
+): Promise<LoadingEntry[]> {
+  const entries = await loading.getEntries();
+  return entries.filter(
+    (entry) =>
+      !!entry.workingDirectory &&
+      path.normalize(entry.workingDirectory) === path.normalize(projectRoot),
+  );
+}
+
+/**
+ * 对比加载条目的目标目录与加载时的文件快照
+ * @param entry 加载条目
+ * @param projectRoot 项目根目录（条目未记录工作目录时使用）
+ * @returns 条目状态
+ */
+export async function getEntryStatus(
+  entry: LoadingEntry,
+  projectRoot: string,
+): Promise<EntryStatus> {
+  const targetPath = path.join(
+    entry.workingDirectory || projectRoot,
+    entry.targetPath,
+  );
+
+  if (!(await filesystem.exists(targetPath))) {
+    return { entry, state: "missing" };
+  }
+
+  const changes = await getLocalChanges(entry.id, targetPath);
+  if (!changes) {
+    return { entry, state: "unknown" };
+  }
+
+  return hasLocalChanges(changes)
+    ? { entry, state: "modified", changes }
+    : { entry, state: "clean" };
+}
@@ -0,0 +1,56 @@
+/**
+ * status 命令
+ * 显示当前项目已加载的参考代码在加载后被修改、新增、删除的文件
+ */
+
+import { Command } from "commander";
+import { handleError } from "../../utils/error.js";
+import { jsonOption } from "../options/index.js";
+import { StatusOptions, EntryStatus } from "./types.js";
+import { getProjectEntries, getEntryStatus } from "./helpers.js";
+import {
+  displayNoEntries,
+  displayStatus,
+  displayJsonStatus,
+} from "./display.js";
+
+/**
+ * 注册 status 命令
+ * @param program Commander 程序实例
+ */
+export function registerStatusCommand(program: Command): void {
+  program.addCommand(statusCommand);
+}
+
+export const statusCommand = new Command("status")
+  .description("Show local changes to loaded reference code")
+  .addOption(jsonOption)
+  .action(async (options: StatusOptions) => {
+    try {
+      const projectRoot = process.cwd();
+      const entries = await getProjectEntries(projectRoot);
+
+      if (entries.length === 0) {
+        if (options.json) {
+          console.log("[]");
+        } else {
+          displayNoEntries();
+        }
+        return;
+      }
+
+      const statuses: EntryStatus[] = [];
+      for (const entry of entries) {
+        statuses.push(await getEntryStatus(entry, projectRoot));
+      }
+
+      if (options.json) {
+        displayJsonStatus(statuses);
+        return;
+      }
+
+      displayStatus(statuses);
+    } catch (error) {
+      handleError(error, { exit: true });
+    }
+  });
@@ -0,0 +1,34 @@
+/**
+ * status 命令类型定义
+ */
+
+import type { LocalChanges, LoadingEntry } from "../../types/index.js";
+
+/**
+ * status 命令选项
+ */
+export interface StatusOptions {
+  /** 以 JSON 格式输出 */
+  json?: boolean;
+}
+
+/**
+ * 加载条目的本地状态
+ * - clean: 与加载时一致
+ * - modified: 存在本地修改
+ * - missing: 目标目录不存在
+ * - unknown: 没有文件快照，无法判断
+ */
+export type EntryState = "clean" | "modified" | "missing" | "unknown";
+
+/**
+ * 单个加载条目的状态
+ */
+export interface EntryStatus {
+  /** 加载条目 */
+  entry: LoadingEntry;
+  /** 本地状态 */
+  state: EntryState;
+  /** 本地修改（state 为 modified 时） */
+  changes?: LocalChanges;
+}
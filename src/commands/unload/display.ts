@@ -6,17 +6,21 @@ import chalk from "chalk";
 import { select } from "@inquirer/prompts";
 import { LoadingEntry } from "../../types/index.js";
 import { padEnd } from "../../ui/table.js";
+import { formatSubdirs } from "../../ui/format.js";
+import { redactCredentials } from "../../utils/redact.js";
 import { EmptyDir } from "./types.js";
 
 /**
  * 交互式仓库条目选择
  * @param matches 匹配的条目列表
  * @param name 用户输入的名称
+ * @param message 选择提示文本
  * @returns 用户选择的条目，如果取消则返回 null
  */
 export async function selectEntry(
   matches: LoadingEntry[],
   name: string,
+  message = "Select reference code to remove:",
 ): Promise<LoadingEntry | null> {
   console.log(
     chalk.yellow(`Found ${matches.length} reference code matching '${name}':`),
@@ -25,7 +29,7 @@ export async function selectEntry(
 
   try {
     const selected = await select({
-      message: "Select reference code to remove:",
+      message,
       choices: [
         ...matches.map((match) => ({
           name: `${match.repoName} -> ${match.targetPath}`,
@@ -76,7 +80,7 @@ export function displayLoadedEntries(
 
   // 条目列表
   for (const entry of loadedEntries) {
-    const repoName = entry.repoName.replace(/\\/g, "/");
+    const repoName = (entry.repoName || "(unknown)").replace(/\\/g, "/");
     const targetPath = entry.targetPath.replace(/\\/g, "/");
     const commitShort = entry.commitId ? entry.commitId.substring(0, 7) : "-";
     console.log(
@@ -93,16 +97,20 @@ export function displayLoadedEntries(
   if (verbose) {
     console.log(chalk.gray("Details:"));
     for (const entry of loadedEntries) {
-      console.log(chalk.gray(`  - ${entry.repoName}`));
+      console.log(chalk.gray(`  - ${entry.repoName || "(unknown)"}`));
       console.log(chalk.gray(`    ID: ${entry.id}`));
-      console.log(chalk.gray(`    URL: ${entry.repoUrl}`));
+      console.log(
+        chalk.gray(
+          `    URL: ${entry.repoUrl ? redactCredentials(entry.repoUrl) : "-"}`,
+        ),
+      );
       console.log(chalk.gray(`    Path: ${entry.targetPath}`));
       console.log(chalk.gray(`    Commit: ${entry.commitId}`));
       if (entry.branch) {
         console.log(chalk.gray(`    Branch: ${entry.branch}`));
       }
-      if (entry.subdir) {
-        console.log(chalk.gray(`    Subdir: ${entry.subdir}`));
+      if (entry.subdir || entry.subdirs) {
+        console.log(chalk.gray(`    Subdir: ${formatSubdirs(entry)}`));
       }
       console.log(chalk.gray(`    Loaded at: ${entry.loadedAt}`));
       if (entry.updatedAt) {
@@ -6,6 +6,8 @@ import path from "path";
 import chalk from "chalk";
 import * as filesystem from "../../../core/filesystem.js";
 import * as loading from "../../../core/loading.js";
+import { removeManifestEntry } from "../../../core/manifest.js";
+import { removeLockEntry } from "../../../core/lockfile.js";
 import { startSpinner } from "../../../ui/spinner.js";
 import { confirm } from "../../../ui/prompt.js";
 import { UnloadContext, PathToDelete } from "../types.js";
@@ -141,6 +143,16 @@ export async function handleRemoveAll(
         : pathInfo.entry.targetPath + "/";
       await filesystem.removeFromGitignore(cwd, gitignoreEntry);
 
+      // 从项目清单 grf.json 和锁文件 grf.lock 中移除条目
+      await removeManifestEntry(
+        pathInfo.entry.workingDirectory || cwd,
+        pathInfo.entry.targetPath,
+      );
+      await removeLockEntry(
+        pathInfo.entry.workingDirectory || cwd,
+        pathInfo.entry.targetPath,
+      );
+
       deletedCount++;
     }
 
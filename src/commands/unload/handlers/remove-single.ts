@@ -7,6 +7,9 @@ import chalk from "chalk";
 import * as filesystem from "../../../core/filesystem.js";
 import * as loading from "../../../core/loading.js";
 import { markAsUnloaded } from "../../../core/loading-state.js";
+import { removeManifestEntry } from "../../../core/manifest.js";
+import { removeLockEntry } from "../../../core/lockfile.js";
+import { removeSnapshot } from "../../../core/snapshot.js";
 import { LoadingEntry } from "../../../types/index.js";
 import { startSpinner } from "../../../ui/spinner.js";
 import { confirm } from "../../../ui/prompt.js";
@@ -165,6 +168,11 @@ export async function handleRemoveSingle(
       targetEntry.workingDirectory || cwd,
       targetEntry.targetPath,
     );
+    await removeSnapshot(targetEntry.id);
+
+    // 从项目清单 grf.json 和锁文件 grf.lock 中移除条目
+    await removeManifestEntry(baseDir, targetEntry.targetPath);
+    await removeLockEntry(baseDir, targetEntry.targetPath);
 
     // 从 .gitignore 中清理对应条目
     const gitignoreEntry = targetEntry.targetPath.endsWith("/")
@@ -6,6 +6,8 @@ import path from "path";
 import chalk from "chalk";
 import * as filesystem from "../../core/filesystem.js";
 import * as loading from "../../core/loading.js";
+import { removeManifestEntry } from "../../core/manifest.js";
+import { removeLockEntry } from "../../core/lockfile.js";
 import { LoadingEntry } from "../../types/index.js";
 import { EmptyDir } from "./types.js";
 import { DIR_NAMES } from "../../utils/constants.js";
@@ -267,3 +269,32 @@ export async function cleanupGitignore(
     }
   }
 }
+
+/**
+ * 卸载任意项目中的一个参考代码
+ * 删除目标目录（及空的父目录），并从 loading.json、文件快照、grf.json、grf.lock
+ * 和项目的 .gitignore 中移除对应记录
+ * @param entry 加载条目
+ */
+export async function unloadEntry(entry: LoadingEntry): Promise<void> {
+  const baseDir = entry.workingDirectory || process.cwd();
+  const absolutePath = path.resolve(baseDir, entry.targetPath);
+
+  if (await filesystem.exists(absolutePath)) {
+    await filesystem.removeDir(absolutePath);
+    // 在 .gitreference 下清理到 .gitreference 为止，自定义路径清理到项目目录为止
+    const stopAt = entry.targetPath.startsWith(GITREFERENCE_DIR + "/")
+      ? path.join(baseDir, GITREFERENCE_DIR)
+      : baseDir;
+    await removeEmptyParents(absolutePath, stopAt);
+  }
+
+  await loading.removeEntry(entry.id);
+  await removeManifestEntry(baseDir, entry.targetPath);
+  await removeLockEntry(baseDir, entry.targetPath);
+
+  const gitignoreEntry = entry.targetPath.endsWith("/")
+    ? entry.targetPath
+    : entry.targetPath + "/";
+  await filesystem.removeFromGitignore(baseDir, gitignoreEntry);
+}
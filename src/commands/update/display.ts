@@ -8,8 +8,9 @@ import {
   type SyncStatus,
   type SyncResult,
 } from "../../core/sync.js";
-import { shortCommit } from "../../ui/format.js";
+import { shortCommit, formatPin } from "../../ui/format.js";
 import { UpdateStatus, UpdateResult } from "./types.js";
+import type { LocalChanges } from "../../types/index.js";
 
 /**
  * 获取状态图标
@@ -22,6 +23,10 @@ export function getStatusIcon(status: UpdateStatus): string {
       return chalk.yellow("⬆");
     case "updated":
       return chalk.green("✓");
+    case "rewritten":
+      return chalk.yellow("↻");
+    case "pinned":
+      return chalk.gray("-");
     case "error":
       return chalk.red("✗");
   }
@@ -40,11 +45,35 @@ export function getStatusText(result: UpdateResult): string {
       return chalk.green(
         `updated (${shortCommit(result.oldCommit!)} → ${shortCommit(result.newCommit!)})`,
       );
+    case "rewritten":
+      return chalk.yellow(
+        `history rewritten upstream (${shortCommit(result.oldCommit!)} → ${shortCommit(result.newCommit!)}, previous HEAD saved as ${result.backupRef})`,
+      );
+    case "pinned":
+      return chalk.gray(`pinned to ${formatPin(result)}`);
     case "error":
       return chalk.red(`error: ${result.error}`);
   }
 }
 
+/**
+ * 显示按分支检出的工作树的更新结果
+ * @param results 工作树的更新结果
+ */
+export function displayCheckoutResults(results: UpdateResult[]): void {
+  if (results.length === 0) {
+    return;
+  }
+
+  console.log();
+  console.log(`  ${chalk.gray("Worktrees:")}`);
+  for (const result of results) {
+    console.log(
+      `    ${getStatusIcon(result.status)} ${result.branch}  ${getStatusText(result)}`,
+    );
+  }
+}
+
 /**
  * 获取同步状态文本
  */
@@ -137,6 +166,22 @@ export async function showSyncStatus(): Promise<void> {
   }
 }
 
+/**
+ * 显示会被同步覆盖的本地修改
+ * @param changes 本地修改
+ */
+function displayLocalChanges(changes: LocalChanges): void {
+  for (const file of changes.modified) {
+    console.log(chalk.yellow(`    M ${file}`));
+  }
+  for (const file of changes.added) {
+    console.log(chalk.green(`    A ${file}`));
+  }
+  for (const file of changes.deleted) {
+    console.log(chalk.red(`    D ${file}`));
+  }
+}
+
 /**
  * 显示同步结果
  */
@@ -152,8 +197,17 @@ export function displaySyncResults(results: SyncResult[]): void {
       } else {
         console.log(chalk.gray(`- ${result.repoName}: ${result.message}`));
       }
+      for (const file of result.merged ?? []) {
+        console.log(chalk.green(`    merged   ${file}`));
+      }
+      for (const file of result.conflicts ?? []) {
+        console.log(chalk.red(`    conflict ${file}`));
+      }
     } else {
       console.log(chalk.red(`✗ ${result.repoName}: ${result.message}`));
+      if (result.localChanges) {
+        displayLocalChanges(result.localChanges);
+      }
     }
   }
 
@@ -162,6 +216,22 @@ export function displaySyncResults(results: SyncResult[]): void {
     `Sync complete: ${successCount} succeeded` +
       (failCount > 0 ? `, ${failCount} failed` : ""),
   );
+
+  if (results.some((r) => r.localChanges)) {
+    console.log(
+      chalk.gray(
+        "\nLocal changes were found. Re-run with --merge to keep them, or with --force to overwrite them; the files listed above will be lost.",
+      ),
+    );
+  }
+
+  if (results.some((r) => r.conflicts && r.conflicts.length > 0)) {
+    console.log(
+      chalk.yellow(
+        "\nSome files have merge conflicts. Resolve the conflict markers in the files listed above.",
+      ),
+    );
+  }
 }
 
 /**
@@ -24,7 +24,10 @@ export async function handleSyncOnly(context: UpdateContext): Promise<boolean> {
   }
 
   const spinner = startSpinner("Syncing to workspace...");
-  const results = await syncAll(context.force);
+  const results = await syncAll({
+    force: context.force,
+    merge: context.merge,
+  });
   spinner.stop();
 
   if (results.length === 0) {
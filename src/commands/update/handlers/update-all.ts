@@ -5,9 +5,9 @@
 import chalk from "chalk";
 import * as repository from "../../../core/repository.js";
 import { syncAll } from "../../../core/sync.js";
-import { createSpinner } from "../../../ui/spinner.js";
+import { createProgressHandler, createSpinner } from "../../../ui/spinner.js";
 import { UpdateContext, UpdateResult } from "../types.js";
-import { updateRepo } from "../helpers.js";
+import { listBranchCheckouts, updateRepo } from "../helpers.js";
 import {
   getStatusIcon,
   getStatusText,
@@ -38,7 +38,11 @@ export async function handleUpdateAll(context: UpdateContext): Promise<void> {
 
   for (const repo of repos) {
     const spinner = createSpinner(`  ${repo.name}`).start();
-    const result = await updateRepo(repo, context.checkOnly);
+    const result = await updateRepo(
+      repo,
+      context.checkOnly,
+      createProgressHandler(spinner, `  ${repo.name}`),
+    );
     results.push(result);
 
     // 更新 spinner 显示结果
@@ -48,14 +52,34 @@ export async function handleUpdateAll(context: UpdateContext): Promise<void> {
       symbol: icon,
       text: `${repo.name}     ${statusText}`,
     });
+
+    // 同时更新按分支检出的工作树（沿用主检出目录的子模块设置）
+    for (const checkout of await listBranchCheckouts(repo)) {
+      const label = `${repo.name} (${checkout.branch})`;
+      const checkoutSpinner = createSpinner(`  ${label}`).start();
+      const checkoutResult = await updateRepo(
+        { ...checkout, recursive: repo.recursive },
+        context.checkOnly,
+        createProgressHandler(checkoutSpinner, `  ${label}`),
+      );
+      results.push(checkoutResult);
+      checkoutSpinner.stopAndPersist({
+        symbol: getStatusIcon(checkoutResult.status),
+        text: `${label}     ${getStatusText(checkoutResult)}`,
+      });
+    }
   }
 
   // 统计结果
-  const updatedCount = results.filter((r) => r.status === "updated").length;
+  const updatedCount = results.filter(
+    (r) => r.status === "updated" || r.status === "rewritten",
+  ).length;
+  const rewrittenCount = results.filter((r) => r.status === "rewritten").length;
   const hasUpdatesCount = results.filter(
     (r) => r.status === "has-updates",
   ).length;
   const errorCount = results.filter((r) => r.status === "error").length;
+  const pinnedCount = results.filter((r) => r.status === "pinned").length;
 
   console.log();
 
@@ -63,7 +87,7 @@ export async function handleUpdateAll(context: UpdateContext): Promise<void> {
     if (hasUpdatesCount > 0) {
       console.log(
         chalk.yellow(
-          `${hasUpdatesCount} repository${hasUpdatesCount > 1 ? "ies have" : " has"} updates available.`,
+          `${hasUpdatesCount} ${hasUpdatesCount === 1 ? "repository has" : "repositories have"} updates available.`,
         ),
       );
     } else if (errorCount === 0) {
@@ -73,7 +97,7 @@ export async function handleUpdateAll(context: UpdateContext): Promise<void> {
     if (updatedCount > 0) {
       console.log(
         chalk.green(
-          `${updatedCount} repository${updatedCount > 1 ? "ies" : ""} updated.`,
+          `${updatedCount} ${updatedCount === 1 ? "repository" : "repositories"} updated.`,
         ),
       );
     } else if (errorCount === 0) {
@@ -81,10 +105,26 @@ export async function handleUpdateAll(context: UpdateContext): Promise<void> {
     }
   }
 
+  if (rewrittenCount > 0) {
+    console.log(
+      chalk.yellow(
+        `${rewrittenCount > 1 ? `${rewrittenCount} repositories were` : "1 repository was"} reset because history was rewritten upstream. Previous commits are saved under refs/grf/backup/.`,
+      ),
+    );
+  }
+
+  if (pinnedCount > 0) {
+    console.log(
+      chalk.gray(
+        `${pinnedCount} pinned ${pinnedCount === 1 ? "repository" : "repositories"} skipped. Use \`grf update <name> --ref <ref>\` to move a pin.`,
+      ),
+    );
+  }
+
   if (errorCount > 0) {
     console.log(
       chalk.red(
-        `${errorCount} repository${errorCount > 1 ? "ies" : ""} failed to update.`,
+        `${errorCount} ${errorCount === 1 ? "repository" : "repositories"} failed to update.`,
       ),
     );
     process.exit(1);
@@ -97,7 +137,10 @@ export async function handleUpdateAll(context: UpdateContext): Promise<void> {
       await showDryRunSync(context.force);
     } else {
       console.log(chalk.bold("Syncing to workspace...\n"));
-      const syncResults = await syncAll(context.force);
+      const syncResults = await syncAll({
+        force: context.force,
+        merge: context.merge,
+      });
 
       if (syncResults.length === 0) {
         console.log(chalk.gray("No loaded reference code needs syncing."));
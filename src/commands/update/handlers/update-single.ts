@@ -5,11 +5,11 @@
 import chalk from "chalk";
 import * as repository from "../../../core/repository.js";
 import { getAllSyncStatus, syncAll } from "../../../core/sync.js";
-import { shortCommit } from "../../../ui/format.js";
-import { startSpinner } from "../../../ui/spinner.js";
+import { shortCommit, formatPin } from "../../../ui/format.js";
+import { createProgressHandler, startSpinner } from "../../../ui/spinner.js";
 import { UpdateContext } from "../types.js";
-import { updateRepo } from "../helpers.js";
-import { displaySyncResults } from "../display.js";
+import { updateRepo, updateBranchCheckouts, moveRepoRef } from "../helpers.js";
+import { displayCheckoutResults, displaySyncResults } from "../display.js";
 
 /**
  * 处理更新单个仓库
@@ -35,7 +35,14 @@ export async function handleUpdateSingle(
     process.exit(1);
   }
 
-  const result = await updateRepo(repoInfo, context.checkOnly);
+  // --ref: 移动固定引用；否则按分支更新（固定的仓库保持不动）
+  const result = context.ref
+    ? await moveRepoRef(repoInfo, context.ref, context.checkOnly)
+    : await updateRepo(
+        repoInfo,
+        context.checkOnly,
+        createProgressHandler(spinner, "Checking for updates..."),
+      );
 
   if (result.status === "error") {
     spinner.fail(chalk.red("Update failed"));
@@ -43,6 +50,15 @@ export async function handleUpdateSingle(
     process.exit(1);
   }
 
+  // 同时更新按分支检出的工作树（移动固定引用时不涉及）
+  const checkoutResults = context.ref
+    ? []
+    : await updateBranchCheckouts(
+        repoInfo,
+        context.checkOnly,
+        createProgressHandler(spinner, "Checking worktrees..."),
+      );
+
   if (result.status === "up-to-date") {
     spinner.succeed(chalk.green("Repository is up-to-date"));
     console.log();
@@ -50,6 +66,17 @@ export async function handleUpdateSingle(
     console.log(
       `  ${chalk.gray("Commit:")}     ${shortCommit(repoInfo.commitId)}...`,
     );
+  } else if (result.status === "pinned") {
+    spinner.info(chalk.blue("Repository is pinned, skipping update"));
+    console.log();
+    console.log(`  ${chalk.gray("Name:")}       ${repoInfo.name}`);
+    console.log(`  ${chalk.gray("Pinned to:")}  ${formatPin(result)}`);
+    console.log();
+    console.log(
+      chalk.gray(
+        `  Use \`grf update ${name} --ref <ref>\` to move the pin, or \`grf load ${name} --branch <branch>\` to follow a branch.`,
+      ),
+    );
   } else if (result.status === "has-updates") {
     spinner.succeed(chalk.yellow("Updates available"));
     console.log();
@@ -59,8 +86,14 @@ export async function handleUpdateSingle(
     );
     console.log();
     console.log(chalk.gray("  Run without --check to apply updates."));
-  } else if (result.status === "updated") {
-    spinner.succeed(chalk.green("Repository updated!"));
+  } else if (result.status === "updated" || result.status === "rewritten") {
+    if (result.status === "rewritten") {
+      spinner.warn(
+        chalk.yellow("History rewritten upstream, repository reset!"),
+      );
+    } else {
+      spinner.succeed(chalk.green("Repository updated!"));
+    }
     console.log();
     console.log(`  ${chalk.gray("Name:")}       ${repoInfo.name}`);
     console.log(
@@ -69,6 +102,9 @@ export async function handleUpdateSingle(
     console.log(
       `  ${chalk.gray("New Commit:")} ${shortCommit(result.newCommit!)}...`,
     );
+    if (result.backupRef) {
+      console.log(`  ${chalk.gray("Backup:")}     ${result.backupRef}`);
+    }
 
     // --sync: 更新后同步到工作区
     if (context.doSync) {
@@ -80,7 +116,10 @@ export async function handleUpdateSingle(
         );
       } else {
         const syncSpinner = startSpinner("Syncing to workspace...");
-        const syncResults = await syncAll(context.force);
+        const syncResults = await syncAll({
+          force: context.force,
+          merge: context.merge,
+        });
         syncSpinner.stop();
 
         // 仅显示与当前仓库相关的同步结果
@@ -97,9 +136,13 @@ export async function handleUpdateSingle(
     }
   }
 
+  displayCheckoutResults(checkoutResults);
+
   // 如果仓库已是最新但用户指定了 --sync，也执行同步
   if (
-    (result.status === "up-to-date" || result.status === "has-updates") &&
+    (result.status === "up-to-date" ||
+      result.status === "has-updates" ||
+      result.status === "pinned") &&
     context.doSync &&
     !context.checkOnly
   ) {
@@ -133,7 +176,10 @@ export async function handleUpdateSingle(
       );
     } else {
       const syncSpinner = startSpinner("Syncing to workspace...");
-      const syncResults = await syncAll(context.force);
+      const syncResults = await syncAll({
+        force: context.force,
+        merge: context.merge,
+      });
       syncSpinner.stop();
 
       const relevantResults = syncResults.filter(
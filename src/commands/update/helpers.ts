@@ -2,29 +2,50 @@
  * update 命令辅助函数
  */
 
-import * as git from "../../core/git.js";
+import { getGitBackend } from "../../core/git-backend.js";
+import * as repository from "../../core/repository.js";
 import { readRepoMeta, writeRepoMeta } from "../../core/config.js";
+import type { GitProgressHandler } from "../../core/git.js";
 import type { RepoInfo } from "../../core/repository.js";
 import { UpdateResult } from "./types.js";
 
+/** 远程历史被改写时保存旧 HEAD 的引用前缀 */
+const BACKUP_REF_PREFIX = "refs/grf/backup/";
+
 /**
  * 更新单个仓库
+ * 能快进时直接快进；远程历史被改写（force push、rebase）时，将旧 HEAD 保存到
+ * refs/grf/backup/<branch>/<commit> 后重置到 origin/<branch>。
+ * 固定到标签或 commit 的仓库不会被移动；启用子模块的仓库更新后同步更新子模块
  * @param repoInfo 仓库信息
  * @param checkOnly 是否仅检查更新
+ * @param onProgress 获取进度回调
  * @returns 更新结果
  */
 export async function updateRepo(
   repoInfo: RepoInfo,
   checkOnly: boolean,
+  onProgress?: GitProgressHandler,
 ): Promise<UpdateResult> {
   const repoPath = repoInfo.path;
   const oldCommit = repoInfo.commitId;
 
+  if (repoInfo.ref) {
+    return {
+      name: repoInfo.name,
+      status: "pinned",
+      tag: repoInfo.tag,
+      ref: repoInfo.ref,
+    };
+  }
+
   try {
     // 检查更新
-    const hasUpdates = await git.hasUpdates(repoPath);
+    const upstream = await getGitBackend().getUpstreamStatus(repoPath, {
+      onProgress,
+    });
 
-    if (!hasUpdates) {
+    if (upstream === "up-to-date") {
       return { name: repoInfo.name, status: "up-to-date" };
     }
 
@@ -33,10 +54,21 @@ export async function updateRepo(
     }
 
     // 执行更新
-    await git.pull(repoPath);
+    let backupRef: string | undefined;
+    if (upstream === "behind") {
+      await getGitBackend().fastForward(repoPath);
+    } else {
+      backupRef = await getGitBackend().resetToUpstream(
+        repoPath,
+        BACKUP_REF_PREFIX,
+      );
+    }
+    if (repoInfo.recursive) {
+      await getGitBackend().updateSubmodules(repoPath, { onProgress });
+    }
 
     // 更新元信息
-    const newCommit = await git.getCurrentCommit(repoPath);
+    const newCommit = await getGitBackend().getCurrentCommit(repoPath);
     const meta = await readRepoMeta(repoPath);
     if (meta) {
       meta.commitId = newCommit;
@@ -46,9 +78,91 @@ export async function updateRepo(
 
     return {
       name: repoInfo.name,
-      status: "updated",
+      status: backupRef ? "rewritten" : "updated",
       oldCommit,
       newCommit,
+      backupRef,
+    };
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return {
+      name: repoInfo.name,
+      status: "error",
+      error: errorMessage,
+    };
+  }
+}
+
+/**
+ * 列出仓库按分支检出的工作树（通过 grf load --branch 加载的其他分支）
+ * 标签/commit 的工作树固定不动，不参与更新
+ * @param repoInfo 仓库信息
+ * @returns 分支工作树的仓库信息
+ */
+export async function listBranchCheckouts(
+  repoInfo: RepoInfo,
+): Promise<RepoInfo[]> {
+  const checkouts = await repository.listCheckouts(repoInfo);
+  return checkouts.filter((checkout) => !checkout.ref);
+}
+
+/**
+ * 更新仓库按分支检出的工作树
+ * @param repoInfo 仓库信息
+ * @param checkOnly 是否仅检查更新
+ * @param onProgress 获取/拉取进度回调
+ * @returns 各工作树的更新结果
+ */
+export async function updateBranchCheckouts(
+  repoInfo: RepoInfo,
+  checkOnly: boolean,
+  onProgress?: GitProgressHandler,
+): Promise<UpdateResult[]> {
+  const results: UpdateResult[] = [];
+  for (const checkout of await listBranchCheckouts(repoInfo)) {
+    // 工作树沿用主检出目录的子模块设置
+    const result = await updateRepo(
+      { ...checkout, recursive: repoInfo.recursive },
+      checkOnly,
+      onProgress,
+    );
+    results.push({ ...result, branch: checkout.branch });
+  }
+  return results;
+}
+
+/**
+ * 将固定的仓库移动到新的标签或 commit
+ * @param repoInfo 仓库信息
+ * @param ref 新的标签名或 commit SHA
+ * @param checkOnly 是否仅检查（不检出）
+ * @returns 更新结果
+ */
+export async function moveRepoRef(
+  repoInfo: RepoInfo,
+  ref: string,
+  checkOnly: boolean,
+): Promise<UpdateResult> {
+  if (checkOnly) {
+    return {
+      name: repoInfo.name,
+      status: repoInfo.ref === ref ? "up-to-date" : "has-updates",
+    };
+  }
+
+  try {
+    const updated = await repository.checkoutRef(repoInfo.name, ref);
+
+    if (updated.commitId === repoInfo.commitId) {
+      return { name: repoInfo.name, status: "up-to-date" };
+    }
+
+    return {
+      name: repoInfo.name,
+      status: "updated",
+      oldCommit: repoInfo.commitId,
+      newCommit: updated.commitId,
     };
   } catch (error) {
     const errorMessage =
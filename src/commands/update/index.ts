@@ -4,6 +4,7 @@
  */
 
 import { Command } from "commander";
+import chalk from "chalk";
 import { handleError } from "../../utils/error.js";
 import {
   checkOption,
@@ -11,7 +12,9 @@ import {
   syncOption,
   syncOnlyOption,
   forceOption,
+  mergeOption,
   dryRunOption,
+  refOption,
 } from "../options/index.js";
 import { UpdateOptions, UpdateContext } from "./types.js";
 import {
@@ -37,13 +40,16 @@ export const updateCommand = new Command("update")
   .addOption(syncOption)
   .addOption(syncOnlyOption)
   .addOption(forceOption)
+  .addOption(mergeOption)
   .addOption(dryRunOption)
+  .addOption(refOption)
   .action(async (name: string | undefined, options: UpdateOptions) => {
     const checkOnly = options.check ?? false;
     const showStatus = options.status ?? false;
     const doSync = options.sync ?? false;
     const syncOnly = options.syncOnly ?? false;
     const force = options.force ?? false;
+    const merge = options.merge ?? false;
     const dryRun = options.dryRun ?? false;
 
     // 构建上下文
@@ -55,9 +61,31 @@ export const updateCommand = new Command("update")
       doSync,
       syncOnly,
       force,
+      merge,
       dryRun,
+      ref: options.ref,
     };
 
+    // --ref 只能用于移动单个仓库的固定引用
+    if (context.ref && !context.name) {
+      console.error(
+        chalk.red(
+          `${chalk.bold("✗")} --ref requires a repository name: grf update <name> --ref <ref>`,
+        ),
+      );
+      process.exit(1);
+    }
+
+    // --merge 只作用于同步到工作区
+    if (context.merge && !context.doSync && !context.syncOnly) {
+      console.error(
+        chalk.red(
+          `${chalk.bold("✗")} --merge requires --sync or --sync-only: grf update --sync --merge`,
+        ),
+      );
+      process.exit(1);
+    }
+
     try {
       // --status: 显示同步状态
       if (await handleStatus(context)) {
@@ -5,7 +5,13 @@
 /**
  * 更新结果状态
  */
-export type UpdateStatus = "up-to-date" | "has-updates" | "updated" | "error";
+export type UpdateStatus =
+  | "up-to-date"
+  | "has-updates"
+  | "updated"
+  | "rewritten"
+  | "pinned"
+  | "error";
 
 /**
  * 更新结果
@@ -15,12 +21,20 @@ export interface UpdateResult {
   name: string;
   /** 更新状态 */
   status: UpdateStatus;
-  /** 旧的 commit ID（仅当状态为 'updated' 时） */
+  /** 旧的 commit ID（仅当状态为 'updated' 或 'rewritten' 时） */
   oldCommit?: string;
-  /** 新的 commit ID（仅当状态为 'updated' 时） */
+  /** 新的 commit ID（仅当状态为 'updated' 或 'rewritten' 时） */
   newCommit?: string;
+  /** 保存旧 HEAD 的备份引用（仅当状态为 'rewritten' 时） */
+  backupRef?: string;
+  /** 固定的标签（仅当状态为 'pinned' 时） */
+  tag?: string;
+  /** 固定的引用（仅当状态为 'pinned' 时） */
+  ref?: string;
   /** 错误消息（仅当状态为 'error' 时） */
   error?: string;
+  /** 分支工作树的分支名（仅当结果来自按分支检出的工作树时） */
+  branch?: string;
 }
 
 /**
@@ -32,7 +46,9 @@ export interface UpdateOptions {
   sync?: boolean;
   syncOnly?: boolean;
   force?: boolean;
+  merge?: boolean;
   dryRun?: boolean;
+  ref?: string;
 }
 
 /**
@@ -53,6 +69,10 @@ export interface UpdateContext {
   syncOnly: boolean;
   /** 是否强制 */
   force: boolean;
+  /** 同步时是否三方合并本地修改 */
+  merge: boolean;
   /** 是否 dry-run 模式 */
   dryRun: boolean;
+  /** 要移动到的标签或 commit */
+  ref?: string;
 }
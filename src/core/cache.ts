@@ -0,0 +1,228 @@
+/**
+ * 缓存管理模块
+ * 汇总每个缓存仓库占用的空间、历史深度，以及在 loading.json 中被哪些项目加载；
+ * 并负责将缓存整体迁移到其他目录
+ */
+
+import path from "path";
+import { ErrorCode, GrfError, type LoadingEntry } from "../types/index.js";
+import { getReposRoot, readGlobalConfig, writeGlobalConfig } from "./config.js";
+import { storageRootConfig } from "./config-manager.js";
+import * as fs from "./filesystem.js";
+import { getGitBackend } from "./git-backend.js";
+import * as loading from "./loading.js";
+import {
+  clearStorageRootCache,
+  getGrfRoot,
+  getMirrorsDir,
+  getStorageRoot,
+  getWorktreesDir,
+} from "./paths.js";
+import * as repository from "./repository.js";
+import type { RepoInfo } from "./repository.js";
+
+/**
+ * 缓存仓库的使用情况
+ */
+export interface RepoUsage {
+  /** 仓库信息 */
+  repo: RepoInfo;
+  /** 占用的磁盘空间（字节），包括镜像与工作树 */
+  size: number;
+  /** 浅克隆深度（完整历史时为空） */
+  depth?: number;
+  /** 最近一次加载的时间（从未加载时为空） */
+  lastLoadedAt?: string;
+  /** 加载了该仓库的项目目录 */
+  projects: string[];
+  /** 指向该仓库的加载条目数量 */
+  entryCount: number;
+}
+
+/**
+ * 获取加载条目所属的项目
+ * 旧版条目没有记录工作目录，以目标路径区分
+ * @param entry 加载条目
+ * @returns 项目目录
+ */
+function getEntryProject(entry: LoadingEntry): string {
+  return entry.workingDirectory ?? entry.targetPath;
+}
+
+/**
+ * 统计单个仓库的使用情况
+ * @param repo 仓库信息
+ * @param entries 指向该仓库的加载条目
+ * @returns 使用情况
+ */
+async function getRepoUsage(
+  repo: RepoInfo,
+  entries: LoadingEntry[],
+): Promise<RepoUsage> {
+  const loadedAt = entries.map((entry) => entry.loadedAt).sort();
+
+  return {
+    repo,
+    size: await repository.getRepoDiskUsage(repo),
+    depth: await repository.getHistoryDepth(repo),
+    lastLoadedAt: loadedAt[loadedAt.length - 1],
+    projects: [...new Set(entries.map(getEntryProject))],
+    entryCount: entries.length,
+  };
+}
+
+/**
+ * 统计所有缓存仓库的使用情况
+ * @returns 各仓库的使用情况（按仓库列表顺序）
+ */
+export async function getCacheUsage(): Promise<RepoUsage[]> {
+  const repos = await repository.list();
+  const entries = await loading.getEntries();
+
+  const usage: RepoUsage[] = [];
+  for (const repo of repos) {
+    usage.push(
+      await getRepoUsage(
+        repo,
+        entries.filter((entry) => entry.repoName === repo.name),
+      ),
+    );
+  }
+  return usage;
+}
+
+/**
+ * 缓存迁移结果
+ */
+export interface CacheMove {
+  /** 原缓存存储根目录 */
+  from: string;
+  /** 新缓存存储根目录 */
+  to: string;
+  /** 更新了路径的仓库数量 */
+  repoCount: number;
+  /** 修复工作树路径失败的错误信息（仓库已移动，但需要重新添加才能加载其他引用） */
+  repairErrors: string[];
+}
+
+/**
+ * 检查路径是否位于目录之中（或就是该目录）
+ * @param target 路径
+ * @param dir 目录
+ * @returns 是否位于目录之中
+ */
+function isInside(target: string, dir: string): boolean {
+  const relative = path.relative(dir, target);
+  return !relative.startsWith("..") && !path.isAbsolute(relative);
+}
+
+/**
+ * 将原存储根目录下的路径换算到新存储根目录
+ * 不在原存储根目录下的路径保持不变
+ * @param filePath 路径
+ * @param from 原存储根目录
+ * @param to 新存储根目录
+ * @returns 换算后的路径
+ */
+function relocatePath(filePath: string, from: string, to: string): string {
+  return isInside(filePath, from)
+    ? path.join(to, path.relative(from, filePath))
+    : filePath;
+}
+
+/**
+ * 修复移动后各仓库镜像与工作树之间互相记录的路径
+ * 旧版缓存没有镜像，检出目录是独立的克隆，不需要修复
+ * @returns 修复失败的错误信息
+ */
+async function repairWorktrees(): Promise<string[]> {
+  const errors: string[] = [];
+  for (const repo of await repository.list()) {
+    const mirrorPath = repository.getRepoMirrorPath(repo.url);
+    if (!(await fs.exists(mirrorPath))) {
+      continue;
+    }
+    try {
+      const checkouts = await repository.listCheckouts(repo);
+      await getGitBackend().repairWorktrees(mirrorPath, [
+        repo.path,
+        ...checkouts.map((checkout) => checkout.path),
+      ]);
+    } catch (error) {
+      errors.push(`${repo.name}: ${(error as Error).message}`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * 将缓存（repos/、mirrors/、worktrees/）移动到新的存储根目录
+ * 移动后更新 storageRoot 配置和每个仓库索引条目的路径；
+ * 配置、仓库索引和加载记录仍保留在 grf 根目录中
+ * @param dest 新的存储根目录
+ * @returns 迁移结果
+ * @throws GrfError 如果目标目录无效或已有缓存，移动失败时已移动的目录会被移回
+ */
+export async function moveStorage(dest: string): Promise<CacheMove> {
+  const from = getStorageRoot();
+  const to = path.resolve(dest);
+
+  if (to === from) {
+    throw new GrfError(ErrorCode.INVALID_ARGUMENT, `缓存已位于该目录: ${to}`);
+  }
+
+  const dirs = [getReposRoot(), getMirrorsDir(), getWorktreesDir()];
+  for (const dir of dirs) {
+    if (isInside(to, dir)) {
+      throw new GrfError(
+        ErrorCode.INVALID_ARGUMENT,
+        `目标目录不能位于缓存目录中: ${to}`,
+      );
+    }
+    const target = path.join(to, path.basename(dir));
+    if (await fs.exists(target)) {
+      throw new GrfError(
+        ErrorCode.INVALID_ARGUMENT,
+        `目标目录已存在: ${target}`,
+      );
+    }
+  }
+
+  // 逐个移动，失败时将已移动的目录移回，保持缓存可用
+  const moved: string[] = [];
+  try {
+    for (const dir of dirs) {
+      if (await fs.exists(dir)) {
+        await fs.moveDir(dir, path.join(to, path.basename(dir)));
+        moved.push(dir);
+      }
+    }
+  } catch (error) {
+    for (const dir of moved.reverse()) {
+      await fs.moveDir(path.join(to, path.basename(dir)), dir);
+    }
+    throw error;
+  }
+
+  const config = await readGlobalConfig();
+  for (const entry of Object.values(config.repos)) {
+    entry.path = relocatePath(entry.path, from, to);
+  }
+  // 先更新 storageRoot，写入配置时才会在新位置创建 repos 目录；
+  // 迁回 grf 根目录时不再需要该配置
+  config.storageRoot = to === getGrfRoot() ? undefined : to;
+  if (config.storageRoot) {
+    await storageRootConfig.set(config.storageRoot);
+  } else {
+    await storageRootConfig.delete();
+  }
+  clearStorageRootCache();
+  await writeGlobalConfig(config);
+
+  return {
+    from,
+    to,
+    repoCount: Object.keys(config.repos).length,
+    repairErrors: await repairWorktrees(),
+  };
+}
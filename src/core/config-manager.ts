@@ -168,6 +168,30 @@ export const shallowDepthConfig = new ConfigManager<number>(
   CONFIG_DEFAULTS.SHALLOW_DEPTH,
 );
 
+/** grf gc 默认空间上限配置管理器（未设置时不限制） */
+export const gcMaxSizeConfig = new ConfigManager<string | undefined>(
+  getConfigFilePath(CONFIG_FILES.GC_MAX_SIZE),
+  undefined,
+);
+
+/** grf gc 默认闲置时长配置管理器（未设置时不限制） */
+export const gcOlderThanConfig = new ConfigManager<string | undefined>(
+  getConfigFilePath(CONFIG_FILES.GC_OLDER_THAN),
+  undefined,
+);
+
+/** grf gc 默认是否淘汰未被加载的仓库配置管理器 */
+export const gcUnusedConfig = new ConfigManager<boolean | undefined>(
+  getConfigFilePath(CONFIG_FILES.GC_UNUSED),
+  undefined,
+);
+
+/** 缓存存储根目录配置管理器（未设置时使用 grf 根目录） */
+export const storageRootConfig = new ConfigManager<string | undefined>(
+  getConfigFilePath(CONFIG_FILES.STORAGE_ROOT),
+  undefined,
+);
+
 // ============================================================================
 // 便捷函数
 // ============================================================================
@@ -178,6 +202,10 @@ export interface AllConfigs {
   defaultBranch: string;
   shallowClone: boolean;
   shallowDepth: number;
+  gcMaxSize?: string;
+  gcOlderThan?: string;
+  gcUnused?: boolean;
+  storageRoot?: string;
 }
 
 /**
@@ -186,19 +214,35 @@ export interface AllConfigs {
  * @returns 包含所有配置值的对象
  */
 export async function getAllConfigs(): Promise<AllConfigs> {
-  const [version, defaultBranch, shallowClone, shallowDepth] =
-    await Promise.all([
-      versionConfig.get(),
-      defaultBranchConfig.get(),
-      shallowCloneConfig.get(),
-      shallowDepthConfig.get(),
-    ]);
+  const [
+    version,
+    defaultBranch,
+    shallowClone,
+    shallowDepth,
+    gcMaxSize,
+    gcOlderThan,
+    gcUnused,
+    storageRoot,
+  ] = await Promise.all([
+    versionConfig.get(),
+    defaultBranchConfig.get(),
+    shallowCloneConfig.get(),
+    shallowDepthConfig.get(),
+    gcMaxSizeConfig.get(),
+    gcOlderThanConfig.get(),
+    gcUnusedConfig.get(),
+    storageRootConfig.get(),
+  ]);
 
   return {
     version,
     defaultBranch,
     shallowClone,
     shallowDepth,
+    gcMaxSize,
+    gcOlderThan,
+    gcUnused,
+    storageRoot,
   };
 }
 
@@ -228,5 +272,21 @@ export async function setAllConfigs(
     promises.push(shallowDepthConfig.set(configs.shallowDepth));
   }
 
+  if (configs.gcMaxSize !== undefined) {
+    promises.push(gcMaxSizeConfig.set(configs.gcMaxSize));
+  }
+
+  if (configs.gcOlderThan !== undefined) {
+    promises.push(gcOlderThanConfig.set(configs.gcOlderThan));
+  }
+
+  if (configs.gcUnused !== undefined) {
+    promises.push(gcUnusedConfig.set(configs.gcUnused));
+  }
+
+  if (configs.storageRoot !== undefined) {
+    promises.push(storageRootConfig.set(configs.storageRoot));
+  }
+
   await Promise.all(promises);
 }
@@ -17,6 +17,7 @@ import { GlobalConfig, RepoMeta, GrfError, ErrorCode } from "../types/index.js";
 // 导入新的模块化组件
 import {
   getGrfRoot as getGrfRootFromPaths,
+  getStorageRoot,
   ensureGrfDirs,
   getLegacyConfigPath,
 } from "./paths.js";
@@ -51,10 +52,10 @@ export function getGrfRoot(): string {
 
 /**
  * 获取仓库存储根目录
- * @returns 仓库存储目录的绝对路径 (~/.gitreference/repos/)
+ * @returns 仓库存储目录的绝对路径 ({storageRoot}/repos/)
  */
 export function getReposRoot(): string {
-  return path.join(getGrfRoot(), REPOS_DIR_NAME);
+  return path.join(getStorageRoot(), REPOS_DIR_NAME);
 }
 
 /**
@@ -132,6 +133,10 @@ export async function readGlobalConfig(): Promise<GlobalConfig> {
       defaultBranch: configs.defaultBranch,
       shallowClone: configs.shallowClone,
       shallowDepth: configs.shallowDepth,
+      gcMaxSize: configs.gcMaxSize,
+      gcOlderThan: configs.gcOlderThan,
+      gcUnused: configs.gcUnused,
+      storageRoot: configs.storageRoot,
       repos,
     };
   } catch (error) {
@@ -168,6 +173,10 @@ export async function writeGlobalConfig(config: GlobalConfig): Promise<void> {
       defaultBranch: config.defaultBranch,
       shallowClone: config.shallowClone,
       shallowDepth: config.shallowDepth,
+      gcMaxSize: config.gcMaxSize,
+      gcOlderThan: config.gcOlderThan,
+      gcUnused: config.gcUnused,
+      storageRoot: config.storageRoot,
     });
 
     // 使用新模块保存仓库列表
@@ -0,0 +1,83 @@
+/**
+ * Git 凭据助手
+ * git.ts 调用 git 时将本脚本注册为 credential.helper，git 需要认证时以
+ * `<node> credential-helper.js get` 执行本脚本，并通过标准输入传入 protocol、host 等字段
+ *
+ * 只为 HTTPS 请求返回凭据（避免令牌经明文 HTTP 发送），store/erase 请求直接忽略
+ */
+
+import { getCredential } from "./credentials.js";
+
+/**
+ * 解析 git 凭据协议的输入
+ * @param input 标准输入内容（每行 key=value，以空行结束）
+ * @returns 字段映射
+ */
+function parseCredentialRequest(input: string): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const line of input.split("\n")) {
+    const index = line.indexOf("=");
+    if (index > 0) {
+      fields[line.slice(0, index)] = line.slice(index + 1).trim();
+    }
+  }
+  return fields;
+}
+
+/**
+ * 处理一次凭据请求
+ * @param operation 操作（get、store 或 erase）
+ * @param input 标准输入内容
+ * @returns 需要写到标准输出的内容（没有可用凭据时为空字符串）
+ * @throws GrfError 如果凭据文件权限过于宽松或格式错误
+ */
+async function handleCredentialRequest(
+  operation: string,
+  input: string,
+): Promise<string> {
+  if (operation !== "get") {
+    return "";
+  }
+
+  const { protocol, host } = parseCredentialRequest(input);
+  if (protocol !== "https" || !host) {
+    return "";
+  }
+
+  const credential = await getCredential(host);
+  return credential
+    ? `username=${credential.username}\npassword=${credential.token}\n`
+    : "";
+}
+
+/**
+ * 读取标准输入
+ * @returns 标准输入内容
+ */
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString("utf-8");
+}
+
+/**
+ * 脚本入口
+ * 出错时只输出到标准错误（git 会将其包含在失败信息中），不返回凭据
+ */
+async function main(): Promise<void> {
+  try {
+    const output = await handleCredentialRequest(
+      process.argv[2] ?? "",
+      await readStdin(),
+    );
+    process.stdout.write(output);
+  } catch (error) {
+    process.stderr.write(`grf: ${(error as Error).message}\n`);
+  }
+}
+
+if (require.main === module) {
+  void main();
+}
@@ -0,0 +1,315 @@
+/**
+ * 缓存一致性检查模块
+ * 检查仓库索引、缓存目录、元信息、loading.json 与项目 .gitignore 之间的不一致，
+ * 并逐类修复
+ */
+
+import path from "path";
+import type { LoadingEntry, RepoEntry } from "../types/index.js";
+import {
+  getReposRoot,
+  readGlobalConfig,
+  readRepoMeta,
+  writeRepoMeta,
+} from "./config.js";
+import * as fs from "./filesystem.js";
+import { getGitBackend } from "./git-backend.js";
+import * as loading from "./loading.js";
+import { getMirrorsDir, getWorktreesDir, GRF_DIR_NAME } from "./paths.js";
+import * as repository from "./repository.js";
+
+/**
+ * 一致性问题
+ * - orphaned-dir: 缓存目录（repos/、mirrors/、worktrees/ 下）没有对应的索引条目
+ * - missing-dir: 索引条目指向的检出目录不存在
+ * - missing-meta / corrupt-meta: 检出目录中的元信息文件缺失或无法解析
+ * - stale-loading: 加载条目所属的项目或加载目标已不存在
+ * - unresolved-loading: 从旧版加载状态迁移时无法确定来源仓库的加载条目
+ * - missing-gitignore: 项目 .gitignore 缺少加载时写入的条目
+ */
+export type DoctorIssue =
+  | { kind: "orphaned-dir"; path: string }
+  | { kind: "missing-dir"; repoName: string; path: string }
+  | {
+      kind: "missing-meta" | "corrupt-meta";
+      repoName: string;
+      repo: RepoEntry;
+    }
+  | {
+      kind: "stale-loading";
+      entry: LoadingEntry;
+      /** 已不存在的是项目目录还是加载目标 */
+      missing: "project" | "target";
+    }
+  | { kind: "unresolved-loading"; entry: LoadingEntry }
+  | { kind: "missing-gitignore"; project: string; line: string };
+
+/** 一致性问题的类别 */
+export type DoctorIssueKind = DoctorIssue["kind"];
+
+/**
+ * 检查目录树中是否没有任何文件
+ * 删除仓库后残留的空父目录不视为孤立目录
+ * @param dirPath 路径
+ * @returns 是否为空目录树
+ */
+async function isEmptyTree(dirPath: string): Promise<boolean> {
+  if (!(await fs.isDirectory(dirPath))) {
+    return false;
+  }
+  for (const name of await fs.readDir(dirPath)) {
+    if (!(await isEmptyTree(path.join(dirPath, name)))) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * 查找目录下没有被引用的条目
+ * @param dirPath 当前扫描的目录
+ * @param expected 被引用的路径
+ * @param ancestors 被引用路径的上级目录（需要继续向下扫描）
+ * @returns 孤立的路径
+ */
+async function scanOrphans(
+  dirPath: string,
+  expected: Set<string>,
+  ancestors: Set<string>,
+): Promise<string[]> {
+  if (!(await fs.exists(dirPath))) {
+    return [];
+  }
+
+  const orphans: string[] = [];
+  for (const name of await fs.readDir(dirPath)) {
+    const fullPath = path.join(dirPath, name);
+    if (expected.has(fullPath)) {
+      continue;
+    }
+    if (ancestors.has(fullPath) && (await fs.isDirectory(fullPath))) {
+      orphans.push(...(await scanOrphans(fullPath, expected, ancestors)));
+    } else if (!(await isEmptyTree(fullPath))) {
+      orphans.push(fullPath);
+    }
+  }
+  return orphans;
+}
+
+/**
+ * 检查某个存储根目录下的孤立目录
+ * @param root 存储根目录
+ * @param paths 索引中引用的路径
+ * @returns 孤立的路径
+ */
+async function findOrphans(root: string, paths: string[]): Promise<string[]> {
+  const expected = new Set(paths.map((p) => path.resolve(p)));
+  const ancestors = new Set<string>();
+  for (const p of expected) {
+    for (
+      let dir = path.dirname(p);
+      dir.startsWith(root);
+      dir = path.dirname(dir)
+    ) {
+      ancestors.add(dir);
+    }
+  }
+  return scanOrphans(root, expected, ancestors);
+}
+
+/**
+ * 检查缓存目录与仓库索引是否一致
+ * @param repos 仓库索引
+ * @returns 发现的问题
+ */
+async function checkRepos(
+  repos: Record<string, RepoEntry>,
+): Promise<DoctorIssue[]> {
+  const issues: DoctorIssue[] = [];
+
+  for (const [repoName, repo] of Object.entries(repos)) {
+    if (!(await fs.exists(repo.path))) {
+      issues.push({ kind: "missing-dir", repoName, path: repo.path });
+      continue;
+    }
+    try {
+      if (!(await readRepoMeta(repo.path))) {
+        issues.push({ kind: "missing-meta", repoName, repo });
+      }
+    } catch {
+      issues.push({ kind: "corrupt-meta", repoName, repo });
+    }
+  }
+
+  // URL 无法解析的条目没有可推断的镜像路径，不参与镜像目录的检查
+  const mirrors: string[] = [];
+  for (const repo of Object.values(repos)) {
+    try {
+      mirrors.push(repository.getRepoMirrorPath(repo.url));
+    } catch {
+      // 忽略
+    }
+  }
+
+  const orphans = [
+    ...(await findOrphans(
+      getReposRoot(),
+      Object.values(repos).map((repo) => repo.path),
+    )),
+    ...(await findOrphans(getMirrorsDir(), mirrors)),
+    ...(await findOrphans(
+      getWorktreesDir(),
+      Object.keys(repos).map(repository.getCheckoutsDir),
+    )),
+  ];
+  issues.push(
+    ...orphans.map((p) => ({ kind: "orphaned-dir" as const, path: p })),
+  );
+
+  return issues;
+}
+
+/**
+ * 获取加载条目在项目 .gitignore 中应有的条目
+ * 与 load 写入的条目一致：始终忽略 .gitreference/，自定义目标额外忽略目标目录
+ * @param entry 加载条目
+ * @returns .gitignore 条目
+ */
+function getGitignoreLines(entry: LoadingEntry): string[] {
+  const target = entry.targetPath.replace(/\\/g, "/");
+  const line = target.endsWith("/") ? target : `${target}/`;
+  const ignoreDir = `${GRF_DIR_NAME}/`;
+  return line.startsWith(ignoreDir) ? [ignoreDir] : [ignoreDir, line];
+}
+
+/**
+ * 检查 .gitignore 中是否已有某个条目
+ * 手动写成 /dir/ 或 dir 的形式同样视为已忽略
+ * @param lines .gitignore 中的行（已去除首尾空白）
+ * @param line 条目
+ * @returns 是否已有该条目
+ */
+function hasGitignoreLine(lines: Set<string>, line: string): boolean {
+  const bare = line.replace(/\/$/, "");
+  return [line, bare, `/${line}`, `/${bare}`].some((l) => lines.has(l));
+}
+
+/**
+ * 检查加载条目及其所属项目的 .gitignore
+ * 来源仓库未知的条目单独报告；旧版条目没有记录工作目录，无法确定所属项目，不参与其余检查
+ * @param entries 加载条目
+ * @returns 发现的问题
+ */
+async function checkLoadingEntries(
+  entries: LoadingEntry[],
+): Promise<DoctorIssue[]> {
+  const issues: DoctorIssue[] = [];
+  const ignored = new Map<string, Set<string>>();
+
+  for (const entry of entries) {
+    if (entry.unresolved) {
+      issues.push({ kind: "unresolved-loading", entry });
+      continue;
+    }
+    const project = entry.workingDirectory;
+    if (!project) {
+      continue;
+    }
+    if (!(await fs.exists(project))) {
+      issues.push({ kind: "stale-loading", entry, missing: "project" });
+      continue;
+    }
+    if (!(await fs.exists(path.resolve(project, entry.targetPath)))) {
+      issues.push({ kind: "stale-loading", entry, missing: "target" });
+      continue;
+    }
+
+    let lines = ignored.get(project);
+    if (!lines) {
+      lines = new Set(await fs.readGitignore(project));
+      ignored.set(project, lines);
+    }
+
+    for (const line of getGitignoreLines(entry)) {
+      if (!hasGitignoreLine(lines, line)) {
+        issues.push({ kind: "missing-gitignore", project, line });
+        // 同一项目的同一条目只报告一次
+        lines.add(line);
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * 检查缓存与加载状态的一致性
+ * @returns 发现的问题（按检查顺序）
+ */
+export async function diagnose(): Promise<DoctorIssue[]> {
+  const config = await readGlobalConfig();
+  return [
+    ...(await checkRepos(config.repos)),
+    ...(await checkLoadingEntries(await loading.getEntries())),
+  ];
+}
+
+/**
+ * 根据检出目录中的 Git 状态重建仓库元信息
+ * 稀疏检出路径、子模块和浅克隆深度无法从检出目录还原，保持为空
+ * @param repoName 仓库名称
+ * @param repo 仓库索引条目
+ */
+async function rebuildRepoMeta(
+  repoName: string,
+  repo: RepoEntry,
+): Promise<void> {
+  const commitId = await getGitBackend().getCurrentCommit(repo.path);
+  const branch = await getGitBackend().getBranch(repo.path);
+  const now = new Date().toISOString();
+
+  await writeRepoMeta(repo.path, {
+    url: repo.url,
+    name: repoName,
+    addedAt: repo.addedAt,
+    updatedAt: now,
+    commitId,
+    // 分离 HEAD 时固定到当前 commit
+    ...(branch === "HEAD" ? { ref: commitId } : { branch }),
+  });
+}
+
+/**
+ * 修复一个一致性问题
+ * - 孤立目录：删除
+ * - 目录缺失：从索引中移除该仓库，并删除残留的镜像和工作树
+ * - 元信息缺失或损坏：检出目录仍是 Git 仓库时重建元信息，否则按目录缺失处理
+ * - 过期或来源未知的加载条目：从 loading.json 中移除（项目清单保留，grf install 可重新加载）
+ * - .gitignore 缺少条目：补写该条目
+ * @param issue 一致性问题
+ */
+export async function fixIssue(issue: DoctorIssue): Promise<void> {
+  switch (issue.kind) {
+    case "orphaned-dir":
+      await fs.removeDir(issue.path);
+      return;
+    case "missing-dir":
+      await repository.purge(issue.repoName);
+      return;
+    case "missing-meta":
+    case "corrupt-meta":
+      if (await getGitBackend().isGitRepo(issue.repo.path)) {
+        await rebuildRepoMeta(issue.repoName, issue.repo);
+      } else {
+        await repository.purge(issue.repoName);
+      }
+      return;
+    case "stale-loading":
+    case "unresolved-loading":
+      await loading.removeEntry(issue.entry.id);
+      return;
+    case "missing-gitignore":
+      await fs.updateGitignore(issue.project, issue.line);
+      return;
+  }
+}
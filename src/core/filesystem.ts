@@ -3,39 +3,116 @@
  * 封装文件系统操作，提供复制、删除等功能
  */
 
+import { createHash } from "crypto";
 import fs from "fs-extra";
+import os from "os";
 import path from "path";
 import { ErrorCode, GrfError } from "../types/index.js";
+import type { PathFilter } from "./glob.js";
+
+/**
+ * 复制参考代码时在任意层级排除的目录（Git 数据）
+ */
+export const REFERENCE_EXCLUDES = [".git"];
+
+/**
+ * 复制参考代码时仅在仓库根部排除的文件（grf 元信息文件）
+ */
+export const REFERENCE_ROOT_EXCLUDES = [
+  "meta.json",
+  ".grf-meta.json",
+  ".gitreference-meta.json",
+];
+
+/**
+ * Git LFS 指针文件的首行（未下载 LFS 内容时检出的占位文件）
+ */
+const LFS_POINTER_HEADER = "version https://git-lfs.github.com/spec/v1";
+
+/**
+ * Git LFS 指针文件的最大字节数
+ */
+const LFS_POINTER_MAX_SIZE = 1024;
 
 /**
  * 复制选项接口
  */
 export interface CopyOptions {
-  /** 要排除的文件/目录模式（如 ['.git', 'node_modules']） */
+  /** 在任意层级排除的文件/目录名（如 ['.git', 'node_modules']） */
   exclude?: string[];
+  /** 仅在源目录根部排除的文件/目录名 */
+  rootExclude?: string[];
+  /** 按相对路径过滤文件，返回 false 的文件不复制并计入过滤数量 */
+  filter?: PathFilter;
   /** 是否覆盖已存在的文件 */
   overwrite?: boolean;
 }
 
+/**
+ * 复制统计
+ */
+export interface CopyStats {
+  /** 已复制的文件数量 */
+  copied: number;
+  /** 被 filter 过滤掉的文件数量 */
+  filtered: number;
+  /** 复制的文件中 Git LFS 指针文件的数量（LFS 内容未下载） */
+  lfsPointers: number;
+}
+
 /**
  * 复制目录
  * @param src 源目录路径
  * @param dest 目标目录路径
  * @param options 复制选项
+ * @returns 复制统计
  */
 export async function copyDir(
   src: string,
   dest: string,
   options?: CopyOptions,
-): Promise<void> {
+): Promise<CopyStats> {
+  const stats: CopyStats = { copied: 0, filtered: 0, lfsPointers: 0 };
+
+  const walk = async (current: string, prefix: string): Promise<void> => {
+    const entries = await fs.readdir(current, { withFileTypes: true });
+    for (const entry of entries) {
+      if (options?.exclude?.includes(entry.name)) {
+        continue;
+      }
+      if (!prefix && options?.rootExclude?.includes(entry.name)) {
+        continue;
+      }
+
+      const srcPath = path.join(current, entry.name);
+      const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name;
+
+      if (entry.isDirectory()) {
+        await walk(srcPath, relativePath);
+        continue;
+      }
+
+      if (options?.filter && !options.filter(relativePath)) {
+        stats.filtered++;
+        continue;
+      }
+
+      // 符号链接按链接本身复制，不跟随
+      await fs.copy(srcPath, path.join(dest, relativePath), {
+        overwrite: options?.overwrite ?? true,
+      });
+      stats.copied++;
+      if (entry.isFile() && (await isLfsPointer(srcPath))) {
+        stats.lfsPointers++;
+      }
+    }
+  };
+
   try {
-    await fs.copy(src, dest, {
-      overwrite: options?.overwrite ?? true,
-      filter: (srcPath: string) => {
-        const basename = path.basename(srcPath);
-        return !options?.exclude?.includes(basename);
-      },
-    });
+    await walk(src, "");
+    // 所有文件都被过滤时仍创建目标目录
+    await fs.ensureDir(dest);
+    return stats;
   } catch (error) {
     const err = error as NodeJS.ErrnoException;
     if (err.code === "ENOENT") {
@@ -60,6 +137,47 @@ export async function copyDir(
   }
 }
 
+/**
+ * 检查文件是否为 Git LFS 指针文件
+ * @param filePath 文件路径
+ * @returns 是否为 LFS 指针文件
+ */
+export async function isLfsPointer(filePath: string): Promise<boolean> {
+  const stat = await fs.stat(filePath);
+  if (stat.size > LFS_POINTER_MAX_SIZE) {
+    return false;
+  }
+  const content = await fs.readFile(filePath, "utf-8");
+  return content.startsWith(LFS_POINTER_HEADER);
+}
+
+/**
+ * 计算目录占用的空间（所有文件大小之和，不跟随符号链接）
+ * @param dirPath 目录路径
+ * @returns 字节数（目录不存在时为 0）
+ */
+export async function getDirSize(dirPath: string): Promise<number> {
+  if (!(await fs.pathExists(dirPath))) {
+    return 0;
+  }
+
+  let total = 0;
+  const walk = async (current: string): Promise<void> => {
+    const entries = await fs.readdir(current, { withFileTypes: true });
+    for (const entry of entries) {
+      const entryPath = path.join(current, entry.name);
+      if (entry.isDirectory()) {
+        await walk(entryPath);
+      } else {
+        total += (await fs.lstat(entryPath)).size;
+      }
+    }
+  };
+
+  await walk(dirPath);
+  return total;
+}
+
 /**
  * 复制单个文件
  * @param src 源文件路径
@@ -118,6 +236,41 @@ export async function removeDir(dirPath: string): Promise<void> {
   }
 }
 
+/**
+ * 移动目录（跨磁盘时自动复制后删除源目录）
+ * @param src 源目录路径
+ * @param dest 目标目录路径（不能已存在）
+ */
+export async function moveDir(src: string, dest: string): Promise<void> {
+  try {
+    await fs.ensureDir(path.dirname(dest));
+    await fs.move(src, dest);
+  } catch (error) {
+    const err = error as NodeJS.ErrnoException;
+    if (err.code === "EACCES" || err.code === "EPERM") {
+      throw new GrfError(
+        ErrorCode.FS_PERMISSION_DENIED,
+        `权限被拒绝，无法移动: ${src}`,
+        err,
+      );
+    }
+    throw new GrfError(
+      ErrorCode.FS_COPY_FAILED,
+      `移动目录失败: ${src} -> ${dest}`,
+      err,
+    );
+  }
+}
+
+/**
+ * 在系统临时目录中创建唯一的临时目录
+ * @param prefix 目录名前缀
+ * @returns 临时目录的绝对路径
+ */
+export async function createTempDir(prefix: string): Promise<string> {
+  return fs.mkdtemp(path.join(os.tmpdir(), prefix));
+}
+
 /**
  * 检查路径是否存在
  * @param filePath 要检查的路径
@@ -302,6 +455,28 @@ export async function isDirectory(filePath: string): Promise<boolean> {
   }
 }
 
+/**
+ * 读取 .gitignore 文件中的条目
+ * @param dir 目录路径（包含 .gitignore 的目录）
+ * @returns 去除首尾空白后的各行，文件不存在时返回空数组
+ */
+export async function readGitignore(dir: string): Promise<string[]> {
+  const gitignorePath = path.join(dir, ".gitignore");
+  try {
+    if (!(await fs.pathExists(gitignorePath))) {
+      return [];
+    }
+    const content = await fs.readFile(gitignorePath, "utf-8");
+    return content.split("\n").map((line) => line.trim());
+  } catch (error) {
+    throw new GrfError(
+      ErrorCode.FS_PATH_NOT_FOUND,
+      `读取 .gitignore 失败: ${dir}`,
+      error as Error,
+    );
+  }
+}
+
 /**
  * 从 .gitignore 文件中移除指定条目
  * @param dir 目录路径（包含 .gitignore 的目录）
@@ -407,3 +582,87 @@ export async function removeFromGitignore(
     return false;
   }
 }
+
+/**
+ * 递归列出目录下的所有文件（不含目录本身）
+ * @param dirPath 目录路径
+ * @returns 相对路径数组（使用正斜杠，已排序）
+ */
+export async function listFiles(dirPath: string): Promise<string[]> {
+  const files: string[] = [];
+
+  const walk = async (current: string, prefix: string): Promise<void> => {
+    const entries = await fs.readdir(current, { withFileTypes: true });
+    for (const entry of entries) {
+      const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        await walk(path.join(current, entry.name), relativePath);
+      } else {
+        files.push(relativePath);
+      }
+    }
+  };
+
+  await walk(dirPath, "");
+  return files.sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+}
+
+/**
+ * 计算目录下每个文件的内容哈希
+ * @param dirPath 目录路径
+ * @returns 相对路径（使用正斜杠，已排序）到 sha256 十六进制哈希的映射
+ */
+export async function hashFiles(
+  dirPath: string,
+): Promise<Record<string, string>> {
+  try {
+    const hashes: Record<string, string> = {};
+
+    for (const file of await listFiles(dirPath)) {
+      const filePath = path.join(dirPath, file);
+      const stat = await fs.lstat(filePath);
+      // 符号链接只记录其指向，不跟随
+      const content = stat.isSymbolicLink()
+        ? Buffer.from(await fs.readlink(filePath))
+        : await fs.readFile(filePath);
+      hashes[file] = createHash("sha256").update(content).digest("hex");
+    }
+
+    return hashes;
+  } catch (error) {
+    const err = error as NodeJS.ErrnoException;
+    if (err.code === "ENOENT") {
+      throw new GrfError(
+        ErrorCode.FS_PATH_NOT_FOUND,
+        `目录不存在: ${dirPath}`,
+        err,
+      );
+    }
+    throw new GrfError(
+      ErrorCode.FS_COPY_FAILED,
+      `计算文件哈希失败: ${dirPath}`,
+      err,
+    );
+  }
+}
+
+/**
+ * 计算目录内容哈希
+ * 基于每个文件的相对路径和内容计算，与文件时间戳无关
+ * @param dirPath 目录路径
+ * @returns 形如 sha256-<base64> 的完整性哈希
+ */
+export async function hashDirectory(dirPath: string): Promise<string> {
+  const fileHashes = await hashFiles(dirPath);
+  const hash = createHash("sha256");
+
+  // 按路径排序，避免对象键顺序（如纯数字文件名）影响结果
+  const files = Object.keys(fileHashes).sort((a, b) =>
+    a < b ? -1 : a > b ? 1 : 0,
+  );
+  for (const file of files) {
+    hash.update(`${file}\0${fileHashes[file]}\n`);
+  }
+
+  return `sha256-${hash.digest("base64")}`;
+}
@@ -0,0 +1,174 @@
+/**
+ * 缓存回收模块
+ * 按空间上限、闲置时间和是否被加载挑选需要淘汰的缓存仓库（最久未使用的优先），
+ * 并清理保留下来的仓库
+ */
+
+import type { RepoUsage } from "./cache.js";
+import { getGitBackend } from "./git-backend.js";
+import * as repository from "./repository.js";
+import type { RepoInfo } from "./repository.js";
+
+/** 空间单位（按 1024 进位，与 formatBytes 一致） */
+const SIZE_UNITS: Record<string, number> = {
+  B: 1,
+  K: 1024,
+  M: 1024 ** 2,
+  G: 1024 ** 3,
+  T: 1024 ** 4,
+};
+
+/** 时间单位（毫秒） */
+const DURATION_UNITS: Record<string, number> = {
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * 回收策略
+ * 各项策略同时生效，满足任一项的仓库都会被淘汰
+ */
+export interface GcPolicy {
+  /** 缓存总空间上限（字节），超出时从最久未使用的仓库开始淘汰 */
+  maxSize?: number;
+  /** 超过该时长（毫秒）未使用的仓库会被淘汰 */
+  olderThan?: number;
+  /** 是否淘汰没有被任何项目加载的仓库 */
+  unused?: boolean;
+  /** 是否允许淘汰仍被项目加载的仓库 */
+  includeLoaded?: boolean;
+}
+
+/** 仓库被淘汰的原因 */
+export type EvictionReason = "unused" | "older-than" | "max-size";
+
+/**
+ * 待淘汰的仓库
+ */
+export interface Eviction {
+  /** 仓库的使用情况 */
+  usage: RepoUsage;
+  /** 淘汰原因 */
+  reason: EvictionReason;
+}
+
+/**
+ * 回收计划
+ */
+export interface GcPlan {
+  /** 需要淘汰的仓库（按最久未使用排序） */
+  evict: Eviction[];
+  /** 保留的仓库 */
+  keep: RepoUsage[];
+}
+
+/**
+ * 解析空间大小（如 500M、1.5GB、1024）
+ * @param value 空间大小文本，省略单位时为字节
+ * @returns 字节数，格式无效时返回 null
+ */
+export function parseSize(value: string): number | null {
+  const match = /^(\d+(?:\.\d+)?)\s*([BKMGT]?)B?$/i.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const unit = match[2] ? match[2].toUpperCase() : "B";
+  return Math.floor(parseFloat(match[1]) * SIZE_UNITS[unit]);
+}
+
+/**
+ * 解析时长（如 12h、30d、2w）
+ * @param value 时长文本
+ * @returns 毫秒数，格式无效时返回 null
+ */
+export function parseDuration(value: string): number | null {
+  const match = /^(\d+)\s*([hdw])$/i.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  return parseInt(match[1], 10) * DURATION_UNITS[match[2].toLowerCase()];
+}
+
+/**
+ * 获取仓库最近一次被使用的时间
+ * 以最近一次加载为准，从未加载过的仓库以添加时间为准
+ * @param usage 仓库的使用情况
+ * @returns 时间戳（毫秒）
+ */
+export function getLastUsedAt(usage: RepoUsage): number {
+  const addedAt = new Date(usage.repo.addedAt).getTime();
+  if (!usage.lastLoadedAt) {
+    return addedAt;
+  }
+  return Math.max(addedAt, new Date(usage.lastLoadedAt).getTime());
+}
+
+/**
+ * 按回收策略挑选需要淘汰的仓库
+ * 仍被项目加载的仓库只有在 includeLoaded 时才会被淘汰
+ * @param usage 各仓库的使用情况
+ * @param policy 回收策略
+ * @param now 当前时间（毫秒）
+ * @returns 回收计划
+ */
+export function planGc(
+  usage: RepoUsage[],
+  policy: GcPolicy,
+  now = Date.now(),
+): GcPlan {
+  // 最久未使用的排在前面
+  const candidates = [...usage].sort(
+    (a, b) => getLastUsedAt(a) - getLastUsedAt(b),
+  );
+  const evicted = new Map<RepoUsage, EvictionReason>();
+
+  for (const item of candidates) {
+    if (item.entryCount > 0 && !policy.includeLoaded) {
+      continue;
+    }
+    if (policy.unused && item.entryCount === 0) {
+      evicted.set(item, "unused");
+    } else if (
+      policy.olderThan !== undefined &&
+      now - getLastUsedAt(item) > policy.olderThan
+    ) {
+      evicted.set(item, "older-than");
+    }
+  }
+
+  if (policy.maxSize !== undefined) {
+    let total = candidates
+      .filter((item) => !evicted.has(item))
+      .reduce((sum, item) => sum + item.size, 0);
+    for (const item of candidates) {
+      if (total <= policy.maxSize) {
+        break;
+      }
+      if (evicted.has(item) || (item.entryCount > 0 && !policy.includeLoaded)) {
+        continue;
+      }
+      evicted.set(item, "max-size");
+      total -= item.size;
+    }
+  }
+
+  return {
+    evict: candidates
+      .filter((item) => evicted.has(item))
+      .map((item) => ({ usage: item, reason: evicted.get(item)! })),
+    keep: usage.filter((item) => !evicted.has(item)),
+  };
+}
+
+/**
+ * 清理保留的仓库：回收已删除工作树的登记信息和不可达的对象
+ * @param repoInfo 仓库信息
+ * @returns 清理释放的空间（字节）
+ */
+export async function compactRepository(repoInfo: RepoInfo): Promise<number> {
+  const before = await repository.getRepoDiskUsage(repoInfo);
+  await getGitBackend().gc(await repository.getRepoGitDir(repoInfo));
+  const after = await repository.getRepoDiskUsage(repoInfo);
+  return Math.max(0, before - after);
+}
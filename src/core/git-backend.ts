@@ -0,0 +1,266 @@
+/**
+ * Git 后端模块
+ * 定义核心模块使用的 Git 操作接口，默认由 git 命令行实现（git.ts），
+ * 可通过 setGitBackend 替换为其他实现（如测试中的 FakeGitBackend）
+ */
+
+import * as git from "./git.js";
+import type {
+  CloneOptions,
+  DiffOptions,
+  GitCommandOptions,
+  RemoteRef,
+  UpstreamStatus,
+  WorktreeOptions,
+} from "./git.js";
+
+/**
+ * Git 后端接口
+ * 所有路径参数均为本地仓库（或工作树）的绝对路径
+ */
+export interface GitBackend {
+  // ============ 克隆与远程同步 ============
+
+  /** 克隆仓库到 dest */
+  clone(url: string, dest: string, options?: CloneOptions): Promise<void>;
+
+  /** 创建裸镜像，返回检出的分支名（未指定时为远程默认分支） */
+  cloneMirror(
+    url: string,
+    mirrorPath: string,
+    options?: CloneOptions,
+  ): Promise<string>;
+
+  /** 初始化并递归更新子模块 */
+  updateSubmodules(
+    repoPath: string,
+    options?: GitCommandOptions,
+  ): Promise<void>;
+
+  /** 获取远程更新（不合并） */
+  fetch(repoPath: string, options?: GitCommandOptions): Promise<void>;
+
+  /** 获取远程更新并比较当前分支与 origin/<branch> */
+  getUpstreamStatus(
+    repoPath: string,
+    options?: GitCommandOptions,
+  ): Promise<UpstreamStatus>;
+
+  /** 快进当前分支到 origin/<branch> */
+  fastForward(repoPath: string, options?: GitCommandOptions): Promise<void>;
+
+  /** 保存原 HEAD 到备份引用 <prefix><branch>/<commit> 后，将当前分支重置到 origin/<branch>，返回备份引用 */
+  resetToUpstream(
+    repoPath: string,
+    backupPrefix: string,
+    options?: GitCommandOptions,
+  ): Promise<string>;
+
+  /** 下载并检出 Git LFS 对象（include 为空时下载全部） */
+  lfsPull(
+    repoPath: string,
+    include: string[],
+    options?: GitCommandOptions,
+  ): Promise<void>;
+
+  /** 获取指定分支的远程更新到 origin/<branch> */
+  fetchBranch(
+    repoPath: string,
+    branch: string,
+    options?: GitCommandOptions,
+  ): Promise<void>;
+
+  /** 确保本地存在标签或 commit，不存在时从远程获取 */
+  fetchRef(
+    repoPath: string,
+    ref: string,
+    options?: GitCommandOptions,
+  ): Promise<void>;
+
+  /** 从远程获取指定 commit */
+  fetchCommit(
+    repoPath: string,
+    commit: string,
+    options?: GitCommandOptions,
+  ): Promise<void>;
+
+  /** 加深浅克隆仓库的历史 */
+  deepen(
+    repoPath: string,
+    commits: number,
+    options?: GitCommandOptions,
+  ): Promise<void>;
+
+  /** 获取浅克隆仓库的完整历史 */
+  unshallow(repoPath: string, options?: GitCommandOptions): Promise<void>;
+
+  /** 将历史截断到指定深度并回收空间 */
+  reshallow(
+    repoPath: string,
+    depth: number,
+    options?: GitCommandOptions,
+  ): Promise<void>;
+
+  /** 列出远程仓库的引用（ls-remote） */
+  lsRemote(url: string, options?: GitCommandOptions): Promise<RemoteRef[]>;
+
+  /** 列出远程分支名称 */
+  listRemoteBranches(repoPath: string): Promise<string[]>;
+
+  // ============ 检出 ============
+
+  /** 切换到指定分支 */
+  checkout(
+    repoPath: string,
+    branch: string,
+    options?: GitCommandOptions,
+  ): Promise<void>;
+
+  /** 以分离 HEAD 方式检出标签或 commit */
+  checkoutRef(
+    repoPath: string,
+    ref: string,
+    options?: GitCommandOptions,
+  ): Promise<void>;
+
+  /** 设置稀疏检出的路径（cone 模式） */
+  setSparseCheckout(repoPath: string, paths: string[]): Promise<void>;
+
+  /** 关闭稀疏检出 */
+  disableSparseCheckout(repoPath: string): Promise<void>;
+
+  /** 创建工作树（指定分支时跟踪远程分支，否则为分离 HEAD） */
+  addWorktree(
+    repoPath: string,
+    dest: string,
+    start: string,
+    options?: WorktreeOptions,
+  ): Promise<void>;
+
+  /** 移除工作树 */
+  removeWorktree(repoPath: string, dest: string): Promise<void>;
+
+  /** 仓库或工作树移动位置后，修复仓库与工作树之间互相记录的路径 */
+  repairWorktrees(repoPath: string, worktrees: string[]): Promise<void>;
+
+  // ============ 查询（rev-parse 等） ============
+
+  /** 获取 HEAD 的完整 commit SHA */
+  getCurrentCommit(repoPath: string): Promise<string>;
+
+  /** 获取当前分支名（分离 HEAD 时为 "HEAD"） */
+  getBranch(repoPath: string): Promise<string>;
+
+  /** 获取 origin 的 URL */
+  getRemoteUrl(repoPath: string): Promise<string>;
+
+  /** 检查路径是否是 Git 仓库 */
+  isGitRepo(path: string): Promise<boolean>;
+
+  /** 检查引用是否为本地已存在的标签 */
+  isTag(repoPath: string, ref: string): Promise<boolean>;
+
+  /** 检查仓库中是否存在指定 commit */
+  hasCommit(repoPath: string, commit: string): Promise<boolean>;
+
+  /** 检查仓库是否为浅克隆 */
+  isShallow(repoPath: string): Promise<boolean>;
+
+  // ============ 维护 ============
+
+  /** 清理已删除的工作树登记、压缩对象并删除不可达的对象 */
+  gc(repoPath: string, options?: GitCommandOptions): Promise<void>;
+
+  // ============ 比较与合并 ============
+
+  /** 比较两个 commit 之间的差异 */
+  diff(
+    repoPath: string,
+    from: string,
+    to: string,
+    options?: DiffOptions,
+  ): Promise<string>;
+
+  /** 对单个文件执行三方合并，返回冲突数量 */
+  mergeFile(
+    currentPath: string,
+    basePath: string,
+    otherPath: string,
+  ): Promise<number>;
+}
+
+/**
+ * 基于 git 命令行的默认后端
+ */
+const cliGitBackend: GitBackend = {
+  clone: git.clone,
+  cloneMirror: git.cloneMirror,
+  updateSubmodules: git.updateSubmodules,
+  fetch: git.fetch,
+  getUpstreamStatus: git.getUpstreamStatus,
+  fastForward: git.fastForward,
+  resetToUpstream: git.resetToUpstream,
+  lfsPull: git.lfsPull,
+  fetchBranch: git.fetchBranch,
+  fetchRef: git.fetchRef,
+  fetchCommit: git.fetchCommit,
+  deepen: git.deepen,
+  unshallow: git.unshallow,
+  reshallow: git.reshallow,
+  lsRemote: git.lsRemote,
+  listRemoteBranches: git.listRemoteBranches,
+  checkout: git.checkout,
+  checkoutRef: git.checkoutRef,
+  setSparseCheckout: git.setSparseCheckout,
+  disableSparseCheckout: git.disableSparseCheckout,
+  addWorktree: git.addWorktree,
+  removeWorktree: git.removeWorktree,
+  repairWorktrees: git.repairWorktrees,
+  getCurrentCommit: git.getCurrentCommit,
+  getBranch: git.getBranch,
+  getRemoteUrl: git.getRemoteUrl,
+  isGitRepo: git.isGitRepo,
+  isTag: git.isTag,
+  hasCommit: git.hasCommit,
+  isShallow: git.isShallow,
+  gc: git.gc,
+  diff: git.diff,
+  mergeFile: git.mergeFile,
+};
+
+/** 当前使用的后端 */
+let currentBackend: GitBackend = cliGitBackend;
+
+/**
+ * 获取当前使用的 Git 后端
+ * 核心模块（repository、sync、merge、cache、gc、doctor）及命令辅助函数都通过它执行 Git 操作，
+ * 每次调用时获取，替换后端后立即生效
+ * @returns Git 后端
+ */
+export function getGitBackend(): GitBackend {
+  return currentBackend;
+}
+
+/**
+ * 替换 Git 后端
+ * @param backend 新的 Git 后端
+ *
+ * @example
+ * ```typescript
+ * const fake = new FakeGitBackend("/tmp/remotes");
+ * await fake.commit("https://github.com/user/repo", "main", { "a.ts": "v1" });
+ * setGitBackend(fake);
+ * await repository.add("https://github.com/user/repo");
+ * resetGitBackend();
+ * ```
+ */
+export function setGitBackend(backend: GitBackend): void {
+  currentBackend = backend;
+}
+
+/**
+ * 恢复默认的 git 命令行后端
+ */
+export function resetGitBackend(): void {
+  currentBackend = cliGitBackend;
+}
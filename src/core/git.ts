@@ -3,30 +3,346 @@
  * 封装所有 Git 命令的执行，提供类型安全的接口
  */
 
-import { exec } from "child_process";
-import { promisify } from "util";
+import { spawn } from "child_process";
+import path from "path";
 import { ErrorCode, GrfError } from "../types/index.js";
+import { validateBranchName } from "../utils/validation.js";
 
-const execAsync = promisify(exec);
+/**
+ * Git 传输进度（解析自 `--progress` 输出）
+ *
+ * @example
+ * // "Receiving objects:  45% (450/1000), 1.20 MiB | 2.40 MiB/s"
+ * { phase: "Receiving objects", percent: 45, current: 450, total: 1000,
+ *   transferred: "1.20 MiB", rate: "2.40 MiB/s", done: false }
+ */
+export interface GitProgress {
+  /** 阶段名称（如 Counting objects、Receiving objects、Resolving deltas） */
+  phase: string;
+  /** 完成百分比（部分阶段没有百分比） */
+  percent?: number;
+  /** 已处理的对象数 */
+  current: number;
+  /** 对象总数 */
+  total?: number;
+  /** 已传输的数据量（如 1.20 MiB） */
+  transferred?: string;
+  /** 传输速率（如 2.40 MiB/s） */
+  rate?: string;
+  /** 该阶段是否已完成 */
+  done: boolean;
+}
+
+/**
+ * Git 进度回调
+ */
+export type GitProgressHandler = (progress: GitProgress) => void;
+
+/**
+ * Git 命令调用选项
+ * 用于耗时较长的网络操作（clone、fetch、pull 等）
+ */
+export interface GitCommandOptions {
+  /** 超时时间（毫秒），超时后终止 git 进程 */
+  timeout?: number;
+  /** 用于取消命令的信号 */
+  signal?: AbortSignal;
+  /** 进度回调，指定时以 --progress 运行并解析输出 */
+  onProgress?: GitProgressHandler;
+}
 
 /**
  * Git 克隆选项
  */
-export interface CloneOptions {
+export interface CloneOptions extends GitCommandOptions {
   /** 指定分支 */
   branch?: string;
   /** 浅克隆深度 */
   depth?: number;
   /** 是否浅克隆 */
   shallow?: boolean;
+  /** 稀疏检出的路径（指定时使用 --filter=blob:none 部分克隆） */
+  sparse?: string[];
 }
 
+/**
+ * 工作树选项
+ */
+export interface WorktreeOptions {
+  /** 在工作树中检出的本地分支（跟踪起点所在的远程分支），未指定时以分离 HEAD 方式检出 */
+  branch?: string;
+  /** 稀疏检出的目录（cone 模式），未指定时检出全部文件 */
+  sparse?: string[];
+}
+
+/**
+ * Git diff 输出格式
+ * - patch: 完整补丁
+ * - stat: 变更统计
+ * - name-only: 仅文件名
+ */
+export type DiffFormat = "patch" | "stat" | "name-only";
+
+/**
+ * Git diff 选项
+ */
+export interface DiffOptions {
+  /** 输出格式，默认为 patch */
+  format?: DiffFormat;
+  /** 限定的路径（相对于仓库根目录），未指定时比较整个仓库 */
+  paths?: string[];
+  /** 是否输出颜色 */
+  color?: boolean;
+}
+
+/**
+ * 远程引用（ls-remote 输出的一行）
+ */
+export interface RemoteRef {
+  /** 完整引用名（如 refs/heads/main、refs/tags/v1.0.0、HEAD） */
+  name: string;
+  /** 引用指向的 commit SHA */
+  commit: string;
+}
+
+/**
+ * 当前分支相对 origin/<branch> 的状态
+ */
+export type UpstreamStatus = "up-to-date" | "behind" | "diverged";
+
 /**
  * 执行选项
  */
-interface ExecOptions {
+interface ExecOptions extends GitCommandOptions {
   /** 工作目录 */
   cwd?: string;
+  /** 仅去除结尾空白（保留首行缩进，用于 diff 等格式化输出） */
+  trimEnd?: boolean;
+}
+
+/**
+ * Git 进程执行结果
+ */
+interface GitProcessResult {
+  /** 标准输出 */
+  stdout: string;
+  /** 标准错误（已去除进度行和首尾空白） */
+  stderr: string;
+  /** 退出码 */
+  exitCode: number;
+}
+
+/** grf 凭据助手脚本（编译后与本模块位于同一目录） */
+const CREDENTIAL_HELPER_SCRIPT = path.join(__dirname, "credential-helper.js");
+
+/** 进度行格式: "[remote: ]Phase: [NN% (]cur[/total)][, size | rate][, done.]" */
+const PROGRESS_REGEX =
+  /^(?:remote:\s*)?([A-Za-z][A-Za-z ]*?):\s+(?:(\d+)%\s+\((\d+)\/(\d+)\)|(\d+))(?:,\s*([\d.]+\s*\w*B)(?:\s*\|\s*([\d.]+\s*\w*B\/s))?)?(,\s*done\.?)?/;
+
+/**
+ * 解析一行 git 进度输出
+ * @param line 进度行（不含换行符或回车符）
+ * @returns 进度信息，不是进度行时返回 null
+ */
+function parseProgressLine(line: string): GitProgress | null {
+  const match = PROGRESS_REGEX.exec(line.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [, phase, percent, current, total, count, transferred, rate, done] =
+    match;
+  return {
+    phase,
+    percent: percent !== undefined ? parseInt(percent, 10) : undefined,
+    current: parseInt(current ?? count, 10),
+    total: total !== undefined ? parseInt(total, 10) : undefined,
+    transferred,
+    rate,
+    done: done !== undefined || (!!total && current === total),
+  };
+}
+
+/**
+ * 去除 stderr 中的进度行，只保留有意义的错误信息
+ * @param stderr git 的标准错误输出
+ * @returns 清理后的文本
+ */
+function stripProgress(stderr: string): string {
+  return stderr
+    .split(/[\r\n]+/)
+    .filter((line) => line.trim() && !parseProgressLine(line))
+    .join("\n")
+    .trim();
+}
+
+/**
+ * 根据调用选项生成 --progress 参数
+ * @param options 命令调用选项
+ * @returns 参数数组
+ */
+function progressArgs(options?: GitCommandOptions): string[] {
+  return options?.onProgress ? ["--progress"] : [];
+}
+
+/**
+ * 格式化 Git 命令用于错误信息，包含空白或特殊字符的参数加引号
+ * @param args Git 命令参数数组
+ * @returns 可读的命令字符串
+ */
+function formatCommand(args: string[]): string {
+  return ["git", ...args]
+    .map((arg) => (/^[\w@%+=:,./^{}-]+$/.test(arg) ? arg : JSON.stringify(arg)))
+    .join(" ");
+}
+
+/**
+ * 构造 Git 命令失败的错误
+ * @param args Git 命令参数数组
+ * @param errorCode 错误码
+ * @param reason 失败原因（通常为 git 的 stderr）
+ * @param cause 原因错误
+ * @returns GrfError
+ */
+function createGitError(
+  args: string[],
+  errorCode: ErrorCode,
+  reason: string,
+  cause?: Error,
+): GrfError {
+  const message = `Git command failed: ${formatCommand(args)}`;
+  return new GrfError(
+    errorCode,
+    reason ? `${message}\n  ${reason.split("\n").join("\n  ")}` : message,
+    cause,
+  );
+}
+
+/**
+ * 为 git 凭据助手命令引用参数（助手命令由 sh 执行）
+ * @param value 参数
+ * @returns 双引号引用后的参数
+ */
+function shellQuote(value: string): string {
+  return `"${value.replace(/(["\\$`])/g, "\\$1")}"`;
+}
+
+/**
+ * 构造 git 进程的环境变量
+ * 禁止交互式询问凭据，并通过 GIT_CONFIG_* 注册 grf 凭据助手（追加在已有的环境配置之后）。
+ * 令牌只在 git 需要认证时由助手按主机名提供，不会出现在命令参数、URL 或错误信息中
+ * @returns 环境变量
+ */
+function getGitEnv(): NodeJS.ProcessEnv {
+  const count = Number.parseInt(process.env.GIT_CONFIG_COUNT ?? "", 10) || 0;
+  return {
+    ...process.env,
+    GIT_TERMINAL_PROMPT: "0",
+    GIT_CONFIG_COUNT: String(count + 1),
+    [`GIT_CONFIG_KEY_${count}`]: "credential.helper",
+    [`GIT_CONFIG_VALUE_${count}`]: `!${shellQuote(process.execPath)} ${shellQuote(CREDENTIAL_HELPER_SCRIPT)}`,
+  };
+}
+
+/**
+ * 以参数数组启动 git 进程（不经过 shell）
+ * 非零退出码不视为错误，由调用方根据 exitCode 判断
+ * @param args Git 命令参数数组
+ * @param options 执行选项
+ * @param errorCode 进程无法启动、超时或被取消时使用的错误码
+ * @returns 进程执行结果
+ */
+function runGit(
+  args: string[],
+  options: ExecOptions = {},
+  errorCode: ErrorCode = ErrorCode.GIT_CLONE_FAILED,
+): Promise<GitProcessResult> {
+  return new Promise((resolve, reject) => {
+    const { signal, timeout } = options;
+
+    if (signal?.aborted) {
+      reject(createGitError(args, errorCode, "操作已取消"));
+      return;
+    }
+
+    const child = spawn("git", args, {
+      cwd: options.cwd,
+      // 禁止 git 交互式询问凭据，避免进程挂起；私有仓库的令牌由 grf 凭据助手提供
+      env: getGitEnv(),
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+
+    const stdoutChunks: Buffer[] = [];
+    const stderrChunks: Buffer[] = [];
+    let abortReason = "";
+    // 进度输出以 \r 刷新同一行，按 \r 或 \n 切分
+    let pendingLine = "";
+
+    const abort = (reason: string): void => {
+      abortReason = reason;
+      child.kill();
+    };
+    const onAbort = (): void => abort("操作已取消");
+    const timer =
+      timeout && timeout > 0
+        ? setTimeout(() => abort(`命令执行超时 (${timeout}ms)`), timeout)
+        : undefined;
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    const cleanup = (): void => {
+      if (timer) clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    };
+
+    child.stdout.on("data", (chunk: Buffer) => stdoutChunks.push(chunk));
+    child.stderr.on("data", (chunk: Buffer) => {
+      stderrChunks.push(chunk);
+      if (!options.onProgress) {
+        return;
+      }
+      const lines = (pendingLine + chunk.toString("utf-8")).split(/[\r\n]/);
+      pendingLine = lines.pop() ?? "";
+      for (const line of lines) {
+        const progress = parseProgressLine(line);
+        if (progress) {
+          options.onProgress(progress);
+        }
+      }
+    });
+
+    child.on("error", (error: NodeJS.ErrnoException) => {
+      cleanup();
+      if (error.code === "ENOENT") {
+        reject(
+          new GrfError(
+            ErrorCode.GIT_NOT_INSTALLED,
+            "未找到 git，请先安装 Git 并确保其在 PATH 中",
+            error,
+          ),
+        );
+        return;
+      }
+      reject(createGitError(args, errorCode, error.message, error));
+    });
+
+    child.on("close", (code) => {
+      cleanup();
+      const stderr = stripProgress(
+        Buffer.concat(stderrChunks).toString("utf-8"),
+      );
+
+      if (abortReason) {
+        reject(createGitError(args, errorCode, abortReason));
+        return;
+      }
+
+      resolve({
+        stdout: Buffer.concat(stdoutChunks).toString("utf-8"),
+        stderr,
+        exitCode: code ?? 1,
+      });
+    });
+  });
 }
 
 /**
@@ -34,22 +350,40 @@ interface ExecOptions {
  * @param args Git 命令参数数组
  * @param options 执行选项
  * @param errorCode 失败时使用的错误码
- * @returns 命令输出（已去除首尾空白）
+ * @returns 命令输出（已去除首尾空白，或按 trimEnd 仅去除结尾空白）
+ * @throws GrfError 命令失败时，错误信息中包含 git 的 stderr
  */
 async function execGit(
   args: string[],
   options?: ExecOptions,
   errorCode: ErrorCode = ErrorCode.GIT_CLONE_FAILED,
 ): Promise<string> {
-  const command = `git ${args.join(" ")}`;
-  try {
-    const { stdout } = await execAsync(command, { cwd: options?.cwd });
-    return stdout.trim();
-  } catch (error) {
+  const { stdout, stderr, exitCode } = await runGit(args, options, errorCode);
+  if (exitCode !== 0) {
+    throw createGitError(args, errorCode, stderr || `exit code ${exitCode}`);
+  }
+  return options?.trimEnd ? stdout.trimEnd() : stdout.trim();
+}
+
+/**
+ * 校验要传给 git 的分支名、标签名或 commit
+ * 这些值可能来自项目清单 grf.json，以 - 开头的值会被 git 当作选项解析（如 --upload-pack=<命令>）
+ * @param value 分支名、标签名或 commit SHA
+ * @param kind 值的类型（用于错误信息）
+ * @throws GrfError 如果值以 - 开头或不是合法的引用名称
+ */
+function assertSafeRef(value: string, kind: string): void {
+  if (value.startsWith("-")) {
     throw new GrfError(
-      errorCode,
-      `Git command failed: ${command}`,
-      error as Error,
+      ErrorCode.INVALID_ARGUMENT,
+      `${kind}不能以 - 开头: ${value}`,
+    );
+  }
+  const result = validateBranchName(value);
+  if (!result.valid) {
+    throw new GrfError(
+      ErrorCode.INVALID_ARGUMENT,
+      `无效的${kind}: ${value}（${result.message}）`,
     );
   }
 }
@@ -65,7 +399,7 @@ export async function clone(
   dest: string,
   options?: CloneOptions,
 ): Promise<void> {
-  const args: string[] = ["clone"];
+  const args: string[] = ["clone", ...progressArgs(options)];
 
   // 处理浅克隆选项
   if (options?.shallow || options?.depth) {
@@ -75,20 +409,232 @@ export async function clone(
 
   // 处理分支选项
   if (options?.branch) {
+    assertSafeRef(options.branch, "分支名");
     args.push("--branch", options.branch);
   }
 
-  args.push(url, dest);
+  // 处理稀疏检出选项：只按需下载文件内容，检出时仅包含根目录文件
+  const sparse = options?.sparse ?? [];
+  if (sparse.length > 0) {
+    args.push("--filter=blob:none", "--sparse");
+  }
+
+  args.push("--", url, dest);
+
+  await execGit(
+    args,
+    {
+      timeout: options?.timeout,
+      signal: options?.signal,
+      onProgress: options?.onProgress,
+    },
+    ErrorCode.GIT_CLONE_FAILED,
+  );
+
+  if (sparse.length > 0) {
+    await setSparseCheckout(dest, sparse);
+  }
+}
+
+/**
+ * 初始化并更新子模块到父仓库记录的 commit（递归处理嵌套的子模块）
+ * 稀疏检出范围之外的子模块会被跳过
+ * @param repoPath 仓库路径
+ * @param options 命令调用选项（超时、取消、进度）
+ */
+export async function updateSubmodules(
+  repoPath: string,
+  options?: GitCommandOptions,
+): Promise<void> {
+  await execGit(
+    ["submodule", "update", "--init", "--recursive", ...progressArgs(options)],
+    { ...options, cwd: repoPath },
+    ErrorCode.GIT_CLONE_FAILED,
+  );
+}
+
+/**
+ * 获取远程仓库的默认分支
+ * @param url 仓库 URL
+ * @param options 命令调用选项（超时、取消）
+ * @returns 默认分支名
+ * @throws GrfError 如果远程仓库为空或无法确定默认分支
+ */
+async function getRemoteDefaultBranch(
+  url: string,
+  options?: GitCommandOptions,
+): Promise<string> {
+  const output = await execGit(
+    ["ls-remote", "--symref", "--", url, "HEAD"],
+    { timeout: options?.timeout, signal: options?.signal },
+    ErrorCode.GIT_CLONE_FAILED,
+  );
+  const match = /^ref: refs\/heads\/(\S+)\s+HEAD$/m.exec(output);
+  if (!match) {
+    throw new GrfError(
+      ErrorCode.GIT_CLONE_FAILED,
+      `无法确定远程仓库的默认分支: ${url}`,
+    );
+  }
+  return match[1];
+}
+
+/**
+ * 创建仓库的裸镜像
+ * 远程分支保存为 refs/remotes/origin/*，供各工作树检出和跟踪；浅克隆时只获取一个分支
+ * @param url 仓库 URL
+ * @param mirrorPath 镜像路径
+ * @param options 克隆选项（sparse 仅用于启用部分克隆，稀疏范围由各工作树设置）
+ * @returns 检出的分支名（未指定时为远程默认分支）
+ */
+export async function cloneMirror(
+  url: string,
+  mirrorPath: string,
+  options?: CloneOptions,
+): Promise<string> {
+  const branch =
+    options?.branch ?? (await getRemoteDefaultBranch(url, options));
+  assertSafeRef(branch, "分支名");
+  const shallow = !!(options?.shallow || options?.depth);
+
+  await execGit(
+    ["init", "--bare", mirrorPath],
+    undefined,
+    ErrorCode.GIT_CLONE_FAILED,
+  );
+  await execGit(
+    ["remote", "add", ...(shallow ? ["-t", branch] : []), "--", "origin", url],
+    { cwd: mirrorPath },
+    ErrorCode.GIT_CLONE_FAILED,
+  );
+
+  const args = ["fetch", ...progressArgs(options)];
+  if (shallow) {
+    args.push("--depth", (options?.depth ?? 1).toString());
+  }
+  if (options?.sparse && options.sparse.length > 0) {
+    args.push("--filter=blob:none");
+  }
+  args.push("--", "origin");
+
+  await execGit(
+    args,
+    { ...options, cwd: mirrorPath },
+    ErrorCode.GIT_CLONE_FAILED,
+  );
 
-  await execGit(args, undefined, ErrorCode.GIT_CLONE_FAILED);
+  return branch;
 }
 
 /**
- * 拉取远程更新
+ * 设置稀疏检出的路径（cone 模式）
  * @param repoPath 仓库路径
+ * @param paths 需要检出的目录列表
  */
-export async function pull(repoPath: string): Promise<void> {
-  await execGit(["pull"], { cwd: repoPath }, ErrorCode.GIT_PULL_FAILED);
+export async function setSparseCheckout(
+  repoPath: string,
+  paths: string[],
+): Promise<void> {
+  await execGit(
+    ["sparse-checkout", "set", "--cone", ...paths],
+    { cwd: repoPath },
+    ErrorCode.GIT_CHECKOUT_FAILED,
+  );
+}
+
+/**
+ * 关闭稀疏检出，检出完整的工作树
+ * @param repoPath 仓库路径
+ */
+export async function disableSparseCheckout(repoPath: string): Promise<void> {
+  await execGit(
+    ["sparse-checkout", "disable"],
+    { cwd: repoPath },
+    ErrorCode.GIT_CHECKOUT_FAILED,
+  );
+}
+
+/**
+ * 快进当前分支到 origin/<branch>
+ * @param repoPath 仓库路径
+ * @param options 命令调用选项（超时、取消）
+ * @throws GrfError 如果无法快进（本地与远程历史已分叉）
+ */
+export async function fastForward(
+  repoPath: string,
+  options?: GitCommandOptions,
+): Promise<void> {
+  const branch = await getBranch(repoPath);
+  await execGit(
+    ["merge", "--ff-only", `origin/${branch}`],
+    { ...options, cwd: repoPath },
+    ErrorCode.GIT_PULL_FAILED,
+  );
+}
+
+/**
+ * 将当前分支重置到 origin/<branch>，重置前把原 HEAD 保存到备份引用 <prefix><branch>/<commit>
+ * 用于远程历史被改写（force push、rebase）后无法快进的情况；
+ * 备份引用以原 HEAD 命名，多次重置不会覆盖之前的备份
+ * @param repoPath 仓库路径
+ * @param backupPrefix 备份引用前缀（如 refs/grf/backup/）
+ * @param options 命令调用选项（超时、取消）
+ * @returns 保存原 HEAD 的引用（如 refs/grf/backup/main/<commit>）
+ */
+export async function resetToUpstream(
+  repoPath: string,
+  backupPrefix: string,
+  options?: GitCommandOptions,
+): Promise<string> {
+  const branch = await getBranch(repoPath);
+  const head = await getCurrentCommit(repoPath);
+  const backupRef = `${backupPrefix}${branch}/${head}`;
+  await execGit(
+    ["update-ref", backupRef, head],
+    { cwd: repoPath },
+    ErrorCode.GIT_PULL_FAILED,
+  );
+  await execGit(
+    ["reset", "--hard", "--quiet", `origin/${branch}`],
+    { ...options, cwd: repoPath },
+    ErrorCode.GIT_PULL_FAILED,
+  );
+  return backupRef;
+}
+
+/**
+ * 下载并检出 Git LFS 对象
+ * @param repoPath 仓库（或工作树）路径
+ * @param include 限定下载的路径模式（为空时下载全部）
+ * @param options 命令调用选项（超时、取消、进度）
+ * @throws GrfError 如果 git-lfs 未安装或下载失败
+ */
+export async function lfsPull(
+  repoPath: string,
+  include: string[],
+  options?: GitCommandOptions,
+): Promise<void> {
+  const args = ["lfs", "pull"];
+  if (include.length > 0) {
+    args.push(`--include=${include.join(",")}`);
+  }
+
+  try {
+    await execGit(
+      args,
+      { ...options, cwd: repoPath },
+      ErrorCode.GIT_PULL_FAILED,
+    );
+  } catch (error) {
+    if (!(error as Error).message.includes("'lfs' is not a git command")) {
+      throw error;
+    }
+    throw new GrfError(
+      ErrorCode.GIT_NOT_INSTALLED,
+      "未找到 git-lfs，请先安装 Git LFS（https://git-lfs.com）",
+      error as Error,
+    );
+  }
 }
 
 /**
@@ -118,39 +664,99 @@ export async function getRemoteUrl(repoPath: string): Promise<string> {
 }
 
 /**
- * 检查是否有远程更新
+ * 获取远程更新，并比较当前分支与 origin/<branch> 的关系
+ * - up-to-date：两者相同
+ * - behind：本地落后，可以快进
+ * - diverged：远程历史被改写（force push、rebase 或回退），无法快进
  * @param repoPath 仓库路径
- * @returns 是否有更新
+ * @param options 命令调用选项（超时、取消、进度）
+ * @returns 当前分支相对远程的状态
+ * @throws GrfError 如果远程分支不存在
  */
-export async function hasUpdates(repoPath: string): Promise<boolean> {
-  // 先获取远程更新
-  await fetch(repoPath);
+export async function getUpstreamStatus(
+  repoPath: string,
+  options?: GitCommandOptions,
+): Promise<UpstreamStatus> {
+  await fetch(repoPath, options);
 
-  // 获取当前分支
   const branch = await getBranch(repoPath);
+  const head = await getCurrentCommit(repoPath);
+  let upstream: string;
+  try {
+    upstream = await execGit(
+      ["rev-parse", "--verify", "--quiet", `origin/${branch}^{commit}`],
+      { cwd: repoPath },
+      ErrorCode.GIT_PULL_FAILED,
+    );
+  } catch {
+    throw new GrfError(
+      ErrorCode.GIT_PULL_FAILED,
+      `远程分支不存在: origin/${branch}`,
+    );
+  }
+
+  if (upstream === head) {
+    return "up-to-date";
+  }
+  return (await isAncestor(repoPath, head, upstream)) ? "behind" : "diverged";
+}
 
-  // 比较本地和远程的差异
+/**
+ * 检查 ancestor 是否为 commit 的祖先（或相同）
+ * @param repoPath 仓库路径
+ * @param ancestor 可能的祖先 commit
+ * @param commit 起始 commit
+ * @returns 是否为祖先
+ */
+async function isAncestor(
+  repoPath: string,
+  ancestor: string,
+  commit: string,
+): Promise<boolean> {
   try {
-    const count = await execGit(
-      ["rev-list", `HEAD..origin/${branch}`, "--count"],
+    await execGit(
+      ["merge-base", "--is-ancestor", ancestor, commit],
       { cwd: repoPath },
-      ErrorCode.GIT_CLONE_FAILED,
+      ErrorCode.GIT_PULL_FAILED,
     );
-    return parseInt(count, 10) > 0;
+    return true;
   } catch {
-    // 如果比较失败（例如远程分支不存在），尝试使用 origin/HEAD
-    try {
-      const count = await execGit(
-        ["rev-list", "HEAD..origin/HEAD", "--count"],
-        { cwd: repoPath },
-        ErrorCode.GIT_CLONE_FAILED,
-      );
-      return parseInt(count, 10) > 0;
-    } catch {
-      // 如果都失败了，假设没有更新
-      return false;
+    return false;
+  }
+}
+
+/**
+ * 列出远程仓库的引用（不需要本地仓库）
+ * 附注标签只返回解引用后的 commit
+ * @param url 仓库 URL 或本地仓库路径
+ * @param options 命令调用选项（超时、取消）
+ * @returns 远程引用列表
+ */
+export async function lsRemote(
+  url: string,
+  options?: GitCommandOptions,
+): Promise<RemoteRef[]> {
+  const output = await execGit(
+    ["ls-remote", url],
+    { timeout: options?.timeout, signal: options?.signal },
+    ErrorCode.GIT_CLONE_FAILED,
+  );
+
+  const refs = new Map<string, string>();
+  for (const line of output.split("\n")) {
+    const [commit, name] = line.trim().split(/\s+/);
+    if (!commit || !name) {
+      continue;
+    }
+    // 附注标签的 "^{}" 行指向实际的 commit，覆盖标签对象本身
+    if (name.endsWith("^{}")) {
+      refs.set(name.slice(0, -3), commit);
+    } else if (!refs.has(name)) {
+      refs.set(name, commit);
     }
   }
+
+  return [...refs].map(([name, commit]) => ({ name, commit }));
 }
 
 /**
@@ -187,45 +793,66 @@ export async function isGitRepo(path: string): Promise<boolean> {
 /**
  * 获取远程更新（不合并）
  * @param repoPath 仓库路径
+ * @param options 命令调用选项（超时、取消、进度）
  */
-export async function fetch(repoPath: string): Promise<void> {
-  await execGit(["fetch"], { cwd: repoPath }, ErrorCode.GIT_CLONE_FAILED);
+export async function fetch(
+  repoPath: string,
+  options?: GitCommandOptions,
+): Promise<void> {
+  await execGit(
+    ["fetch", ...progressArgs(options)],
+    { ...options, cwd: repoPath },
+    ErrorCode.GIT_CLONE_FAILED,
+  );
+}
+
+/**
+ * 获取指定分支的远程更新到 origin/<branch>
+ * 同时将 fetch 配置扩展到所有分支，之后的 fetch/pull 也会更新该分支（解决浅克隆问题）
+ * @param repoPath 仓库路径
+ * @param branch 分支名
+ * @param options 命令调用选项（超时、取消、进度）
+ */
+export async function fetchBranch(
+  repoPath: string,
+  branch: string,
+  options?: GitCommandOptions,
+): Promise<void> {
+  assertSafeRef(branch, "分支名");
+  await execGit(
+    ["config", "remote.origin.fetch", "+refs/heads/*:refs/remotes/origin/*"],
+    { cwd: repoPath },
+    ErrorCode.GIT_CHECKOUT_FAILED,
+  );
+  await execGit(
+    ["fetch", ...progressArgs(options), "--", "origin", branch],
+    { ...options, cwd: repoPath },
+    ErrorCode.GIT_CHECKOUT_FAILED,
+  );
 }
 
 /**
  * 切换到指定分支
  * @param repoPath 仓库路径
  * @param branch 目标分支名
+ * @param options 命令调用选项（超时、取消、进度）
  */
 export async function checkout(
   repoPath: string,
   branch: string,
+  options?: GitCommandOptions,
 ): Promise<void> {
   try {
-    // 1. 修改 fetch 配置以支持获取所有分支（解决浅克隆问题）
-    await execGit(
-      ["config", "remote.origin.fetch", "+refs/heads/*:refs/remotes/origin/*"],
-      { cwd: repoPath },
-      ErrorCode.GIT_CHECKOUT_FAILED,
-    );
-
-    // 2. 获取指定分支
+    await fetchBranch(repoPath, branch, options);
     await execGit(
-      ["fetch", "origin", branch],
-      { cwd: repoPath },
-      ErrorCode.GIT_CHECKOUT_FAILED,
-    );
-
-    // 3. 切换到指定分支
-    await execGit(
-      ["checkout", branch],
+      ["checkout", branch, "--"],
       { cwd: repoPath },
       ErrorCode.GIT_CHECKOUT_FAILED,
     );
   } catch (error) {
     throw new GrfError(
       ErrorCode.GIT_CHECKOUT_FAILED,
-      `Git command failed: git checkout ${branch}\n  Branch "${branch}" may not exist. Use git branch -r to list available branches.`,
+      `${(error as Error).message}\n  Branch "${branch}" may not exist. Use git branch -r to list available branches.`,
       error as Error,
     );
   }
@@ -250,3 +877,379 @@ export async function listRemoteBranches(repoPath: string): Promise<string[]> {
     .filter((line) => line && !line.includes("->")) // 过滤空行和 HEAD 指针
     .map((line) => line.replace(/^origin\//, "")); // 移除 origin/ 前缀
 }
+
+/**
+ * 检查仓库中是否存在指定 commit
+ * @param repoPath 仓库路径
+ * @param commit commit SHA
+ * @returns 是否存在
+ */
+export async function hasCommit(
+  repoPath: string,
+  commit: string,
+): Promise<boolean> {
+  try {
+    await execGit(
+      ["cat-file", "-e", `${commit}^{commit}`],
+      { cwd: repoPath },
+      ErrorCode.GIT_CLONE_FAILED,
+    );
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 检查仓库是否为浅克隆
+ * @param repoPath 仓库路径
+ * @returns 是否为浅克隆
+ */
+export async function isShallow(repoPath: string): Promise<boolean> {
+  const output = await execGit(
+    ["rev-parse", "--is-shallow-repository"],
+    { cwd: repoPath },
+    ErrorCode.GIT_CLONE_FAILED,
+  );
+  return output === "true";
+}
+
+/**
+ * 从远程获取指定 commit
+ * @param repoPath 仓库路径
+ * @param commit commit SHA
+ * @param options 命令调用选项（超时、取消、进度）
+ */
+export async function fetchCommit(
+  repoPath: string,
+  commit: string,
+  options?: GitCommandOptions,
+): Promise<void> {
+  assertSafeRef(commit, "commit");
+  const args = ["fetch", ...progressArgs(options), "--", "origin", commit];
+  // 浅克隆仓库只需获取该 commit 本身
+  if (await isShallow(repoPath)) {
+    args.splice(1, 0, "--depth", "1");
+  }
+  await execGit(args, { ...options, cwd: repoPath }, ErrorCode.GIT_PULL_FAILED);
+}
+
+/**
+ * 加深浅克隆仓库的历史
+ * @param repoPath 仓库路径
+ * @param commits 加深的 commit 数量
+ * @param options 命令调用选项（超时、取消、进度）
+ */
+export async function deepen(
+  repoPath: string,
+  commits: number,
+  options?: GitCommandOptions,
+): Promise<void> {
+  await execGit(
+    ["fetch", ...progressArgs(options), `--deepen=${commits}`, "origin"],
+    { ...options, cwd: repoPath },
+    ErrorCode.GIT_PULL_FAILED,
+  );
+}
+
+/**
+ * 获取浅克隆仓库的完整历史
+ * @param repoPath 仓库路径
+ * @param options 命令调用选项（超时、取消、进度）
+ */
+export async function unshallow(
+  repoPath: string,
+  options?: GitCommandOptions,
+): Promise<void> {
+  await execGit(
+    ["fetch", ...progressArgs(options), "--unshallow", "origin"],
+    { ...options, cwd: repoPath },
+    ErrorCode.GIT_PULL_FAILED,
+  );
+}
+
+/**
+ * 将仓库历史截断到指定深度，并清理不再需要的对象以释放空间
+ * @param repoPath 仓库路径
+ * @param depth 保留的 commit 数量
+ * @param options 命令调用选项（超时、取消、进度）
+ */
+export async function reshallow(
+  repoPath: string,
+  depth: number,
+  options?: GitCommandOptions,
+): Promise<void> {
+  await execGit(
+    ["fetch", ...progressArgs(options), `--depth=${depth}`, "origin"],
+    { ...options, cwd: repoPath },
+    ErrorCode.GIT_PULL_FAILED,
+  );
+  // 截断后旧的 commit 仍被 reflog 引用，需要先清除 reflog 才能回收
+  await execGit(
+    ["reflog", "expire", "--expire=now", "--all"],
+    { timeout: options?.timeout, signal: options?.signal, cwd: repoPath },
+    ErrorCode.GIT_PULL_FAILED,
+  );
+  await execGit(
+    ["gc", "--prune=now", "--quiet"],
+    { timeout: options?.timeout, signal: options?.signal, cwd: repoPath },
+    ErrorCode.GIT_PULL_FAILED,
+  );
+}
+
+/**
+ * 清理仓库：移除已删除工作树的登记信息，压缩对象并删除不可达的对象
+ * @param repoPath 仓库路径（镜像或检出目录）
+ * @param options 命令调用选项（超时、取消）
+ */
+export async function gc(
+  repoPath: string,
+  options?: GitCommandOptions,
+): Promise<void> {
+  await execGit(
+    ["worktree", "prune"],
+    { cwd: repoPath },
+    ErrorCode.GIT_CHECKOUT_FAILED,
+  );
+  await execGit(
+    ["gc", "--prune=now", "--quiet"],
+    { timeout: options?.timeout, signal: options?.signal, cwd: repoPath },
+    ErrorCode.GIT_CHECKOUT_FAILED,
+  );
+}
+
+/**
+ * 创建工作树
+ * 指定 branch 时创建（或重置）该本地分支并跟踪起点所在的远程分支，否则以分离 HEAD 方式检出
+ * @param repoPath 仓库路径（镜像或其任一工作树）
+ * @param dest 工作树路径
+ * @param start 起点（commit SHA、标签或 origin/<branch>）
+ * @param options 工作树选项
+ */
+export async function addWorktree(
+  repoPath: string,
+  dest: string,
+  start: string,
+  options?: WorktreeOptions,
+): Promise<void> {
+  assertSafeRef(start, "起点");
+  if (options?.branch) {
+    assertSafeRef(options.branch, "分支名");
+  }
+  const sparse = options?.sparse ?? [];
+  const args = ["worktree", "add"];
+  // 稀疏检出时先不检出文件，设置范围后再检出
+  if (sparse.length > 0) {
+    args.push("--no-checkout");
+  }
+  args.push(
+    ...(options?.branch ? ["--track", "-B", options.branch] : ["--detach"]),
+    "--",
+    dest,
+    start,
+  );
+
+  await execGit(args, { cwd: repoPath }, ErrorCode.GIT_CHECKOUT_FAILED);
+
+  if (sparse.length > 0) {
+    await setSparseCheckout(dest, sparse);
+    await execGit(["checkout"], { cwd: dest }, ErrorCode.GIT_CHECKOUT_FAILED);
+  }
+}
+
+/**
+ * 移除工作树并清理其记录
+ * @param repoPath 仓库路径
+ * @param dest 工作树路径
+ */
+export async function removeWorktree(
+  repoPath: string,
+  dest: string,
+): Promise<void> {
+  await execGit(
+    ["worktree", "remove", "--force", dest],
+    { cwd: repoPath },
+    ErrorCode.GIT_CHECKOUT_FAILED,
+  );
+  await execGit(
+    ["worktree", "prune"],
+    { cwd: repoPath },
+    ErrorCode.GIT_CHECKOUT_FAILED,
+  );
+}
+
+/**
+ * 修复仓库与工作树之间的路径记录
+ * 仓库或工作树被整体移动后，工作树的 .git 文件和仓库中的登记信息仍指向旧位置
+ * @param repoPath 仓库路径（移动后的位置）
+ * @param worktrees 各工作树移动后的路径
+ */
+export async function repairWorktrees(
+  repoPath: string,
+  worktrees: string[],
+): Promise<void> {
+  await execGit(
+    ["worktree", "repair", ...worktrees],
+    { cwd: repoPath },
+    ErrorCode.GIT_CHECKOUT_FAILED,
+  );
+}
+
+/**
+ * 检查引用是否为本地已存在的标签
+ * @param repoPath 仓库路径
+ * @param ref 引用名称
+ * @returns 是否为标签
+ */
+export async function isTag(repoPath: string, ref: string): Promise<boolean> {
+  try {
+    await execGit(
+      ["rev-parse", "--verify", "--quiet", `refs/tags/${ref}`],
+      { cwd: repoPath },
+      ErrorCode.GIT_CHECKOUT_FAILED,
+    );
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 确保本地存在标签或 commit，不存在时从远程获取（浅克隆仓库只获取该引用本身）
+ * @param repoPath 仓库路径
+ * @param ref 标签名或 commit SHA
+ * @param options 命令调用选项（超时、取消、进度）
+ */
+export async function fetchRef(
+  repoPath: string,
+  ref: string,
+  options?: GitCommandOptions,
+): Promise<void> {
+  assertSafeRef(ref, "引用");
+  if (await hasCommit(repoPath, ref)) {
+    return;
+  }
+
+  const fetchArgs = (await isShallow(repoPath)) ? ["--depth", "1"] : [];
+  fetchArgs.push(...progressArgs(options));
+  try {
+    // 优先按标签获取，会在本地创建同名标签
+    await execGit(
+      ["fetch", ...fetchArgs, "--no-tags", "--", "origin", "tag", ref],
+      { ...options, cwd: repoPath },
+      ErrorCode.GIT_CHECKOUT_FAILED,
+    );
+  } catch {
+    // 不是标签，按 commit SHA 获取
+    await execGit(
+      ["fetch", ...fetchArgs, "--", "origin", ref],
+      { ...options, cwd: repoPath },
+      ErrorCode.GIT_CHECKOUT_FAILED,
+    );
+  }
+}
+
+/**
+ * 以分离 HEAD 方式检出标签或 commit
+ * 本地不存在该引用时先从远程获取（浅克隆仓库只获取该引用本身）
+ * @param repoPath 仓库路径
+ * @param ref 标签名或 commit SHA
+ * @param options 命令调用选项（超时、取消、进度）
+ */
+export async function checkoutRef(
+  repoPath: string,
+  ref: string,
+  options?: GitCommandOptions,
+): Promise<void> {
+  try {
+    await fetchRef(repoPath, ref, options);
+    await execGit(
+      ["checkout", "--detach", `${ref}^{commit}`, "--"],
+      { cwd: repoPath },
+      ErrorCode.GIT_CHECKOUT_FAILED,
+    );
+  } catch (error) {
+    throw new GrfError(
+      ErrorCode.GIT_CHECKOUT_FAILED,
+      `${(error as Error).message}\n  Ref "${ref}" may not exist. Use a tag name or a full commit SHA.`,
+      error as Error,
+    );
+  }
+}
+
+/**
+ * 对单个文件执行三方合并，结果写回 currentPath
+ * 存在冲突时在文件中写入冲突标记
+ * @param currentPath 当前版本（本地修改后的文件）
+ * @param basePath 共同祖先版本
+ * @param otherPath 另一方版本（上游更新后的文件）
+ * @returns 冲突数量，0 表示无冲突
+ * @throws GrfError 如果无法合并（如二进制文件）
+ */
+export async function mergeFile(
+  currentPath: string,
+  basePath: string,
+  otherPath: string,
+): Promise<number> {
+  const args = [
+    "merge-file",
+    "-L",
+    "local",
+    "-L",
+    "loaded",
+    "-L",
+    "upstream",
+    currentPath,
+    basePath,
+    otherPath,
+  ];
+
+  const { stderr, exitCode } = await runGit(
+    args,
+    undefined,
+    ErrorCode.GIT_CHECKOUT_FAILED,
+  );
+
+  // 退出码为正数时表示冲突数量，负数（显示为 255）表示合并失败
+  if (exitCode >= 0 && exitCode < 128) {
+    return exitCode;
+  }
+  throw createGitError(
+    args,
+    ErrorCode.GIT_CHECKOUT_FAILED,
+    stderr || `exit code ${exitCode}`,
+  );
+}
+
+/**
+ * 比较两个 commit 之间的差异
+ * @param repoPath 仓库路径
+ * @param from 起始 commit
+ * @param to 目标 commit
+ * @param options diff 选项
+ * @returns diff 输出，无差异时为空字符串
+ */
+export async function diff(
+  repoPath: string,
+  from: string,
+  to: string,
+  options: DiffOptions = {},
+): Promise<string> {
+  const args = ["diff", options.color ? "--color=always" : "--no-color"];
+  if (options.format === "stat") {
+    args.push("--stat");
+  } else if (options.format === "name-only") {
+    args.push("--name-only");
+  }
+  args.push(from, to);
+
+  if (options.paths && options.paths.length > 0) {
+    args.push("--", ...options.paths);
+  }
+
+  return execGit(
+    args,
+    { cwd: repoPath, trimEnd: true },
+    ErrorCode.GIT_CHECKOUT_FAILED,
+  );
+}
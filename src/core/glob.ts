@@ -0,0 +1,224 @@
+/**
+ * Glob 匹配模块
+ * 将 glob 模式转换为正则表达式，用于按相对路径过滤文件
+ *
+ * 支持的语法：
+ * - `*`  匹配除 `/` 以外的任意字符
+ * - `**` 匹配任意层级目录
+ * - `?`  匹配除 `/` 以外的单个字符
+ * - `[abc]` / `[!abc]` 字符集合
+ * - `{a,b}` 多选一
+ *
+ * 没有配对的 `[`、`{`、`}` 按普通字符匹配
+ *
+ * 不包含 `/` 的模式（如 `*.ts`）匹配任意层级的文件名，以 `/` 开头的模式只匹配根部；
+ * 匹配到目录时同时匹配目录下的所有内容（如 `node_modules` 匹配 `node_modules/a.js`），
+ * 与 .gitignore 的行为一致
+ */
+
+import { ErrorCode, GrfError } from "../types/index.js";
+
+/**
+ * 路径过滤函数
+ * @param relativePath 相对于源目录的路径（使用正斜杠）
+ * @returns 是否保留该文件
+ */
+export type PathFilter = (relativePath: string) => boolean;
+
+/** 需要在正则中转义的字符（包括没有配对的 `[`、`]`、`{`、`}`） */
+const REGEX_SPECIAL_CHARS = /[.+^$()|\\[\]{}]/;
+
+/**
+ * 查找与起始 `{` 匹配的 `}` 位置
+ * @param pattern 模式字符串
+ * @param start `{` 的位置
+ * @returns `}` 的位置，未找到时返回 -1
+ */
+function findClosingBrace(pattern: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < pattern.length; i++) {
+    if (pattern[i] === "{") {
+      depth++;
+    } else if (pattern[i] === "}") {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
+    }
+  }
+  return -1;
+}
+
+/**
+ * 按顶层逗号拆分 `{}` 内的候选项
+ * @param body `{}` 内的内容
+ * @returns 候选项列表
+ */
+function splitAlternatives(body: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const char of body) {
+    if (char === "," && depth === 0) {
+      parts.push(current);
+      current = "";
+      continue;
+    }
+    if (char === "{") depth++;
+    if (char === "}") depth--;
+    current += char;
+  }
+  parts.push(current);
+  return parts;
+}
+
+/**
+ * 将 glob 模式片段转换为正则表达式源码（不含首尾锚点）
+ * @param pattern glob 模式片段
+ * @returns 正则表达式源码
+ */
+function convert(pattern: string): string {
+  let source = "";
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === "*") {
+      if (pattern[i + 1] === "*") {
+        // `**/` 匹配零个或多个目录，结尾的 `**` 匹配剩余所有内容
+        if (pattern[i + 2] === "/") {
+          source += "(?:.*/)?";
+          i += 2;
+        } else {
+          source += ".*";
+          i += 1;
+        }
+      } else {
+        source += "[^/]*";
+      }
+      continue;
+    }
+
+    if (char === "?") {
+      source += "[^/]";
+      continue;
+    }
+
+    if (char === "[") {
+      const end = pattern.indexOf("]", i + 1);
+      if (end !== -1) {
+        let set = pattern.slice(i + 1, end).replace(/\\/g, "\\\\");
+        if (set.startsWith("!")) {
+          set = "^" + set.slice(1);
+        }
+        source += `[${set}]`;
+        i = end;
+        continue;
+      }
+    }
+
+    if (char === "{") {
+      const end = findClosingBrace(pattern, i);
+      if (end !== -1) {
+        const alternatives = splitAlternatives(pattern.slice(i + 1, end));
+        source += `(?:${alternatives.map(convert).join("|")})`;
+        i = end;
+        continue;
+      }
+    }
+
+    source += REGEX_SPECIAL_CHARS.test(char) ? `\\${char}` : char;
+  }
+
+  return source;
+}
+
+/**
+ * 将 glob 模式编译为正则表达式
+ * @param pattern glob 模式
+ * @returns 匹配完整相对路径的正则表达式
+ *
+ * @example
+ * globToRegExp("src/**\/*.ts").test("src/core/a.ts"); // true
+ * globToRegExp("*.test.ts").test("src/core/a.test.ts"); // true
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let normalized = pattern.trim().replace(/\\/g, "/");
+
+  // 以 / 开头或中间含 / 的模式相对于源目录根部，否则匹配任意层级
+  const anchored = normalized.replace(/\/$/, "").includes("/");
+  normalized = normalized.replace(/^\.?\//, "");
+
+  // 以 / 结尾表示目录下的所有内容
+  if (normalized.endsWith("/")) {
+    normalized += "**";
+  }
+
+  if (!anchored) {
+    normalized = "**/" + normalized;
+  }
+
+  // 匹配到的目录包含其下的所有内容
+  return new RegExp(`^${convert(normalized)}(?:/.*)?$`);
+}
+
+/**
+ * 编译 include/exclude 模式
+ * @param patterns glob 模式列表
+ * @returns 正则表达式列表
+ * @throws GrfError 如果模式无法编译（如 `[z-a]` 这样的无效字符集合）
+ */
+function compilePatterns(patterns: string[] = []): RegExp[] {
+  return patterns.map((pattern) => {
+    try {
+      return globToRegExp(pattern);
+    } catch (error) {
+      throw new GrfError(
+        ErrorCode.INVALID_ARGUMENT,
+        `无效的 glob 模式: ${pattern}`,
+        error as Error,
+      );
+    }
+  });
+}
+
+/**
+ * 检查路径是否匹配 glob 模式
+ * @param pattern glob 模式
+ * @param relativePath 相对路径（使用正斜杠）
+ * @returns 是否匹配
+ */
+export function matchGlob(pattern: string, relativePath: string): boolean {
+  return globToRegExp(pattern).test(relativePath);
+}
+
+/**
+ * 根据 include/exclude 模式创建路径过滤函数
+ * 文件需匹配任一 include 模式（未指定时视为全部匹配），且不匹配任何 exclude 模式
+ * @param include 包含模式列表
+ * @param exclude 排除模式列表
+ * @returns 路径过滤函数，未指定任何模式时返回 undefined
+ * @throws GrfError 如果存在无效的模式
+ */
+export function createPathFilter(
+  include?: string[],
+  exclude?: string[],
+): PathFilter | undefined {
+  const includeRegExps = compilePatterns(include);
+  const excludeRegExps = compilePatterns(exclude);
+
+  if (includeRegExps.length === 0 && excludeRegExps.length === 0) {
+    return undefined;
+  }
+
+  return (relativePath: string) => {
+    const normalized = relativePath.replace(/\\/g, "/");
+    if (
+      includeRegExps.length > 0 &&
+      !includeRegExps.some((regExp) => regExp.test(normalized))
+    ) {
+      return false;
+    }
+    return !excludeRegExps.some((regExp) => regExp.test(normalized));
+  };
+}
@@ -0,0 +1,86 @@
+/**
+ * Git LFS 模块
+ * 按加载的子目录与 include 模式下载 Git LFS 对象，避免复制 LFS 指针文件
+ */
+
+import { getGitBackend } from "./git-backend.js";
+import type { GitProgressHandler } from "./git.js";
+import {
+  getSubdirMappings,
+  type MappedCopyOptions,
+  type SubdirSelection,
+} from "./subdir.js";
+
+/**
+ * 将相对于源子目录的 include 模式转换为相对于仓库根目录的 LFS 路径模式
+ * @param source 源子目录（空字符串表示仓库根目录）
+ * @param pattern include 模式
+ * @returns LFS 路径模式
+ */
+function toLfsPattern(source: string, pattern: string): string {
+  // 以 / 开头的模式只匹配源目录根部
+  if (pattern.startsWith("/")) {
+    return source ? `${source}${pattern}` : pattern.slice(1);
+  }
+  // 不包含 / 的模式匹配任意层级的文件名
+  if (!pattern.includes("/")) {
+    return source ? `${source}/**/${pattern}` : pattern;
+  }
+  return source ? `${source}/${pattern}` : pattern;
+}
+
+/**
+ * 获取拉取 LFS 对象时使用的路径模式
+ * 由子目录映射与 include 模式推导；包含逗号的模式（如 `{a,b}`）无法传给 git lfs，
+ * 此时退回到整个子目录
+ * @param selection 子目录信息
+ * @param options 文件过滤选项
+ * @returns 路径模式列表（为空时表示下载全部）
+ */
+export function getLfsIncludePaths(
+  selection: SubdirSelection,
+  options: MappedCopyOptions = {},
+): string[] {
+  const include = options.include ?? [];
+  const narrowable =
+    include.length > 0 && include.every((pattern) => !pattern.includes(","));
+  const paths = new Set<string>();
+
+  for (const { source } of getSubdirMappings(selection)) {
+    if (narrowable) {
+      for (const pattern of include) {
+        paths.add(toLfsPattern(source, pattern));
+      }
+    } else if (source) {
+      paths.add(`${source}/**`);
+    } else {
+      // 复制整个仓库且没有 include 限制时下载全部
+      return [];
+    }
+  }
+
+  return [...paths];
+}
+
+/**
+ * 下载加载内容所需的 Git LFS 对象
+ * @param repoPath 仓库（或检出）路径
+ * @param selection 子目录信息
+ * @param options 文件过滤选项
+ * @param onProgress 下载进度回调
+ * @throws GrfError 如果 git-lfs 未安装或下载失败
+ */
+export async function pullLfsObjects(
+  repoPath: string,
+  selection: SubdirSelection,
+  options: MappedCopyOptions = {},
+  onProgress?: GitProgressHandler,
+): Promise<void> {
+  await getGitBackend().lfsPull(
+    repoPath,
+    getLfsIncludePaths(selection, options),
+    {
+      onProgress,
+    },
+  );
+}
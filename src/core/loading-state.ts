@@ -4,7 +4,14 @@
  */
 
 import fs from "fs-extra";
-import { getLoadingStatePath, ensureGrfDirs } from "./paths.js";
+import path from "path";
+import { randomUUID } from "crypto";
+import type { LoadingEntry, SubdirMapping } from "../types/index.js";
+import { getLoadingStatePath, ensureGrfDirs, GRF_DIR_NAME } from "./paths.js";
+import { getReposRoot, readGlobalConfig } from "./config.js";
+import { getRepoIdentity } from "./repository.js";
+import { readLock } from "./lockfile.js";
+import { normalizeTarget, readManifest } from "./manifest.js";
 
 // ============================================================================
 // 工具函数
@@ -23,31 +30,227 @@ export function generateLoadingKey(
   return `${workingDirectory}::${targetPath}`;
 }
 
+/**
+ * 创建空的加载状态索引
+ * @returns 空索引
+ */
+function createEmptyIndex(): LoadingStateIndex {
+  return { version: LOADING_STATE_VERSION, loadedRepos: {} };
+}
+
 // ============================================================================
 // 类型定义
 // ============================================================================
 
+/** 当前加载状态文件格式版本 */
+export const LOADING_STATE_VERSION = 2;
+
 /**
  * 单个仓库的加载状态
  */
 export interface RepoLoadingState {
+  /** 唯一标识符 (UUID)，重新加载同一目标时保持不变 */
+  id: string;
+  /** 源仓库名称 (如 github.com/facebook/react)，来源未知时为空字符串 */
+  repoName: string;
+  /** 源仓库 URL，来源未知时为空 */
+  repoUrl?: string;
+  /** 从版本 1 迁移时无法确定来源仓库，需要重新加载 */
+  unresolved?: boolean;
+  /** 加载时的 commit ID */
+  commitId: string;
+  /** 加载的分支 */
+  branch?: string;
+  /** 加载时指定的标签或 commit (--ref 选项) */
+  ref?: string;
+  /** 使用的子目录 (--subdir 选项) */
+  subdir?: string;
+  /** 多个子目录映射 (--subdir src:dest 选项) */
+  subdirs?: SubdirMapping[];
+  /** 包含的文件模式 (--include 选项) */
+  include?: string[];
+  /** 排除的文件模式 (--exclude 选项) */
+  exclude?: string[];
+  /** 复制前是否下载 Git LFS 内容 (--lfs 选项) */
+  lfs?: boolean;
   /** 加载到的目标路径 */
   targetPath: string;
   /** 加载时间 (ISO 8601) */
   loadedAt: string;
-  /** 加载的分支 */
-  branch?: string;
+  /** 最后更新时间 (ISO 8601) */
+  updatedAt?: string;
   /** 工作目录绝对路径 */
   workingDirectory: string;
 }
 
+/**
+ * 标记为已加载时需要提供的字段
+ */
+export type LoadingStateInput = Omit<
+  RepoLoadingState,
+  "id" | "loadedAt" | "updatedAt"
+>;
+
 /**
  * 加载状态文件结构
  */
 export interface LoadingStateIndex {
+  /** 文件格式版本 */
+  version: number;
   loadedRepos: Record<string, RepoLoadingState>;
 }
 
+/**
+ * 版本 1 的加载状态（只记录路径、时间和分支）
+ */
+interface LegacyLoadingState {
+  targetPath: string;
+  loadedAt?: string;
+  branch?: string;
+  workingDirectory?: string;
+}
+
+/**
+ * 更早的 loading.json 格式（条目数组）
+ */
+interface LegacyLoadingConfig {
+  version?: string;
+  entries?: LoadingEntry[];
+  loadedRepos?: Record<string, LegacyLoadingState>;
+}
+
+// ============================================================================
+// 迁移
+// ============================================================================
+
+/**
+ * 在仓库索引中查找版本 1 加载状态的来源仓库
+ * 默认目标路径为 .gitreference/<repoName>，与索引中仓库的名称、主检出目录（相对于仓库存储目录）
+ * 或 URL 对应的标识一致时视为来源仓库；自定义目标路径无法与缓存对应
+ * @param targetPath 目标路径
+ * @returns 来源仓库的名称和 URL，找不到时返回 null
+ */
+async function resolveLegacyRepo(
+  targetPath: string,
+): Promise<{ name: string; url: string } | null> {
+  const normalized = targetPath.replace(/\\/g, "/").replace(/\/+$/, "");
+  const prefix = `${GRF_DIR_NAME}/`;
+  if (!normalized.startsWith(prefix)) {
+    return null;
+  }
+  const key = normalized.slice(prefix.length);
+
+  const { repos } = await readGlobalConfig();
+  const reposRoot = getReposRoot();
+  for (const [name, repo] of Object.entries(repos)) {
+    const checkout = path.relative(reposRoot, repo.path).replace(/\\/g, "/");
+    let identity: string | undefined;
+    try {
+      identity = getRepoIdentity(repo.url);
+    } catch {
+      // URL 无法解析时只按名称和检出目录匹配
+    }
+    if (name === key || checkout === key || identity === key) {
+      return { name, url: repo.url };
+    }
+  }
+  return null;
+}
+
+/**
+ * 迁移版本 1 的单个加载状态
+ * 依次从项目的 grf.lock / grf.json、仓库索引中补全仓库信息，
+ * 都找不到时标记为来源未知（不保存推测的仓库名称），由 grf doctor 报告
+ * @param state 旧版加载状态
+ * @returns 完整的加载状态
+ */
+async function migrateLegacyState(
+  state: LegacyLoadingState,
+): Promise<RepoLoadingState> {
+  const workingDirectory = state.workingDirectory ?? "";
+  const target = normalizeTarget(state.targetPath);
+  const migrated: RepoLoadingState = {
+    id: randomUUID(),
+    repoName: "",
+    commitId: "",
+    branch: state.branch,
+    targetPath: state.targetPath,
+    loadedAt: state.loadedAt ?? new Date().toISOString(),
+    workingDirectory,
+  };
+
+  try {
+    if (workingDirectory) {
+      const lockEntry = (await readLock(workingDirectory))?.references[target];
+      if (lockEntry) {
+        return {
+          ...migrated,
+          repoName: lockEntry.name,
+          repoUrl: lockEntry.url,
+          commitId: lockEntry.commit,
+          branch: state.branch ?? lockEntry.branch,
+          subdir: lockEntry.subdir,
+          subdirs: lockEntry.subdirs,
+          include: lockEntry.include,
+          exclude: lockEntry.exclude,
+        };
+      }
+
+      const manifestEntry = (
+        await readManifest(workingDirectory)
+      )?.references.find((ref) => normalizeTarget(ref.target) === target);
+      if (manifestEntry) {
+        return {
+          ...migrated,
+          repoName: manifestEntry.name,
+          repoUrl: manifestEntry.url,
+          branch: state.branch ?? manifestEntry.branch,
+          subdir: manifestEntry.subdir,
+          subdirs: manifestEntry.subdirs,
+          include: manifestEntry.include,
+          exclude: manifestEntry.exclude,
+        };
+      }
+    }
+
+    const repo = await resolveLegacyRepo(state.targetPath);
+    if (repo) {
+      return { ...migrated, repoName: repo.name, repoUrl: repo.url };
+    }
+  } catch {
+    // 项目文件或仓库索引损坏时按来源未知处理
+  }
+
+  return { ...migrated, unresolved: true };
+}
+
+/**
+ * 将旧版加载状态文件迁移到当前版本
+ * @param legacy 旧版文件内容
+ * @returns 当前版本的加载状态索引
+ */
+async function migrateLoadingState(
+  legacy: LegacyLoadingConfig,
+): Promise<LoadingStateIndex> {
+  const loadedRepos: Record<string, RepoLoadingState> = {};
+
+  // 更早的条目数组格式，条目本身已包含完整信息
+  for (const entry of legacy.entries ?? []) {
+    const workingDirectory = entry.workingDirectory ?? "";
+    loadedRepos[generateLoadingKey(workingDirectory, entry.targetPath)] = {
+      ...entry,
+      workingDirectory,
+    };
+  }
+
+  // 版本 1：只记录了路径、时间和分支
+  for (const [key, state] of Object.entries(legacy.loadedRepos ?? {})) {
+    loadedRepos[key] = await migrateLegacyState(state);
+  }
+
+  return { version: LOADING_STATE_VERSION, loadedRepos };
+}
+
 // ============================================================================
 // 加载状态管理类
 // ============================================================================
@@ -71,23 +274,35 @@ export class LoadingStateManager {
 
     const filePath = getLoadingStatePath();
 
+    let parsed: Partial<LoadingStateIndex> & LegacyLoadingConfig;
     try {
       const content = await fs.readFile(filePath, "utf-8");
-      const parsed = JSON.parse(content) as Partial<LoadingStateIndex>;
-
-      // 验证数据格式，确保 loadedRepos 字段存在
-      // 兼容旧格式文件（可能包含 version 和 entries 而不是 loadedRepos）
-      if (!parsed.loadedRepos || typeof parsed.loadedRepos !== "object") {
-        this.cache = { loadedRepos: {} };
-      } else {
-        this.cache = parsed as LoadingStateIndex;
-      }
-      return this.cache;
+      parsed = JSON.parse(content) as Partial<LoadingStateIndex> &
+        LegacyLoadingConfig;
     } catch {
       // 文件不存在或解析失败，返回空结构
-      this.cache = { loadedRepos: {} };
+      this.cache = createEmptyIndex();
+      return this.cache;
+    }
+
+    if (
+      parsed.version === LOADING_STATE_VERSION &&
+      parsed.loadedRepos &&
+      typeof parsed.loadedRepos === "object"
+    ) {
+      this.cache = parsed as LoadingStateIndex;
       return this.cache;
     }
+
+    // 旧版格式：迁移后写回，使条目 ID 从此保持稳定
+    const migrated = await migrateLoadingState(parsed);
+    try {
+      await this.write(migrated);
+    } catch {
+      // 写回失败不影响本次读取
+      this.cache = migrated;
+    }
+    return migrated;
   }
 
   /**
@@ -125,6 +340,16 @@ export class LoadingStateManager {
     return data.loadedRepos[key];
   }
 
+  /**
+   * 根据 ID 获取加载状态
+   * @param id 条目 ID
+   * @returns 加载状态，如果不存在则返回 undefined
+   */
+  async getById(id: string): Promise<RepoLoadingState | undefined> {
+    const data = await this.read();
+    return Object.values(data.loadedRepos).find((state) => state.id === id);
+  }
+
   /**
    * 设置仓库的加载状态
    * @param workingDirectory 工作目录绝对路径
@@ -196,7 +421,7 @@ export class LoadingStateManager {
    * 清空所有加载状态
    */
   async clear(): Promise<void> {
-    await this.write({ loadedRepos: {} });
+    await this.write(createEmptyIndex());
   }
 
   /**
@@ -204,7 +429,7 @@ export class LoadingStateManager {
    * @param states 加载状态记录
    */
   async setAll(states: Record<string, RepoLoadingState>): Promise<void> {
-    await this.write({ loadedRepos: states });
+    await this.write({ version: LOADING_STATE_VERSION, loadedRepos: states });
   }
 
   /**
@@ -251,26 +476,69 @@ export async function getLoadingState(
   return loadingState.get(workingDirectory, targetPath);
 }
 
+/**
+ * 根据 ID 获取加载状态
+ * @param id 条目 ID
+ * @returns 加载状态，如果不存在则返回 undefined
+ */
+export async function getLoadingStateById(
+  id: string,
+): Promise<RepoLoadingState | undefined> {
+  return loadingState.getById(id);
+}
+
 /**
  * 标记仓库为已加载
- * @param targetPath 加载到的目标路径
- * @param workingDirectory 工作目录绝对路径
- * @param branch 加载的分支（可选）
+ * 重新加载同一目标时沿用原有的条目 ID
+ * @param input 加载信息
+ * @returns 保存的加载状态
  */
 export async function markAsLoaded(
-  targetPath: string,
-  workingDirectory: string,
-  branch?: string,
-): Promise<void> {
+  input: LoadingStateInput,
+): Promise<RepoLoadingState> {
+  const existing = await loadingState.get(
+    input.workingDirectory,
+    input.targetPath,
+  );
   const state: RepoLoadingState = {
-    targetPath,
+    ...input,
+    id: existing?.id ?? randomUUID(),
     loadedAt: new Date().toISOString(),
-    workingDirectory,
   };
-  if (branch !== undefined) {
-    state.branch = branch;
+  await loadingState.set(input.workingDirectory, input.targetPath, state);
+  return state;
+}
+
+/**
+ * 根据 ID 更新加载状态
+ * 目标路径或工作目录变化时会移动到新的键
+ * @param id 条目 ID
+ * @param updates 要更新的字段
+ * @returns 更新后的加载状态，如果不存在则返回 undefined
+ */
+export async function updateLoadingState(
+  id: string,
+  updates: Partial<Omit<RepoLoadingState, "id" | "loadedAt">>,
+): Promise<RepoLoadingState | undefined> {
+  const existing = await loadingState.getById(id);
+  if (!existing) {
+    return undefined;
+  }
+
+  const updated: RepoLoadingState = {
+    ...existing,
+    ...updates,
+    updatedAt: new Date().toISOString(),
+  };
+
+  if (
+    updated.targetPath !== existing.targetPath ||
+    updated.workingDirectory !== existing.workingDirectory
+  ) {
+    await loadingState.remove(existing.workingDirectory, existing.targetPath);
   }
-  await loadingState.set(workingDirectory, targetPath, state);
+  await loadingState.set(updated.workingDirectory, updated.targetPath, updated);
+  return updated;
 }
 
 /**
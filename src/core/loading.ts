@@ -7,14 +7,17 @@
  */
 
 import * as path from "path";
-import { randomUUID } from "crypto";
 import type { LoadingEntry, LoadingConfig } from "../types/index.js";
 import { getLoadingStatePath } from "./paths.js";
+import { clearSnapshots, removeSnapshot } from "./snapshot.js";
 import {
   loadingState,
+  generateLoadingKey,
   getAllLoadingStates,
+  getLoadingStateById,
   markAsLoaded,
   markAsUnloaded,
+  updateLoadingState,
   type RepoLoadingState,
 } from "./loading-state.js";
 
@@ -22,33 +25,12 @@ import {
 const CONFIG_VERSION = "1.0.0";
 
 /**
- * 从 RepoLoadingState 和键构建 LoadingEntry
- * @param key 唯一键 (workingDirectory::targetPath)
+ * 从 RepoLoadingState 构建 LoadingEntry
  * @param state 加载状态
  * @returns LoadingEntry 对象
  */
-function buildEntryFromState(
-  key: string,
-  state: RepoLoadingState,
-): LoadingEntry {
-  // 从 targetPath 中提取 repoName（用于显示）
-  // targetPath 格式通常为 .gitreference/owner/repo 或自定义路径
-  const pathParts = state.targetPath.split("/");
-  const repoName =
-    pathParts.length >= 3
-      ? `${pathParts[pathParts.length - 2]}/${pathParts[pathParts.length - 1]}`
-      : pathParts[pathParts.length - 1] || state.targetPath;
-
-  return {
-    id: randomUUID(), // 每次构建时生成新 ID（兼容层限制）
-    repoName,
-    repoUrl: "", // 新模块不存储此信息
-    commitId: "", // 新模块不存储此信息
-    branch: state.branch,
-    targetPath: state.targetPath,
-    loadedAt: state.loadedAt,
-    workingDirectory: state.workingDirectory,
-  };
+function buildEntryFromState(state: RepoLoadingState): LoadingEntry {
+  return { ...state };
 }
 
 /**
@@ -69,8 +51,8 @@ export async function readLoadingConfig(): Promise<LoadingConfig> {
   const states = await getAllLoadingStates();
 
   // 转换为 LoadingEntry 格式
-  const entries: LoadingEntry[] = Object.entries(states).map(([key, state]) =>
-    buildEntryFromState(key, state),
+  const entries: LoadingEntry[] = Object.values(states).map((state) =>
+    buildEntryFromState(state),
   );
 
   return {
@@ -85,38 +67,34 @@ export async function readLoadingConfig(): Promise<LoadingConfig> {
  * @deprecated 此函数保留用于兼容，但建议使用 addEntry/removeEntry 等函数
  */
 export async function writeLoadingConfig(config: LoadingConfig): Promise<void> {
-  // 清空现有状态
-  await loadingState.clear();
+  const states: Record<string, RepoLoadingState> = {};
 
-  // 逐个添加条目
   for (const entry of config.entries) {
     // 兼容层：旧的 LoadingEntry 没有 workingDirectory，使用空字符串作为占位
-    const workingDir = entry.workingDirectory || "";
-    await markAsLoaded(entry.targetPath, workingDir, entry.branch);
+    const workingDirectory = entry.workingDirectory || "";
+    states[generateLoadingKey(workingDirectory, entry.targetPath)] = {
+      ...entry,
+      workingDirectory,
+    };
   }
+
+  await loadingState.setAll(states);
 }
 
 /**
  * 添加加载条目
+ * 同一工作目录和目标路径重复加载时沿用原有的条目 ID
  * @param entry 加载条目（不含 id 和 loadedAt），必须包含 workingDirectory
  * @returns 添加的完整条目
  */
 export async function addEntry(
-  entry: Omit<LoadingEntry, "id" | "loadedAt"> & { workingDirectory: string },
+  entry: Omit<LoadingEntry, "id" | "loadedAt" | "updatedAt"> & {
+    workingDirectory: string;
+  },
 ): Promise<LoadingEntry> {
-  const loadedAt = new Date().toISOString();
-
-  // 使用新模块标记为已加载（使用 workingDirectory + targetPath 作为唯一键）
-  await markAsLoaded(entry.targetPath, entry.workingDirectory, entry.branch);
-
-  // 构建完整的条目
-  const newEntry: LoadingEntry = {
-    ...entry,
-    id: randomUUID(),
-    loadedAt,
-  };
-
-  return newEntry;
+  // 使用 workingDirectory + targetPath 作为唯一键
+  const state = await markAsLoaded(entry);
+  return buildEntryFromState(state);
 }
 
 /**
@@ -132,14 +110,12 @@ export async function getEntries(): Promise<LoadingEntry[]> {
  * 根据 ID 获取加载条目
  * @param id 条目 ID
  * @returns 加载条目，如果不存在则返回 undefined
- * @deprecated 新模块不支持按 ID 查询，此函数功能受限
  */
 export async function getEntryById(
   id: string,
 ): Promise<LoadingEntry | undefined> {
-  // 新模块不支持按 ID 查询，遍历所有条目
-  const entries = await getEntries();
-  return entries.find((entry) => entry.id === id);
+  const state = await getLoadingStateById(id);
+  return state ? buildEntryFromState(state) : undefined;
 }
 
 /**
@@ -154,9 +130,9 @@ export async function getEntryByTargetPath(
   const normalizedTarget = path.normalize(targetPath);
 
   // 查找匹配的条目
-  for (const [key, state] of Object.entries(states)) {
+  for (const state of Object.values(states)) {
     if (path.normalize(state.targetPath) === normalizedTarget) {
-      return buildEntryFromState(key, state);
+      return buildEntryFromState(state);
     }
   }
 
@@ -174,10 +150,10 @@ export async function getEntriesByRepoName(
   const states = await getAllLoadingStates();
   const results: LoadingEntry[] = [];
 
-  // 查找包含指定名称的仓库（在 targetPath 中搜索）
-  for (const [key, state] of Object.entries(states)) {
-    if (state.targetPath.includes(repoName)) {
-      results.push(buildEntryFromState(key, state));
+  // 查找仓库名称匹配或目标路径包含指定名称的条目
+  for (const state of Object.values(states)) {
+    if (state.repoName === repoName || state.targetPath.includes(repoName)) {
+      results.push(buildEntryFromState(state));
     }
   }
 
@@ -188,19 +164,17 @@ export async function getEntriesByRepoName(
  * 删除加载条目
  * @param id 条目 ID
  * @returns 是否成功删除
- * @deprecated 新模块不支持按 ID 删除，此函数功能受限
  */
 export async function removeEntry(id: string): Promise<boolean> {
-  // 新模块不支持按 ID 删除，需要先找到对应的条目
-  const entries = await getEntries();
-  const entry = entries.find((e) => e.id === id);
+  const state = await getLoadingStateById(id);
 
-  if (!entry) {
+  if (!state) {
     return false;
   }
 
-  // 使用 workingDirectory + targetPath 删除
-  return markAsUnloaded(entry.workingDirectory || "", entry.targetPath);
+  // 使用 workingDirectory + targetPath 删除，并清理文件快照
+  await removeSnapshot(id);
+  return markAsUnloaded(state.workingDirectory, state.targetPath);
 }
 
 /**
@@ -215,10 +189,11 @@ export async function removeEntryByTargetPath(
   const normalizedTarget = path.normalize(targetPath);
 
   // 查找匹配的条目
-  for (const [key, state] of Object.entries(states)) {
+  for (const state of Object.values(states)) {
     if (path.normalize(state.targetPath) === normalizedTarget) {
-      const entry = buildEntryFromState(key, state);
+      const entry = buildEntryFromState(state);
       await markAsUnloaded(state.workingDirectory, state.targetPath);
+      await removeSnapshot(state.id);
       return entry;
     }
   }
@@ -227,10 +202,11 @@ export async function removeEntryByTargetPath(
 }
 
 /**
- * 清空所有加载条目
+ * 清空所有加载条目及其文件快照
  */
 export async function clearAllEntries(): Promise<void> {
   await loadingState.clear();
+  await clearSnapshots();
 }
 
 /**
@@ -238,39 +214,11 @@ export async function clearAllEntries(): Promise<void> {
  * @param id 条目 ID
  * @param updates 要更新的字段
  * @returns 更新后的条目，如果不存在则返回 undefined
- * @deprecated 新模块不支持按 ID 更新，此函数功能受限
  */
 export async function updateEntry(
   id: string,
   updates: Partial<Omit<LoadingEntry, "id" | "loadedAt">>,
 ): Promise<LoadingEntry | undefined> {
-  // 新模块不支持按 ID 更新，需要先找到对应的条目
-  const entries = await getEntries();
-  const entry = entries.find((e) => e.id === id);
-
-  if (!entry) {
-    return undefined;
-  }
-
-  // 更新加载状态
-  const oldWorkingDir = entry.workingDirectory || "";
-  const oldTargetPath = entry.targetPath;
-  const newTargetPath = updates.targetPath ?? entry.targetPath;
-  const newWorkingDir = updates.workingDirectory ?? oldWorkingDir;
-  const newBranch = updates.branch ?? entry.branch;
-
-  // 如果路径变了，需要先删除旧的
-  if (updates.targetPath && updates.targetPath !== entry.targetPath) {
-    await markAsUnloaded(oldWorkingDir, oldTargetPath);
-  }
-
-  // 设置新的状态
-  await markAsLoaded(newTargetPath, newWorkingDir, newBranch);
-
-  // 返回更新后的条目
-  return {
-    ...entry,
-    ...updates,
-    updatedAt: new Date().toISOString(),
-  };
+  const state = await updateLoadingState(id, updates);
+  return state ? buildEntryFromState(state) : undefined;
 }
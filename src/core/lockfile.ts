@@ -0,0 +1,179 @@
+/**
+ * 项目锁文件模块
+ * 管理项目根目录下的 grf.lock，锁定每个参考代码的 commit 与内容哈希
+ */
+
+import fs from "fs-extra";
+import {
+  ErrorCode,
+  GrfError,
+  type LockEntry,
+  type ProjectLock,
+} from "../types/index.js";
+import { getProjectLockPath } from "./paths.js";
+import { normalizeTarget } from "./manifest.js";
+import { stripUrlCredential } from "./credentials.js";
+
+/** 当前锁文件格式版本 */
+const LOCKFILE_VERSION = 1;
+
+/**
+ * 创建空锁文件
+ * @returns 空的锁文件对象
+ */
+function createEmptyLock(): ProjectLock {
+  return {
+    lockfileVersion: LOCKFILE_VERSION,
+    references: {},
+  };
+}
+
+/**
+ * 读取项目锁文件
+ * @param projectRoot 项目根目录
+ * @returns 锁文件对象，如果不存在则返回 null
+ */
+export async function readLock(
+  projectRoot: string,
+): Promise<ProjectLock | null> {
+  const lockPath = getProjectLockPath(projectRoot);
+
+  try {
+    if (!(await fs.pathExists(lockPath))) {
+      return null;
+    }
+
+    const content = await fs.readFile(lockPath, "utf-8");
+    const parsed = JSON.parse(content) as Partial<ProjectLock>;
+
+    return {
+      lockfileVersion: parsed.lockfileVersion ?? LOCKFILE_VERSION,
+      references:
+        parsed.references && typeof parsed.references === "object"
+          ? parsed.references
+          : {},
+    };
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      throw new GrfError(
+        ErrorCode.CONFIG_PARSE_ERROR,
+        `锁文件解析失败: ${lockPath}: ${error.message}`,
+        error,
+      );
+    }
+
+    throw new GrfError(
+      ErrorCode.CONFIG_NOT_FOUND,
+      `读取锁文件失败: ${(error as Error).message}`,
+      error as Error,
+    );
+  }
+}
+
+/**
+ * 写入项目锁文件
+ * 条目按目标路径排序，保证输出稳定、便于代码审查；条目 URL 中的凭据在写入前去除
+ * @param projectRoot 项目根目录
+ * @param lock 锁文件对象
+ */
+export async function writeLock(
+  projectRoot: string,
+  lock: ProjectLock,
+): Promise<void> {
+  try {
+    const sorted: Record<string, LockEntry> = {};
+    for (const target of Object.keys(lock.references).sort()) {
+      const entry = lock.references[target];
+      sorted[target] = { ...entry, url: stripUrlCredential(entry.url) };
+    }
+
+    const content =
+      JSON.stringify(
+        { lockfileVersion: lock.lockfileVersion, references: sorted },
+        null,
+        2,
+      ) + "\n";
+    await fs.writeFile(getProjectLockPath(projectRoot), content, "utf-8");
+  } catch (error) {
+    throw new GrfError(
+      ErrorCode.CONFIG_WRITE_ERROR,
+      `写入锁文件失败: ${(error as Error).message}`,
+      error as Error,
+    );
+  }
+}
+
+/**
+ * 获取单个锁定条目
+ * @param projectRoot 项目根目录
+ * @param target 目标路径（相对于项目根目录）
+ * @returns 锁定条目，如果不存在则返回 undefined
+ */
+export async function getLockEntry(
+  projectRoot: string,
+  target: string,
+): Promise<LockEntry | undefined> {
+  const lock = await readLock(projectRoot);
+  return lock?.references[normalizeTarget(target)];
+}
+
+/**
+ * 添加或更新锁定条目
+ * 锁文件不存在时自动创建
+ * @param projectRoot 项目根目录
+ * @param target 目标路径（相对于项目根目录）
+ * @param entry 锁定条目
+ */
+export async function saveLockEntry(
+  projectRoot: string,
+  target: string,
+  entry: LockEntry,
+): Promise<void> {
+  const lock = (await readLock(projectRoot)) ?? createEmptyLock();
+  lock.references[normalizeTarget(target)] = entry;
+  await writeLock(projectRoot, lock);
+}
+
+/**
+ * 更新已存在的锁定条目（条目不存在时不做任何操作）
+ * @param projectRoot 项目根目录
+ * @param target 目标路径（相对于项目根目录）
+ * @param updates 要更新的字段
+ * @returns 是否更新了条目
+ */
+export async function updateLockEntry(
+  projectRoot: string,
+  target: string,
+  updates: Partial<LockEntry>,
+): Promise<boolean> {
+  const lock = await readLock(projectRoot);
+  const key = normalizeTarget(target);
+  if (!lock?.references[key]) {
+    return false;
+  }
+
+  lock.references[key] = { ...lock.references[key], ...updates };
+  await writeLock(projectRoot, lock);
+  return true;
+}
+
+/**
+ * 移除锁定条目
+ * @param projectRoot 项目根目录
+ * @param target 目标路径（相对于项目根目录）
+ * @returns 是否成功移除（锁文件或条目不存在则返回 false）
+ */
+export async function removeLockEntry(
+  projectRoot: string,
+  target: string,
+): Promise<boolean> {
+  const lock = await readLock(projectRoot);
+  const key = normalizeTarget(target);
+  if (!lock || !(key in lock.references)) {
+    return false;
+  }
+
+  delete lock.references[key];
+  await writeLock(projectRoot, lock);
+  return true;
+}
@@ -0,0 +1,203 @@
+/**
+ * 项目清单模块
+ * 管理项目根目录下的 grf.json，记录项目声明的参考代码
+ */
+
+import fs from "fs-extra";
+import path from "path";
+import {
+  ErrorCode,
+  GrfError,
+  type ManifestEntry,
+  type ProjectManifest,
+} from "../types/index.js";
+import { getProjectManifestPath } from "./paths.js";
+import { stripUrlCredential } from "./credentials.js";
+
+/** 当前清单版本 */
+const MANIFEST_VERSION = "1.0.0";
+
+/**
+ * 规范化目标路径，便于比较
+ * @param target 目标路径（相对于项目根目录）
+ * @returns 使用正斜杠且不带结尾斜杠的路径
+ */
+export function normalizeTarget(target: string): string {
+  return path.posix.normalize(target.replace(/\\/g, "/")).replace(/\/+$/, "");
+}
+
+/**
+ * 检查目标路径是否位于项目目录内
+ * 清单随项目提交，可能来自不受信任的来源，而 install 会删除并重建目标目录，
+ * 因此不允许绝对路径、项目根目录本身和指向项目外的路径
+ * @param target 目标路径
+ * @returns 是否为项目内的相对路径
+ */
+function isTargetInsideProject(target: string): boolean {
+  if (
+    typeof target !== "string" ||
+    path.posix.isAbsolute(target.replace(/\\/g, "/")) ||
+    path.win32.isAbsolute(target)
+  ) {
+    return false;
+  }
+  const normalized = normalizeTarget(target);
+  return (
+    normalized !== "." && normalized !== ".." && !normalized.startsWith("../")
+  );
+}
+
+/**
+ * 创建空清单
+ * @returns 空的项目清单
+ */
+function createEmptyManifest(): ProjectManifest {
+  return {
+    version: MANIFEST_VERSION,
+    references: [],
+  };
+}
+
+/**
+ * 检查项目清单是否存在
+ * @param projectRoot 项目根目录
+ * @returns 是否存在
+ */
+export async function manifestExists(projectRoot: string): Promise<boolean> {
+  return fs.pathExists(getProjectManifestPath(projectRoot));
+}
+
+/**
+ * 读取项目清单
+ * 目标路径不在项目目录内的清单视为无效
+ * @param projectRoot 项目根目录
+ * @returns 项目清单，如果不存在则返回 null
+ * @throws GrfError 如果清单无法解析或包含无效的目标路径
+ */
+export async function readManifest(
+  projectRoot: string,
+): Promise<ProjectManifest | null> {
+  const manifestPath = getProjectManifestPath(projectRoot);
+  let manifest: ProjectManifest;
+
+  try {
+    if (!(await fs.pathExists(manifestPath))) {
+      return null;
+    }
+
+    const content = await fs.readFile(manifestPath, "utf-8");
+    const parsed = JSON.parse(content) as Partial<ProjectManifest>;
+
+    manifest = {
+      version: parsed.version ?? MANIFEST_VERSION,
+      references: Array.isArray(parsed.references) ? parsed.references : [],
+    };
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      throw new GrfError(
+        ErrorCode.CONFIG_PARSE_ERROR,
+        `项目清单解析失败: ${manifestPath}: ${error.message}`,
+        error,
+      );
+    }
+
+    throw new GrfError(
+      ErrorCode.CONFIG_NOT_FOUND,
+      `读取项目清单失败: ${(error as Error).message}`,
+      error as Error,
+    );
+  }
+
+  const invalid = manifest.references.find(
+    (entry) => !isTargetInsideProject(entry.target),
+  );
+  if (invalid) {
+    throw new GrfError(
+      ErrorCode.CONFIG_PARSE_ERROR,
+      `项目清单中的目标路径必须是项目内的相对路径: ${manifestPath}: ${String(invalid.target)}`,
+    );
+  }
+
+  return manifest;
+}
+
+/**
+ * 写入项目清单
+ * 清单会提交到版本库，条目 URL 中的凭据在写入前去除
+ * @param projectRoot 项目根目录
+ * @param manifest 项目清单
+ */
+export async function writeManifest(
+  projectRoot: string,
+  manifest: ProjectManifest,
+): Promise<void> {
+  try {
+    const manifestPath = getProjectManifestPath(projectRoot);
+    const references = manifest.references.map((entry) => ({
+      ...entry,
+      url: stripUrlCredential(entry.url),
+    }));
+    const content = JSON.stringify({ ...manifest, references }, null, 2) + "\n";
+    await fs.writeFile(manifestPath, content, "utf-8");
+  } catch (error) {
+    throw new GrfError(
+      ErrorCode.CONFIG_WRITE_ERROR,
+      `写入项目清单失败: ${(error as Error).message}`,
+      error as Error,
+    );
+  }
+}
+
+/**
+ * 添加或更新清单条目（以目标路径为唯一键）
+ * 清单不存在时自动创建
+ * @param projectRoot 项目根目录
+ * @param entry 清单条目
+ */
+export async function saveManifestEntry(
+  projectRoot: string,
+  entry: ManifestEntry,
+): Promise<void> {
+  const manifest = (await readManifest(projectRoot)) ?? createEmptyManifest();
+  const target = normalizeTarget(entry.target);
+  const normalizedEntry: ManifestEntry = { ...entry, target };
+
+  const index = manifest.references.findIndex(
+    (ref) => normalizeTarget(ref.target) === target,
+  );
+  if (index === -1) {
+    manifest.references.push(normalizedEntry);
+  } else {
+    manifest.references[index] = normalizedEntry;
+  }
+
+  await writeManifest(projectRoot, manifest);
+}
+
+/**
+ * 从清单中移除条目
+ * @param projectRoot 项目根目录
+ * @param target 目标路径（相对于项目根目录）
+ * @returns 是否成功移除（清单或条目不存在则返回 false）
+ */
+export async function removeManifestEntry(
+  projectRoot: string,
+  target: string,
+): Promise<boolean> {
+  const manifest = await readManifest(projectRoot);
+  if (!manifest) {
+    return false;
+  }
+
+  const normalizedTarget = normalizeTarget(target);
+  const remaining = manifest.references.filter(
+    (ref) => normalizeTarget(ref.target) !== normalizedTarget,
+  );
+  if (remaining.length === manifest.references.length) {
+    return false;
+  }
+
+  manifest.references = remaining;
+  await writeManifest(projectRoot, manifest);
+  return true;
+}
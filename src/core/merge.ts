@@ -0,0 +1,113 @@
+/**
+ * 三方合并模块
+ * 将上游更新合并到带有本地修改的目录中，保留本地修改
+ */
+
+import fs from "fs-extra";
+import path from "path";
+import { getGitBackend } from "./git-backend.js";
+import { hashFiles } from "./filesystem.js";
+
+/**
+ * 目录合并结果
+ */
+export interface MergeResult {
+  /** 本地与上游均有修改且已自动合并的文件 */
+  merged: string[];
+  /** 存在冲突的文件（已写入冲突标记或保留了本地版本） */
+  conflicts: string[];
+}
+
+/**
+ * 计算目录中的文件哈希，目录不存在时返回空映射
+ * @param dirPath 目录路径
+ * @returns 相对路径到哈希的映射
+ */
+async function readHashes(dirPath: string): Promise<Map<string, string>> {
+  if (!(await fs.pathExists(dirPath))) {
+    return new Map();
+  }
+  return new Map(Object.entries(await hashFiles(dirPath)));
+}
+
+/**
+ * 对目录执行三方合并，结果写入 currentDir
+ *
+ * 对每个文件：
+ * - 只有上游修改：使用上游版本（包括删除）
+ * - 只有本地修改：保留本地版本
+ * - 双方都修改：使用 git merge-file 合并，冲突时写入冲突标记
+ * - 一方删除、另一方修改：保留修改后的版本并记为冲突
+ *
+ * @param baseDir 共同祖先（加载时的版本），缺失的文件会以空文件补齐
+ * @param currentDir 当前目录（带本地修改），合并结果写入此处
+ * @param otherDir 上游更新后的版本
+ * @returns 合并结果（各列表已排序）
+ */
+export async function mergeDirectories(
+  baseDir: string,
+  currentDir: string,
+  otherDir: string,
+): Promise<MergeResult> {
+  const base = await readHashes(baseDir);
+  const current = await readHashes(currentDir);
+  const other = await readHashes(otherDir);
+  const result: MergeResult = { merged: [], conflicts: [] };
+
+  const files = [
+    ...new Set([...base.keys(), ...current.keys(), ...other.keys()]),
+  ];
+  files.sort();
+
+  for (const file of files) {
+    const baseHash = base.get(file);
+    const currentHash = current.get(file);
+    const otherHash = other.get(file);
+    const currentPath = path.join(currentDir, file);
+    const otherPath = path.join(otherDir, file);
+
+    // 双方结果一致，或上游未修改
+    if (currentHash === otherHash || otherHash === baseHash) {
+      continue;
+    }
+
+    // 本地未修改，直接使用上游版本
+    if (currentHash === baseHash) {
+      if (otherHash === undefined) {
+        await fs.remove(currentPath);
+      } else {
+        await fs.copy(otherPath, currentPath, { overwrite: true });
+      }
+      continue;
+    }
+
+    // 一方删除、另一方修改：保留修改后的版本
+    if (currentHash === undefined || otherHash === undefined) {
+      if (currentHash === undefined) {
+        await fs.copy(otherPath, currentPath);
+      }
+      result.conflicts.push(file);
+      continue;
+    }
+
+    // 双方都修改（或双方新增）：三方合并
+    const basePath = path.join(baseDir, file);
+    if (baseHash === undefined) {
+      await fs.ensureFile(basePath);
+    }
+
+    try {
+      const conflictCount = await getGitBackend().mergeFile(
+        currentPath,
+        basePath,
+        otherPath,
+      );
+      (conflictCount > 0 ? result.conflicts : result.merged).push(file);
+    } catch {
+      // 无法合并（如二进制文件），保留本地版本
+      result.conflicts.push(file);
+    }
+  }
+
+  return result;
+}
@@ -14,6 +14,9 @@ import path from "path";
 /** grf 配置目录名称 */
 export const GRF_DIR_NAME = ".gitreference";
 
+/** 指定 grf 根目录的环境变量（未设置时使用 ~/.gitreference） */
+export const GRF_HOME_ENV = "GRF_HOME";
+
 /** 配置子目录名称 */
 export const CONFIG_DIR_NAME = "config";
 
@@ -27,6 +30,10 @@ export const CONFIG_FILES = {
   DEFAULT_BRANCH: "default-branch.json",
   SHALLOW_CLONE: "shallow-clone.json",
   SHALLOW_DEPTH: "shallow-depth.json",
+  GC_MAX_SIZE: "gc-max-size.json",
+  GC_OLDER_THAN: "gc-older-than.json",
+  GC_UNUSED: "gc-unused.json",
+  STORAGE_ROOT: "storage-root.json",
 } as const;
 
 /** 仓库索引文件名 */
@@ -35,21 +42,78 @@ export const REPOS_INDEX_FILE = "repos.json";
 /** 加载状态文件名 */
 export const LOADING_STATE_FILE = "loading.json";
 
+/** 文件快照目录名称 */
+export const SNAPSHOTS_DIR_NAME = "snapshots";
+
+/** 仓库裸镜像目录名称 */
+export const MIRRORS_DIR_NAME = "mirrors";
+
+/** 按引用检出的工作树目录名称 */
+export const WORKTREES_DIR_NAME = "worktrees";
+
+/** 凭据文件名（按主机名保存访问令牌） */
+export const CREDENTIALS_FILE = "credentials.json";
+
 /** 旧版配置文件名（用于迁移） */
 export const LEGACY_CONFIG_FILE = "config.json";
 
+/** 项目清单文件名（位于项目根目录） */
+export const PROJECT_MANIFEST_FILE = "grf.json";
+
+/** 项目锁文件名（位于项目根目录） */
+export const PROJECT_LOCK_FILE = "grf.lock";
+
 // ============================================================================
 // 路径获取函数
 // ============================================================================
 
 /**
  * 获取 .gitreference 根目录路径
+ * 设置了 GRF_HOME 环境变量时使用该目录
  * @returns grf 根目录的绝对路径 (~/.gitreference/)
  */
 export function getGrfRoot(): string {
+  const home = process.env[GRF_HOME_ENV];
+  if (home) {
+    return path.resolve(home);
+  }
   return path.join(os.homedir(), GRF_DIR_NAME);
 }
 
+/** 已读取的 storageRoot 配置（null 表示尚未读取），修改配置后通过 clearStorageRootCache 清除 */
+let storageRootCache: { value?: string } | null = null;
+
+/**
+ * 获取缓存存储根目录路径（repos/、mirrors/、worktrees/ 所在目录）
+ * 配置了 storageRoot 时使用该目录，否则与 grf 根目录相同；
+ * 路径函数是同步的，因此直接读取配置文件而不经过 ConfigManager，读取结果在进程内缓存
+ * @returns 缓存存储根目录的绝对路径
+ */
+export function getStorageRoot(): string {
+  if (!storageRootCache) {
+    storageRootCache = {};
+    try {
+      const content = fs.readJsonSync(
+        getConfigFilePath(CONFIG_FILES.STORAGE_ROOT),
+      ) as { value?: string };
+      if (content.value) {
+        storageRootCache.value = path.resolve(content.value);
+      }
+    } catch {
+      // 配置文件不存在或无法解析，使用默认位置
+    }
+  }
+  return storageRootCache.value ?? getGrfRoot();
+}
+
+/**
+ * 清除已读取的 storageRoot 配置
+ * 修改 storageRoot（config set、cache move）后调用，下次获取时重新读取配置文件
+ */
+export function clearStorageRootCache(): void {
+  storageRootCache = null;
+}
+
 /**
  * 获取 config 子目录路径
  * @returns 配置子目录的绝对路径 (~/.gitreference/config/)
@@ -83,6 +147,47 @@ export function getLoadingStatePath(): string {
   return path.join(getGrfRoot(), LOADING_STATE_FILE);
 }
 
+/**
+ * 获取文件快照目录路径
+ * @returns 文件快照目录的绝对路径 (~/.gitreference/snapshots/)
+ */
+export function getSnapshotsDir(): string {
+  return path.join(getGrfRoot(), SNAPSHOTS_DIR_NAME);
+}
+
+/**
+ * 获取加载条目的文件快照路径
+ * @param entryId 加载条目 ID
+ * @returns 文件快照的绝对路径 (~/.gitreference/snapshots/{entryId}.json)
+ */
+export function getSnapshotPath(entryId: string): string {
+  return path.join(getSnapshotsDir(), `${entryId}.json`);
+}
+
+/**
+ * 获取仓库裸镜像目录路径
+ * @returns 裸镜像目录的绝对路径 ({storageRoot}/mirrors/)
+ */
+export function getMirrorsDir(): string {
+  return path.join(getStorageRoot(), MIRRORS_DIR_NAME);
+}
+
+/**
+ * 获取按引用检出的工作树目录路径
+ * @returns 工作树目录的绝对路径 ({storageRoot}/worktrees/)
+ */
+export function getWorktreesDir(): string {
+  return path.join(getStorageRoot(), WORKTREES_DIR_NAME);
+}
+
+/**
+ * 获取凭据文件路径
+ * @returns 凭据文件的绝对路径 (~/.gitreference/credentials.json)
+ */
+export function getCredentialsPath(): string {
+  return path.join(getGrfRoot(), CREDENTIALS_FILE);
+}
+
 /**
  * 获取旧版配置文件路径（用于迁移）
  * @returns 旧版配置文件的绝对路径 (~/.gitreference/config.json)
@@ -91,6 +196,24 @@ export function getLegacyConfigPath(): string {
   return path.join(getGrfRoot(), LEGACY_CONFIG_FILE);
 }
 
+/**
+ * 获取项目清单文件路径
+ * @param projectRoot 项目根目录
+ * @returns 项目清单文件的绝对路径 ({projectRoot}/grf.json)
+ */
+export function getProjectManifestPath(projectRoot: string): string {
+  return path.join(projectRoot, PROJECT_MANIFEST_FILE);
+}
+
+/**
+ * 获取项目锁文件路径
+ * @param projectRoot 项目根目录
+ * @returns 项目锁文件的绝对路径 ({projectRoot}/grf.lock)
+ */
+export function getProjectLockPath(projectRoot: string): string {
+  return path.join(projectRoot, PROJECT_LOCK_FILE);
+}
+
 // ============================================================================
 // 工具函数
 // ============================================================================
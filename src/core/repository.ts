@@ -3,8 +3,9 @@
  * 负责仓库的增删改查操作，整合配置、Git 和文件系统模块
  */
 
+import os from "os";
 import path from "path";
-import { ErrorCode, GrfError, RepoMeta } from "../types/index.js";
+import { ErrorCode, GrfError, RepoEntry, RepoMeta } from "../types/index.js";
 import {
   getReposRoot,
   readGlobalConfig,
@@ -13,7 +14,14 @@ import {
   writeRepoMeta,
   ensureConfigDir,
 } from "./config.js";
-import * as git from "./git.js";
+import { getMirrorsDir, getWorktreesDir } from "./paths.js";
+import {
+  splitUrlCredential,
+  stripUrlCredential,
+  useSessionCredential,
+} from "./credentials.js";
+import { getGitBackend } from "./git-backend.js";
+import type { GitProgressHandler } from "./git.js";
 import * as fs from "./filesystem.js";
 
 /**
@@ -24,10 +32,18 @@ export interface AddOptions {
   name?: string;
   /** 指定分支 */
   branch?: string;
+  /** 指定标签或 commit（以分离 HEAD 方式检出） */
+  ref?: string;
   /** 是否浅克隆 */
   shallow?: boolean;
   /** 浅克隆深度 */
   depth?: number;
+  /** 稀疏检出的路径（使用部分克隆，只检出这些目录） */
+  sparse?: string[];
+  /** 是否检出 Git 子模块 */
+  recursive?: boolean;
+  /** 克隆进度回调 */
+  onProgress?: GitProgressHandler;
 }
 
 /**
@@ -42,31 +58,167 @@ export interface RepoInfo {
   path: string;
   /** 当前 commit ID */
   commitId: string;
-  /** 分支名 */
+  /** 分支名（固定到标签或 commit 时为空） */
   branch?: string;
+  /** 标签名（固定到标签时） */
+  tag?: string;
+  /** 固定的引用（标签名或 commit SHA） */
+  ref?: string;
+  /** 稀疏检出的路径（部分克隆时） */
+  sparse?: string[];
+  /** 是否检出 Git 子模块 */
+  recursive?: boolean;
+  /** 浅克隆深度（完整历史时为空） */
+  depth?: number;
   /** 添加时间 */
   addedAt: string;
   /** 更新时间 */
   updatedAt: string;
 }
 
+/**
+ * 加载时选择的引用
+ * 都未指定时使用仓库主检出目录（repos/ 下）的当前引用
+ */
+export interface RefSelector {
+  /** 分支名 */
+  branch?: string;
+  /** 标签名或 commit SHA（优先于 branch） */
+  ref?: string;
+}
+
+/**
+ * Git URL 协议
+ * - file: file:// URL 或本地路径
+ */
+export type RepoUrlProtocol = "https" | "http" | "ssh" | "git" | "file";
+
 /**
  * 解析后的仓库 URL 信息
  */
 export interface ParsedRepoUrl {
-  /** 主机名（如 github.com 或 127.0.0.1:3087） */
+  /** 协议 */
+  protocol: RepoUrlProtocol;
+  /** 主机名（小写，本地仓库为 local） */
   host: string;
-  /** 所有者/组织名 */
+  /** 所有者/组织名，GitLab 子组等多级路径以 / 连接（如 group/sub），没有时为空字符串 */
   owner: string;
-  /** 仓库名 */
+  /** 仓库名（不含 .git 后缀） */
   repo: string;
-  /** 端口号（如果有） */
+  /** 端口号（如果有，不含协议默认端口） */
   port?: string;
+  /** 用户名（如 ssh 的 git@） */
+  user?: string;
+}
+
+/** 本地仓库在缓存中使用的主机名 */
+const LOCAL_HOST = "local";
+
+/** 各协议的默认端口，URL 中显式写出默认端口时忽略 */
+const DEFAULT_PORTS: Partial<Record<RepoUrlProtocol, string>> = {
+  https: "443",
+  http: "80",
+  ssh: "22",
+  git: "9418",
+};
+
+/** 支持的 URL 协议（git+ssh 和 ssh+git 视为 ssh） */
+const SCHEME_REGEX = /^(https?|ssh|git\+ssh|ssh\+git|git|file):\/\//i;
+
+/** scp 风格的 SSH 地址: [user@]host:path（host 中不含 / 且不是单个盘符） */
+const SCP_REGEX = /^(?:([^@/]+)@)?([^:/]{2,}):(?!\/\/)(.+)$/;
+
+/** 本地路径: /abs、./rel、../rel、~/home、C:\ 或 C:/ */
+const LOCAL_PATH_REGEX = /^(?:\/|\.{1,2}[\\/]|~[\\/]|[A-Za-z]:[\\/])/;
+
+/**
+ * 检查 URL 是否指向本地仓库（本地路径或 file:// URL）
+ * @param url Git 仓库 URL
+ * @returns 是否为本地仓库
+ */
+export function isLocalRepoUrl(url: string): boolean {
+  const trimmed = url.trim();
+  return LOCAL_PATH_REGEX.test(trimmed) || /^file:\/\//i.test(trimmed);
+}
+
+/**
+ * 规范化仓库 URL 用于克隆和保存
+ * 本地路径转换为绝对路径（展开 ~），其他 URL 去除其中的凭据（见 splitUrlCredential）
+ * @param url Git 仓库 URL
+ * @returns 规范化后的 URL
+ */
+export function normalizeRepoUrl(url: string): string {
+  const trimmed = url.trim();
+  if (!LOCAL_PATH_REGEX.test(trimmed)) {
+    return stripUrlCredential(trimmed);
+  }
+  // Windows 盘符路径本身就是绝对路径
+  if (/^[A-Za-z]:[\\/]/.test(trimmed)) {
+    return path.win32.normalize(trimmed);
+  }
+  const expanded = /^~[\\/]/.test(trimmed)
+    ? path.join(os.homedir(), trimmed.slice(2))
+    : trimmed;
+  return path.resolve(expanded);
+}
+
+/**
+ * 将仓库路径拆分为所有者和仓库名
+ * @param repoPath URL 中的路径部分
+ * @param url 原始 URL（用于错误信息）
+ * @returns 所有者和仓库名
+ * @throws GrfError 如果路径为空或包含 . / .. 段
+ */
+function splitRepoPath(
+  repoPath: string,
+  url: string,
+): Pick<ParsedRepoUrl, "owner" | "repo"> {
+  const segments = repoPath
+    .replace(/\\/g, "/")
+    .split("/")
+    .filter((segment) => segment !== "");
+
+  const last = segments.pop()?.replace(/\.git$/, "");
+  if (!last || [...segments, last].some((s) => s === "." || s === "..")) {
+    throw invalidUrlError(url);
+  }
+
+  return { owner: segments.join("/"), repo: last };
+}
+
+/**
+ * 构造无效 URL 错误
+ * @param url 原始 URL
+ * @returns GrfError
+ */
+function invalidUrlError(url: string): GrfError {
+  return new GrfError(
+    ErrorCode.REPO_INVALID_URL,
+    `无效的 Git URL: ${url}。支持的格式: https://host/owner/repo.git、git@host:owner/repo.git、ssh://git@host:2222/owner/repo.git、git://host/owner/repo.git、file:///path/to/repo 或本地路径`,
+  );
+}
+
+/**
+ * 解析本地仓库路径
+ * 主机名固定为 local，绝对路径的目录部分作为所有者（盘符去掉冒号）
+ * @param localPath 本地路径
+ * @param url 原始 URL（用于错误信息）
+ * @returns 解析后的 URL 信息
+ */
+function parseLocalPath(localPath: string, url: string): ParsedRepoUrl {
+  const absolute = normalizeRepoUrl(localPath).replace(/\\/g, "/");
+  const withoutDrive = absolute.replace(/^([A-Za-z]):/, "$1");
+  return {
+    protocol: "file",
+    host: LOCAL_HOST,
+    ...splitRepoPath(withoutDrive, url),
+  };
 }
 
 /**
  * 解析 Git URL
- * 支持 HTTPS 和 SSH 格式
+ * 支持 HTTPS/HTTP、ssh://、scp 风格 SSH、git://、file:// 和本地路径，
+ * 路径可以有任意层级（如 GitLab 子组），可以包含用户信息和端口
  * @param url Git 仓库 URL
  * @returns 解析后的 URL 信息
  * @throws GrfError 如果 URL 格式无效
@@ -74,53 +226,106 @@ export interface ParsedRepoUrl {
  * @example
  * // HTTPS 格式
  * parseRepoUrl('https://github.com/facebook/react.git')
- * // -> { host: 'github.com', owner: 'facebook', repo: 'react' }
+ * // -> { protocol: 'https', host: 'github.com', owner: 'facebook', repo: 'react' }
  *
  * // SSH 格式
  * parseRepoUrl('git@github.com:facebook/react.git')
- * // -> { host: 'github.com', owner: 'facebook', repo: 'react' }
+ * // -> { protocol: 'ssh', host: 'github.com', owner: 'facebook', repo: 'react', user: 'git' }
+ *
+ * // GitLab 子组 + SSH 端口
+ * parseRepoUrl('ssh://git@gitlab.com:2222/group/sub/repo.git')
+ * // -> { protocol: 'ssh', host: 'gitlab.com', owner: 'group/sub', repo: 'repo', port: '2222', user: 'git' }
+ *
+ * // 本地仓库
+ * parseRepoUrl('/srv/git/repo.git')
+ * // -> { protocol: 'file', host: 'local', owner: 'srv/git', repo: 'repo' }
  */
 export function parseRepoUrl(url: string): ParsedRepoUrl {
   // 去除首尾空白
-  url = url.trim();
-
-  // HTTPS 格式: https://github.com/user/repo.git 或 http://127.0.0.1:3087/user/repo.git
-  const httpsRegex = /^https?:\/\/([^/]+)\/([^/]+)\/([^/]+?)(?:\.git)?$/;
-  const httpsMatch = httpsRegex.exec(url);
-  if (httpsMatch) {
-    const hostWithPort = httpsMatch[1];
-    // 分离主机名和端口号
-    const portMatch = /^(.+):(\d+)$/.exec(hostWithPort);
-    if (portMatch) {
-      return {
-        host: portMatch[1],
-        port: portMatch[2],
-        owner: httpsMatch[2],
-        repo: httpsMatch[3].replace(/\.git$/, ""),
-      };
+  const trimmed = url.trim();
+
+  if (LOCAL_PATH_REGEX.test(trimmed)) {
+    return parseLocalPath(trimmed, url);
+  }
+
+  const schemeMatch = SCHEME_REGEX.exec(trimmed);
+  if (schemeMatch) {
+    const scheme = schemeMatch[1].toLowerCase();
+    const protocol: RepoUrlProtocol = scheme.includes("ssh")
+      ? "ssh"
+      : (scheme as RepoUrlProtocol);
+
+    let parsed: URL;
+    try {
+      // URL 对 ssh/git 等非特殊协议同样能解析出主机、端口和用户
+      parsed = new URL(trimmed.replace(SCHEME_REGEX, "ssh://"));
+    } catch {
+      throw invalidUrlError(url);
+    }
+
+    const pathname = decodeURIComponent(parsed.pathname);
+    if (protocol === "file") {
+      // file:///path 或 file://localhost/path
+      return parseLocalPath(pathname.replace(/^\/([A-Za-z]:)/, "$1"), url);
     }
+    if (!parsed.hostname) {
+      throw invalidUrlError(url);
+    }
+
+    const port =
+      parsed.port && parsed.port !== DEFAULT_PORTS[protocol]
+        ? parsed.port
+        : undefined;
     return {
-      host: hostWithPort,
-      owner: httpsMatch[2],
-      repo: httpsMatch[3].replace(/\.git$/, ""),
+      protocol,
+      host: parsed.hostname.toLowerCase(),
+      ...splitRepoPath(pathname, url),
+      ...(port ? { port } : {}),
+      ...(parsed.username ? { user: decodeURIComponent(parsed.username) } : {}),
     };
   }
 
-  // SSH 格式: git@github.com:user/repo.git
-  const sshRegex = /^git@([^:]+):([^/]+)\/([^/]+?)(?:\.git)?$/;
-  const sshMatch = sshRegex.exec(url);
-  if (sshMatch) {
+  // scp 风格 SSH: git@github.com:user/repo.git
+  const scpMatch = SCP_REGEX.exec(trimmed);
+  if (scpMatch) {
     return {
-      host: sshMatch[1],
-      owner: sshMatch[2],
-      repo: sshMatch[3].replace(/\.git$/, ""),
+      protocol: "ssh",
+      host: scpMatch[2].toLowerCase(),
+      ...splitRepoPath(scpMatch[3], url),
+      ...(scpMatch[1] ? { user: scpMatch[1] } : {}),
     };
   }
 
-  throw new GrfError(
-    ErrorCode.REPO_INVALID_URL,
-    `无效的 Git URL: ${url}。支持的格式: https://github.com/user/repo.git 或 git@github.com:user/repo.git`,
-  );
+  throw invalidUrlError(url);
+}
+
+/**
+ * 根据解析后的 URL 信息生成仓库名称（规范标识）
+ * 同一仓库通过 HTTPS 和 SSH 引用时得到相同的名称：协议和用户信息不参与标识；
+ * 非默认端口（parseRepoUrl 已去除各协议的默认端口）以 host_port 的形式保留，
+ * 区分同一主机上不同端口的服务（如 ssh://git@host:2222 与 ssh://git@host）。
+ * 因此通过非默认端口的 SSH 引用的仓库与其 HTTPS 地址是不同的条目：
+ * 无法从 URL 判断两个端口是否为同一服务
+ * @param parsed 解析后的 URL 信息
+ * @returns 仓库名称（格式: host/owner/repo、host_port/owner/repo 或 host/repo）
+ */
+export function getRepoName(parsed: ParsedRepoUrl): string {
+  const hostPart = parsed.port ? `${parsed.host}_${parsed.port}` : parsed.host;
+  return [hostPart, parsed.owner, parsed.repo].filter(Boolean).join("/");
+}
+
+/**
+ * 获取 URL 对应的仓库规范标识
+ * @param url Git 仓库 URL
+ * @returns 仓库名称
+ *
+ * @example
+ * getRepoIdentity('https://github.com/facebook/react.git') // -> 'github.com/facebook/react'
+ * getRepoIdentity('ssh://git@github.com:22/facebook/react') // -> 'github.com/facebook/react'
+ * getRepoIdentity('ssh://git@gitlab.example.com:2222/group/repo') // -> 'gitlab.example.com_2222/group/repo'
+ */
+export function getRepoIdentity(url: string): string {
+  return getRepoName(parseRepoUrl(url));
 }
 
 /**
@@ -134,38 +339,203 @@ export function parseRepoUrl(url: string): ParsedRepoUrl {
  *
  * getRepoStoragePath('http://127.0.0.1:3087/donghai/repo.git')
  * // -> ~/.gitreference/repos/127.0.0.1_3087/donghai/repo
+ *
+ * getRepoStoragePath('git@gitlab.com:group/sub/repo.git')
+ * // -> ~/.gitreference/repos/gitlab.com/group/sub/repo
  */
 export function getRepoStoragePath(url: string): string {
-  const { host, port, owner, repo } = parseRepoUrl(url);
-  // 如果有端口号，将其附加到主机名后，使用下划线分隔（避免 Windows 路径中的冒号问题）
-  const hostDir = port ? `${host}_${port}` : host;
-  return path.join(getReposRoot(), hostDir, owner, repo);
+  return path.join(getReposRoot(), ...getRepoIdentity(url).split("/"));
 }
 
 /**
- * 根据解析后的 URL 信息生成仓库名称
- * @param parsed 解析后的 URL 信息
- * @returns 仓库名称（格式: host/owner/repo 或 host_port/owner/repo）
+ * 获取仓库裸镜像的存储路径
+ * @param url Git 仓库 URL
+ * @returns 裸镜像路径
+ *
+ * @example
+ * getRepoMirrorPath('https://github.com/user/repo')
+ * // -> ~/.gitreference/mirrors/github.com/user/repo.git
  */
-function getRepoName(parsed: ParsedRepoUrl): string {
-  const hostPart = parsed.port ? `${parsed.host}_${parsed.port}` : parsed.host;
-  return `${hostPart}/${parsed.owner}/${parsed.repo}`;
+export function getRepoMirrorPath(url: string): string {
+  return `${path.join(getMirrorsDir(), ...getRepoIdentity(url).split("/"))}.git`;
 }
 
 /**
- * 添加仓库
+ * 查找与某个 URL 使用同一裸镜像（URL 标识相同）的仓库
+ * 通过 --name 以不同名称添加同一 URL 时，镜像和主检出目录的路径都相同
+ * @param repos 仓库索引
  * @param url Git 仓库 URL
+ * @param exclude 不参与检查的仓库名称
+ * @returns 使用该镜像的仓库名称
+ */
+function findMirrorUsers(
+  repos: Record<string, RepoEntry>,
+  url: string,
+  exclude?: string,
+): string[] {
+  const mirrorPath = getRepoMirrorPath(url);
+  return Object.entries(repos)
+    .filter(([name, entry]) => {
+      if (name === exclude) {
+        return false;
+      }
+      try {
+        return getRepoMirrorPath(entry.url) === mirrorPath;
+      } catch {
+        // URL 无法解析的条目没有可推断的镜像
+        return false;
+      }
+    })
+    .map(([name]) => name);
+}
+
+/**
+ * 获取仓库按引用检出的工作树所在目录
+ * @param repoName 仓库名称
+ * @returns 工作树目录（~/.gitreference/worktrees/<repoName>）
+ */
+export function getCheckoutsDir(repoName: string): string {
+  return path.join(getWorktreesDir(), ...repoName.split("/"));
+}
+
+/**
+ * 获取引用对应的工作树路径
+ * 分支与标签/commit 使用不同前缀，名称经过编码以避免 feature/x 之类的分支产生嵌套目录
+ * @param repoName 仓库名称
+ * @param selector 引用选择
+ * @returns 工作树路径
+ */
+function getCheckoutPath(repoName: string, selector: RefSelector): string {
+  const key = selector.ref
+    ? `ref-${encodeURIComponent(selector.ref)}`
+    : `branch-${encodeURIComponent(selector.branch ?? "")}`;
+  return path.join(getCheckoutsDir(repoName), key);
+}
+
+/**
+ * 检查引用是否就是主检出目录的当前引用
+ * @param repoInfo 仓库信息
+ * @param selector 引用选择
+ * @returns 是否使用主检出目录
+ */
+function isPrimaryCheckout(repoInfo: RepoInfo, selector: RefSelector): boolean {
+  if (selector.ref) {
+    return repoInfo.ref === selector.ref;
+  }
+  if (selector.branch) {
+    return !repoInfo.ref && repoInfo.branch === selector.branch;
+  }
+  return true;
+}
+
+/**
+ * 由元信息构造仓库信息
+ * @param name 仓库名称
+ * @param url 远程 URL
+ * @param repoPath 检出目录
+ * @param meta 元信息
+ * @returns 仓库信息
+ */
+function toRepoInfo(
+  name: string,
+  url: string,
+  repoPath: string,
+  meta: RepoMeta,
+): RepoInfo {
+  return {
+    name,
+    url,
+    path: repoPath,
+    commitId: meta.commitId,
+    branch: meta.branch,
+    tag: meta.tag,
+    ref: meta.ref,
+    sparse: meta.sparse,
+    recursive: meta.recursive,
+    depth: meta.depth,
+    addedAt: meta.addedAt,
+    updatedAt: meta.updatedAt,
+  };
+}
+
+/**
+ * 解析固定引用的元信息
+ * @param repoPath 仓库路径
+ * @param ref 标签名或 commit SHA（未固定时为空）
+ * @returns 需要写入元信息的 ref/tag 字段
+ */
+async function resolvePin(
+  repoPath: string,
+  ref?: string,
+): Promise<Pick<RepoMeta, "ref" | "tag">> {
+  if (!ref) {
+    return {};
+  }
+  return (await getGitBackend().isTag(repoPath, ref))
+    ? { ref, tag: ref }
+    : { ref };
+}
+
+/**
+ * 规范化稀疏检出路径
+ * @param paths 原始路径列表
+ * @returns 去重后的相对路径列表（使用正斜杠，不带首尾斜杠），包含仓库根目录时返回空字符串项
+ * @throws GrfError 如果路径为绝对路径或超出仓库根目录
+ */
+function normalizeSparsePaths(paths: string[]): string[] {
+  const normalized = paths.map((sparsePath) => {
+    const slashed = sparsePath.trim().replace(/\\/g, "/");
+    const result = path.posix
+      .normalize(slashed || ".")
+      .replace(/^\/+|\/+$/g, "");
+    if (
+      path.posix.isAbsolute(slashed) ||
+      result === ".." ||
+      result.startsWith("../")
+    ) {
+      throw new GrfError(
+        ErrorCode.INVALID_ARGUMENT,
+        `无效的稀疏检出路径: ${sparsePath}`,
+      );
+    }
+    return result === "." ? "" : result;
+  });
+  return [...new Set(normalized)];
+}
+
+/**
+ * 检查路径是否已包含在稀疏检出范围内
+ * @param sparse 稀疏检出的路径
+ * @param target 要检查的路径（空字符串表示仓库根目录）
+ * @returns 是否已包含
+ */
+function isSparseCovered(sparse: string[], target: string): boolean {
+  return sparse.some(
+    (sparsePath) =>
+      target === sparsePath || target.startsWith(`${sparsePath}/`),
+  );
+}
+
+/**
+ * 添加仓库
+ * @param rawUrl Git 仓库 URL 或本地路径
  * @param options 添加选项
  * @returns 仓库信息
  */
 export async function add(
-  url: string,
+  rawUrl: string,
   options?: AddOptions,
 ): Promise<RepoInfo> {
-  // 解析 URL
-  const parsed = parseRepoUrl(url);
+  // URL 中的令牌只用于本次克隆，通过凭据助手提供给 git，不写入镜像配置和索引
+  const { host, credential } = splitUrlCredential(rawUrl);
+  if (host && credential) {
+    useSessionCredential(host, credential);
+  }
+
+  // 解析 URL（本地路径转换为绝对路径后保存，以便之后在任意目录下更新）
+  const url = normalizeRepoUrl(rawUrl);
   const repoPath = getRepoStoragePath(url);
-  const repoName = options?.name ?? getRepoName(parsed);
+  const repoName = options?.name ?? getRepoIdentity(url);
 
   // 检查仓库是否已存在
   if (await exists(repoName)) {
@@ -175,22 +545,79 @@ export async function add(
     );
   }
 
+  // 同一仓库只能添加一次：以其他名称添加会重建并检出到正在使用的镜像和目录
+  const [sameRepo] = findMirrorUsers(
+    (await readGlobalConfig()).repos,
+    url,
+    repoName,
+  );
+  if (sameRepo) {
+    throw new GrfError(
+      ErrorCode.REPO_ALREADY_EXISTS,
+      `仓库已存在: ${sameRepo}（与 ${url} 是同一仓库）`,
+    );
+  }
+
   // 确保配置目录存在
   await ensureConfigDir();
 
   // 确保父目录存在
   await fs.ensureDir(path.dirname(repoPath));
 
-  // 克隆仓库
-  await git.clone(url, repoPath, {
-    branch: options?.branch,
-    shallow: options?.shallow,
-    depth: options?.depth,
-  });
+  // 需要检出根目录时无法使用稀疏检出
+  const sparsePaths = normalizeSparsePaths(options?.sparse ?? []);
+  const sparse =
+    sparsePaths.length > 0 && !sparsePaths.includes("")
+      ? sparsePaths
+      : undefined;
+
+  // 创建裸镜像，再将主检出目录作为镜像的工作树检出（残留的镜像来自失败的添加，直接重建）
+  const mirrorPath = getRepoMirrorPath(url);
+  await fs.removeDir(mirrorPath);
+  await fs.ensureDir(path.dirname(mirrorPath));
+  try {
+    const branch = await getGitBackend().cloneMirror(url, mirrorPath, {
+      branch: options?.branch,
+      shallow: options?.shallow,
+      depth: options?.depth,
+      sparse,
+      onProgress: options?.onProgress,
+    });
+    await getGitBackend().addWorktree(
+      mirrorPath,
+      repoPath,
+      `origin/${branch}`,
+      {
+        branch,
+        sparse,
+      },
+    );
+  } catch (error) {
+    await fs.removeDir(mirrorPath);
+    throw error;
+  }
+
+  // 固定到标签或 commit
+  if (options?.ref) {
+    await getGitBackend().checkoutRef(repoPath, options.ref);
+  }
+
+  // 检出子模块
+  const recursive = options?.recursive || undefined;
+  const depth =
+    options?.shallow || options?.depth ? (options.depth ?? 1) : undefined;
+  if (recursive) {
+    await getGitBackend().updateSubmodules(repoPath, {
+      onProgress: options?.onProgress,
+    });
+  }
 
   // 获取 commit ID 和分支信息
-  const commitId = await git.getCurrentCommit(repoPath);
-  const branch = await git.getBranch(repoPath);
+  const commitId = await getGitBackend().getCurrentCommit(repoPath);
+  const pin = await resolvePin(repoPath, options?.ref);
+  const branch = pin.ref
+    ? undefined
+    : await getGitBackend().getBranch(repoPath);
 
   // 创建元信息
   const now = new Date().toISOString();
@@ -201,6 +628,10 @@ export async function add(
     updatedAt: now,
     commitId,
     branch,
+    ...pin,
+    sparse,
+    recursive,
+    depth,
   };
 
   // 保存元信息
@@ -221,6 +652,10 @@ export async function add(
     path: repoPath,
     commitId,
     branch,
+    ...pin,
+    sparse,
+    recursive,
+    depth,
     addedAt: now,
     updatedAt: now,
   };
@@ -281,15 +716,7 @@ export async function get(name: string): Promise<RepoInfo | null> {
     if (!meta) {
       return null;
     }
-    return {
-      name,
-      url: entry.url,
-      path: entry.path,
-      commitId: meta.commitId,
-      branch: meta.branch,
-      addedAt: meta.addedAt,
-      updatedAt: meta.updatedAt,
-    };
+    return toRepoInfo(name, entry.url, entry.path, meta);
   }
 
   // 尝试简短名称匹配（支持 repo 或 owner/repo 格式）
@@ -299,15 +726,7 @@ export async function get(name: string): Promise<RepoInfo | null> {
       if (!meta) {
         continue;
       }
-      return {
-        name: repoName,
-        url: entry.url,
-        path: entry.path,
-        commitId: meta.commitId,
-        branch: meta.branch,
-        addedAt: meta.addedAt,
-        updatedAt: meta.updatedAt,
-      };
+      return toRepoInfo(repoName, entry.url, entry.path, meta);
     }
   }
 
@@ -325,15 +744,7 @@ export async function list(): Promise<RepoInfo[]> {
   for (const [name, entry] of Object.entries(config.repos)) {
     const meta = await readRepoMeta(entry.path);
     if (meta) {
-      repos.push({
-        name,
-        url: entry.url,
-        path: entry.path,
-        commitId: meta.commitId,
-        branch: meta.branch,
-        addedAt: meta.addedAt,
-        updatedAt: meta.updatedAt,
-      });
+      repos.push(toRepoInfo(name, entry.url, entry.path, meta));
     }
   }
 
@@ -352,12 +763,31 @@ export async function remove(name: string): Promise<void> {
     throw new GrfError(ErrorCode.REPO_NOT_FOUND, `仓库不存在: ${name}`);
   }
 
-  // 删除仓库目录
-  await fs.removeDir(repoInfo.path);
+  await purge(repoInfo.name);
+}
 
-  // 更新全局配置
+/**
+ * 删除仓库索引条目及其全部存储目录
+ * 与 remove 不同，不要求仓库目录或元信息完好，用于修复损坏的缓存
+ * @param name 仓库完整名称
+ */
+export async function purge(name: string): Promise<void> {
   const config = await readGlobalConfig();
-  delete config.repos[repoInfo.name];
+  const entry = config.repos[name];
+  if (!entry) {
+    return;
+  }
+
+  // 删除主检出目录、按引用检出的工作树和裸镜像（旧版缓存没有镜像）；
+  // 其他条目仍在使用的镜像保留
+  await fs.removeDir(entry.path);
+  await fs.removeDir(getCheckoutsDir(name));
+  if (findMirrorUsers(config.repos, entry.url, name).length === 0) {
+    await fs.removeDir(getRepoMirrorPath(entry.url));
+  }
+
+  // 更新全局配置
+  delete config.repos[name];
   await writeGlobalConfig(config);
 }
 
@@ -407,31 +837,32 @@ export async function resolvePath(name: string): Promise<string> {
 }
 
 /**
- * 切换仓库分支
+ * 将仓库固定到标签或 commit
+ * 以分离 HEAD 方式检出，之后 grf update 不会移动该仓库
  * @param name 仓库名称
- * @param branch 目标分支
+ * @param ref 标签名或 commit SHA
  * @returns 更新后的仓库信息
- * @throws GrfError 如果仓库不存在或切换失败
+ * @throws GrfError 如果仓库不存在或检出失败
  */
-export async function switchBranch(
+export async function checkoutRef(
   name: string,
-  branch: string,
+  ref: string,
 ): Promise<RepoInfo> {
-  // 获取仓库信息
   const repoInfo = await get(name);
 
   if (!repoInfo) {
     throw new GrfError(ErrorCode.REPO_NOT_FOUND, `仓库不存在: ${name}`);
   }
 
-  // 调用 git.checkout() 切换分支
-  await git.checkout(repoInfo.path, branch);
+  await getGitBackend().checkoutRef(repoInfo.path, ref);
+  if (repoInfo.recursive) {
+    await getGitBackend().updateSubmodules(repoInfo.path);
+  }
 
-  // 获取新的 commit ID
-  const commitId = await git.getCurrentCommit(repoInfo.path);
-  const currentBranch = await git.getBranch(repoInfo.path);
+  const commitId = await getGitBackend().getCurrentCommit(repoInfo.path);
+  const pin = await resolvePin(repoInfo.path, ref);
 
-  // 更新 meta.json 中的 branch 字段
+  // 更新 meta.json，分支字段清空
   const now = new Date().toISOString();
   const meta: RepoMeta = {
     url: repoInfo.url,
@@ -439,19 +870,387 @@ export async function switchBranch(
     addedAt: repoInfo.addedAt,
     updatedAt: now,
     commitId,
-    branch: currentBranch,
+    ...pin,
+    sparse: repoInfo.sparse,
+    recursive: repoInfo.recursive,
+    depth: repoInfo.depth,
   };
 
   await writeRepoMeta(repoInfo.path, meta);
 
-  // 返回更新后的仓库信息
   return {
     name: repoInfo.name,
     url: repoInfo.url,
     path: repoInfo.path,
     commitId,
-    branch: currentBranch,
+    ...pin,
+    sparse: repoInfo.sparse,
+    recursive: repoInfo.recursive,
+    depth: repoInfo.depth,
     addedAt: repoInfo.addedAt,
     updatedAt: now,
   };
 }
+
+/**
+ * 历史深度调整方式（三选一）
+ */
+export interface HistoryDepthChange {
+  /** 在当前深度上加深的 commit 数量 */
+  deepen?: number;
+  /** 获取完整历史 */
+  unshallow?: boolean;
+  /** 截断到指定深度 */
+  shallow?: number;
+  /** 获取进度回调 */
+  onProgress?: GitProgressHandler;
+}
+
+/**
+ * 获取仓库 Git 数据所在的目录
+ * 以裸镜像存储的仓库为镜像目录，旧版缓存为检出目录下的 .git
+ * @param repoInfo 仓库信息
+ * @returns Git 数据目录
+ */
+export async function getRepoGitDir(repoInfo: RepoInfo): Promise<string> {
+  const mirrorPath = getRepoMirrorPath(repoInfo.url);
+  return (await fs.exists(mirrorPath))
+    ? mirrorPath
+    : path.join(repoInfo.path, ".git");
+}
+
+/**
+ * 获取缓存仓库当前的历史深度
+ * 未记录深度的浅克隆仓库（旧版缓存）按默认深度 1 计算
+ * @param repoInfo 仓库信息
+ * @returns 深度（完整历史时为空）
+ */
+export async function getHistoryDepth(
+  repoInfo: RepoInfo,
+): Promise<number | undefined> {
+  if (!(await getGitBackend().isShallow(repoInfo.path))) {
+    return undefined;
+  }
+  return repoInfo.depth ?? 1;
+}
+
+/**
+ * 计算仓库占用的磁盘空间
+ * 包括主检出目录、裸镜像以及按引用检出的工作树
+ * @param repoInfo 仓库信息
+ * @returns 字节数
+ */
+export async function getRepoDiskUsage(repoInfo: RepoInfo): Promise<number> {
+  const sizes = await Promise.all([
+    fs.getDirSize(repoInfo.path),
+    fs.getDirSize(getRepoMirrorPath(repoInfo.url)),
+    fs.getDirSize(getCheckoutsDir(repoInfo.name)),
+  ]);
+  return sizes.reduce((total, size) => total + size, 0);
+}
+
+/**
+ * 调整缓存仓库的历史深度，并更新元信息中记录的深度
+ * 镜像的所有工作树共享同一份历史，因此只需在主检出目录中执行
+ * @param name 仓库名称
+ * @param change 调整方式
+ * @returns 更新后的仓库信息
+ * @throws GrfError 如果仓库不存在、已是完整历史时加深，或获取失败
+ */
+export async function setHistoryDepth(
+  name: string,
+  change: HistoryDepthChange,
+): Promise<RepoInfo> {
+  const repoInfo = await get(name);
+
+  if (!repoInfo) {
+    throw new GrfError(ErrorCode.REPO_NOT_FOUND, `仓库不存在: ${name}`);
+  }
+
+  const currentDepth = await getHistoryDepth(repoInfo);
+  const options = { onProgress: change.onProgress };
+  let depth: number | undefined;
+
+  if (change.shallow !== undefined) {
+    await getGitBackend().reshallow(repoInfo.path, change.shallow, options);
+    depth = change.shallow;
+  } else if (change.unshallow) {
+    if (currentDepth !== undefined) {
+      await getGitBackend().unshallow(repoInfo.path, options);
+    }
+    depth = undefined;
+  } else if (change.deepen !== undefined) {
+    if (currentDepth === undefined) {
+      throw new GrfError(
+        ErrorCode.INVALID_ARGUMENT,
+        `仓库已包含完整历史，无需加深: ${repoInfo.name}`,
+      );
+    }
+    await getGitBackend().deepen(repoInfo.path, change.deepen, options);
+    depth = currentDepth + change.deepen;
+  } else {
+    return repoInfo;
+  }
+
+  const meta = await readRepoMeta(repoInfo.path);
+  const now = new Date().toISOString();
+  if (meta) {
+    meta.depth = depth;
+    meta.updatedAt = now;
+    await writeRepoMeta(repoInfo.path, meta);
+  }
+
+  return { ...repoInfo, depth, updatedAt: now };
+}
+
+/**
+ * 扩大检出目录的稀疏检出范围
+ * @param checkout 检出目录的仓库信息
+ * @param paths 需要检出的路径（空字符串表示仓库根目录）
+ * @returns 更新后的仓库信息
+ */
+async function expandSparse(
+  checkout: RepoInfo,
+  paths: string[],
+): Promise<RepoInfo> {
+  const current = checkout.sparse;
+  if (!current || current.length === 0) {
+    return checkout;
+  }
+
+  const missing = normalizeSparsePaths(paths).filter(
+    (sparsePath) => !isSparseCovered(current, sparsePath),
+  );
+  if (missing.length === 0) {
+    return checkout;
+  }
+
+  let sparse: string[] | undefined;
+  if (missing.includes("")) {
+    await getGitBackend().disableSparseCheckout(checkout.path);
+  } else {
+    sparse = [...current, ...missing];
+    await getGitBackend().setSparseCheckout(checkout.path, sparse);
+  }
+
+  const meta = await readRepoMeta(checkout.path);
+  if (meta) {
+    meta.sparse = sparse;
+    await writeRepoMeta(checkout.path, meta);
+  }
+
+  return { ...checkout, sparse };
+}
+
+/**
+ * 仓库启用子模块时，初始化并更新检出目录的子模块
+ * 子模块已是最新时不会访问网络；检出目录首次启用时在元信息中记录
+ * @param checkout 检出目录的仓库信息
+ * @param recursive 仓库是否启用子模块
+ * @param onProgress 子模块克隆进度回调
+ * @returns 更新后的仓库信息
+ */
+async function ensureSubmodules(
+  checkout: RepoInfo,
+  recursive?: boolean,
+  onProgress?: GitProgressHandler,
+): Promise<RepoInfo> {
+  if (!recursive) {
+    return checkout;
+  }
+
+  await getGitBackend().updateSubmodules(checkout.path, { onProgress });
+
+  if (!checkout.recursive) {
+    const meta = await readRepoMeta(checkout.path);
+    if (meta) {
+      meta.recursive = true;
+      await writeRepoMeta(checkout.path, meta);
+    }
+  }
+
+  return { ...checkout, recursive: true };
+}
+
+/**
+ * 为已添加的仓库启用子模块
+ * 初始化并更新主检出目录的子模块，之后的加载、更新和同步都会包含子模块内容
+ * @param name 仓库名称
+ * @param onProgress 子模块克隆进度回调
+ * @returns 更新后的仓库信息
+ * @throws GrfError 如果仓库不存在或子模块更新失败
+ */
+export async function enableSubmodules(
+  name: string,
+  onProgress?: GitProgressHandler,
+): Promise<RepoInfo> {
+  const repoInfo = await get(name);
+
+  if (!repoInfo) {
+    throw new GrfError(ErrorCode.REPO_NOT_FOUND, `仓库不存在: ${name}`);
+  }
+
+  return ensureSubmodules(repoInfo, true, onProgress);
+}
+
+/**
+ * 查找引用已有的检出目录（不创建）
+ * @param repoInfo 仓库信息（主检出目录）
+ * @param selector 引用选择
+ * @returns 检出目录的仓库信息，工作树尚未创建时返回 null
+ */
+export async function findCheckout(
+  repoInfo: RepoInfo,
+  selector: RefSelector,
+): Promise<RepoInfo | null> {
+  if (isPrimaryCheckout(repoInfo, selector)) {
+    return repoInfo;
+  }
+
+  const checkoutPath = getCheckoutPath(repoInfo.name, selector);
+  const meta = await readRepoMeta(checkoutPath);
+  return meta
+    ? toRepoInfo(repoInfo.name, repoInfo.url, checkoutPath, meta)
+    : null;
+}
+
+/**
+ * 获取引用的检出目录，不存在时从镜像创建工作树
+ * 与主检出目录的当前引用一致时直接使用主检出目录；其他分支、标签或 commit 各自检出到独立的工作树，
+ * 不会改变其他项目正在使用的检出内容。稀疏检出的仓库会按需扩大范围，确保 paths 已检出；
+ * 启用子模块的仓库同时更新检出目录的子模块
+ * @param repoInfo 仓库信息（主检出目录）
+ * @param selector 引用选择
+ * @param paths 需要检出的路径（空字符串表示仓库根目录）
+ * @returns 检出目录的仓库信息
+ * @throws GrfError 如果引用不存在或检出失败
+ */
+export async function resolveCheckout(
+  repoInfo: RepoInfo,
+  selector: RefSelector,
+  paths: string[] = [],
+): Promise<RepoInfo> {
+  const existing = await findCheckout(repoInfo, selector);
+  if (existing) {
+    return ensureSubmodules(
+      await expandSparse(existing, paths),
+      repoInfo.recursive,
+    );
+  }
+
+  const checkoutPath = getCheckoutPath(repoInfo.name, selector);
+  await fs.ensureDir(path.dirname(checkoutPath));
+
+  // 新工作树沿用主检出目录的稀疏范围，再按需扩大
+  if (selector.ref) {
+    await getGitBackend().fetchRef(repoInfo.path, selector.ref);
+    await getGitBackend().addWorktree(
+      repoInfo.path,
+      checkoutPath,
+      selector.ref,
+      {
+        sparse: repoInfo.sparse,
+      },
+    );
+  } else {
+    const branch = selector.branch ?? "";
+    await getGitBackend().fetchBranch(repoInfo.path, branch);
+    await getGitBackend().addWorktree(
+      repoInfo.path,
+      checkoutPath,
+      `origin/${branch}`,
+      { branch, sparse: repoInfo.sparse },
+    );
+  }
+
+  const pin = await resolvePin(checkoutPath, selector.ref);
+  const now = new Date().toISOString();
+  const meta: RepoMeta = {
+    url: repoInfo.url,
+    name: repoInfo.name,
+    addedAt: now,
+    updatedAt: now,
+    commitId: await getGitBackend().getCurrentCommit(checkoutPath),
+    branch: pin.ref ? undefined : selector.branch,
+    ...pin,
+    sparse: repoInfo.sparse,
+    recursive: repoInfo.recursive,
+  };
+  await writeRepoMeta(checkoutPath, meta);
+
+  return ensureSubmodules(
+    await expandSparse(
+      toRepoInfo(repoInfo.name, repoInfo.url, checkoutPath, meta),
+      paths,
+    ),
+    repoInfo.recursive,
+  );
+}
+
+/**
+ * 列出仓库按引用检出的工作树（不含主检出目录）
+ * @param repoInfo 仓库信息
+ * @returns 各工作树的仓库信息
+ */
+export async function listCheckouts(repoInfo: RepoInfo): Promise<RepoInfo[]> {
+  const checkoutsDir = getCheckoutsDir(repoInfo.name);
+  if (!(await fs.exists(checkoutsDir))) {
+    return [];
+  }
+
+  const checkouts: RepoInfo[] = [];
+  for (const entry of await fs.readDir(checkoutsDir)) {
+    const checkoutPath = path.join(checkoutsDir, entry);
+    const meta = await readRepoMeta(checkoutPath);
+    if (meta) {
+      checkouts.push(
+        toRepoInfo(repoInfo.name, repoInfo.url, checkoutPath, meta),
+      );
+    }
+  }
+  return checkouts;
+}
+
+/**
+ * 在指定 commit 的检出目录中执行操作
+ * commit 与缓存仓库当前 HEAD 一致时直接使用缓存目录，
+ * 否则在临时工作树中检出该 commit，操作完成后清理
+ * @param repoPath 缓存仓库路径
+ * @param headCommit 缓存仓库当前的 commit
+ * @param commit 需要检出的 commit
+ * @param action 在检出目录中执行的操作
+ * @param options 检出选项（recursive: 临时工作树同时检出子模块）
+ */
+export async function withCommitCheckout<T>(
+  repoPath: string,
+  headCommit: string,
+  commit: string,
+  action: (checkoutPath: string) => Promise<T>,
+  options?: { recursive?: boolean },
+): Promise<T> {
+  if (commit === headCommit) {
+    return action(repoPath);
+  }
+
+  if (!(await getGitBackend().hasCommit(repoPath, commit))) {
+    await getGitBackend().fetchCommit(repoPath, commit);
+  }
+
+  const tempDir = await fs.createTempDir("grf-checkout-");
+  const worktreePath = path.join(tempDir, "worktree");
+
+  try {
+    await getGitBackend().addWorktree(repoPath, worktreePath, commit);
+    if (options?.recursive) {
+      await getGitBackend().updateSubmodules(worktreePath);
+    }
+    return await action(worktreePath);
+  } finally {
+    try {
+      await getGitBackend().removeWorktree(repoPath, worktreePath);
+    } catch {
+      // 工作树可能未创建成功，忽略清理错误
+    }
+    await fs.removeDir(tempDir);
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * 文件快照模块
+ * 记录加载到项目中的每个文件的内容哈希，用于检测加载后的本地修改
+ */
+
+import fs from "fs-extra";
+import {
+  ErrorCode,
+  GrfError,
+  type FileSnapshot,
+  type LocalChanges,
+} from "../types/index.js";
+import { hashFiles } from "./filesystem.js";
+import { getSnapshotPath, getSnapshotsDir } from "./paths.js";
+
+/** 当前快照格式版本 */
+const SNAPSHOT_VERSION = 1;
+
+/**
+ * 读取加载条目的文件快照
+ * @param entryId 加载条目 ID
+ * @returns 文件快照，如果不存在则返回 null
+ */
+export async function readSnapshot(
+  entryId: string,
+): Promise<FileSnapshot | null> {
+  const snapshotPath = getSnapshotPath(entryId);
+
+  try {
+    if (!(await fs.pathExists(snapshotPath))) {
+      return null;
+    }
+
+    const content = await fs.readFile(snapshotPath, "utf-8");
+    const parsed = JSON.parse(content) as Partial<FileSnapshot>;
+
+    return {
+      version: parsed.version ?? SNAPSHOT_VERSION,
+      entryId,
+      commitId: parsed.commitId ?? "",
+      createdAt: parsed.createdAt ?? "",
+      files:
+        parsed.files && typeof parsed.files === "object" ? parsed.files : {},
+    };
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      throw new GrfError(
+        ErrorCode.CONFIG_PARSE_ERROR,
+        `文件快照解析失败: ${snapshotPath}: ${error.message}`,
+        error,
+      );
+    }
+
+    throw new GrfError(
+      ErrorCode.CONFIG_NOT_FOUND,
+      `读取文件快照失败: ${(error as Error).message}`,
+      error as Error,
+    );
+  }
+}
+
+/**
+ * 记录目标路径当前内容的文件快照
+ * @param entryId 加载条目 ID
+ * @param targetPath 目标路径（绝对路径）
+ * @param commitId 加载的 commit ID
+ * @returns 文件快照
+ */
+export async function saveSnapshot(
+  entryId: string,
+  targetPath: string,
+  commitId: string,
+): Promise<FileSnapshot> {
+  const snapshot: FileSnapshot = {
+    version: SNAPSHOT_VERSION,
+    entryId,
+    commitId,
+    createdAt: new Date().toISOString(),
+    files: await hashFiles(targetPath),
+  };
+
+  try {
+    await fs.ensureDir(getSnapshotsDir());
+    await fs.writeFile(
+      getSnapshotPath(entryId),
+      JSON.stringify(snapshot, null, 2) + "\n",
+      "utf-8",
+    );
+  } catch (error) {
+    throw new GrfError(
+      ErrorCode.CONFIG_WRITE_ERROR,
+      `写入文件快照失败: ${(error as Error).message}`,
+      error as Error,
+    );
+  }
+
+  return snapshot;
+}
+
+/**
+ * 删除加载条目的文件快照
+ * @param entryId 加载条目 ID
+ */
+export async function removeSnapshot(entryId: string): Promise<void> {
+  await fs.remove(getSnapshotPath(entryId));
+}
+
+/**
+ * 删除所有文件快照
+ */
+export async function clearSnapshots(): Promise<void> {
+  await fs.remove(getSnapshotsDir());
+}
+
+/**
+ * 对比目标路径当前内容与快照，找出本地修改
+ * 目标路径不存在时视为所有文件均被删除
+ * @param snapshot 文件快照
+ * @param targetPath 目标路径（绝对路径）
+ * @returns 本地修改（各列表已排序）
+ */
+export async function diffSnapshot(
+  snapshot: FileSnapshot,
+  targetPath: string,
+): Promise<LocalChanges> {
+  const current = new Map(
+    Object.entries(
+      (await fs.pathExists(targetPath)) ? await hashFiles(targetPath) : {},
+    ),
+  );
+  const recorded = new Map(Object.entries(snapshot.files));
+  const changes: LocalChanges = { modified: [], added: [], deleted: [] };
+
+  for (const [file, hash] of recorded) {
+    if (!current.has(file)) {
+      changes.deleted.push(file);
+    } else if (current.get(file) !== hash) {
+      changes.modified.push(file);
+    }
+  }
+  for (const file of current.keys()) {
+    if (!recorded.has(file)) {
+      changes.added.push(file);
+    }
+  }
+
+  changes.modified.sort();
+  changes.added.sort();
+  changes.deleted.sort();
+  return changes;
+}
+
+/**
+ * 检查加载条目的目标路径是否存在本地修改
+ * @param entryId 加载条目 ID
+ * @param targetPath 目标路径（绝对路径）
+ * @returns 本地修改，没有快照（无法判断）时返回 null
+ */
+export async function getLocalChanges(
+  entryId: string,
+  targetPath: string,
+): Promise<LocalChanges | null> {
+  const snapshot = await readSnapshot(entryId);
+  return snapshot ? await diffSnapshot(snapshot, targetPath) : null;
+}
+
+/**
+ * 检查是否存在任何本地修改
+ * @param changes 本地修改
+ * @returns 是否存在修改
+ */
+export function hasLocalChanges(changes: LocalChanges | null): boolean {
+  return (
+    !!changes &&
+    changes.modified.length + changes.added.length + changes.deleted.length > 0
+  );
+}
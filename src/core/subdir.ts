@@ -0,0 +1,220 @@
+/**
+ * 子目录映射模块
+ * 解析 --subdir 参数，并按映射将仓库中的多个子目录复制到同一目标路径下
+ *
+ * `--subdir <src>` 将子目录内容直接复制到目标路径，
+ * `--subdir <src>:<dest>` 将子目录复制到目标路径下的 dest 位置，可多次指定
+ */
+
+import path from "path";
+import { ErrorCode, GrfError, type SubdirMapping } from "../types/index.js";
+import * as filesystem from "./filesystem.js";
+import { createPathFilter } from "./glob.js";
+
+/**
+ * 记录子目录信息的条目（加载条目、清单条目、锁定条目等）
+ */
+export interface SubdirSelection {
+  /** 单个子目录 */
+  subdir?: string;
+  /** 多个子目录映射 */
+  subdirs?: SubdirMapping[];
+}
+
+/**
+ * 复制映射时的文件过滤选项
+ */
+export interface MappedCopyOptions {
+  /** 包含的文件模式 */
+  include?: string[];
+  /** 排除的文件模式 */
+  exclude?: string[];
+}
+
+/**
+ * 规范化映射中的相对路径，拒绝绝对路径和跳出根目录的路径
+ * @param value 原始路径
+ * @param spec 完整参数（用于错误信息）
+ * @returns 使用正斜杠、不带首尾斜杠的路径，根目录返回空字符串
+ */
+function normalizeMappingPath(value: string, spec: string): string {
+  const slashed = value.trim().replace(/\\/g, "/");
+  if (path.posix.isAbsolute(slashed) || path.win32.isAbsolute(slashed)) {
+    throw new GrfError(
+      ErrorCode.INVALID_ARGUMENT,
+      `子目录映射必须使用相对路径: ${spec}`,
+    );
+  }
+
+  const normalized = path.posix.normalize(slashed).replace(/\/+$/, "");
+  if (normalized === ".." || normalized.startsWith("../")) {
+    throw new GrfError(
+      ErrorCode.INVALID_ARGUMENT,
+      `子目录映射不能超出根目录: ${spec}`,
+    );
+  }
+
+  return normalized === "." ? "" : normalized;
+}
+
+/**
+ * 解析单个 --subdir 参数
+ * @param spec 参数值，格式为 `src` 或 `src:dest`
+ * @returns 子目录映射
+ */
+export function parseSubdirSpec(spec: string): SubdirMapping {
+  const separator = spec.indexOf(":");
+  const source = separator === -1 ? spec : spec.slice(0, separator);
+  const target = separator === -1 ? "" : spec.slice(separator + 1);
+
+  const mapping = {
+    source: normalizeMappingPath(source, spec),
+    target: normalizeMappingPath(target, spec),
+  };
+  if (!mapping.source) {
+    throw new GrfError(
+      ErrorCode.INVALID_ARGUMENT,
+      `子目录映射缺少源路径: ${spec}`,
+    );
+  }
+
+  return mapping;
+}
+
+/**
+ * 解析 --subdir 参数列表
+ * 仅有一个不带目标位置的子目录时保持原有的 subdir 格式，否则记录为 subdirs
+ * @param specs 参数值列表
+ * @returns 子目录信息
+ */
+export function parseSubdirSpecs(specs?: string[]): SubdirSelection {
+  if (!specs || specs.length === 0) {
+    return {};
+  }
+
+  const mappings = specs.map(parseSubdirSpec);
+  const targets = new Set<string>();
+  for (const mapping of mappings) {
+    if (mapping.target && targets.has(mapping.target)) {
+      throw new GrfError(
+        ErrorCode.INVALID_ARGUMENT,
+        `子目录映射的目标位置重复: ${mapping.target}`,
+      );
+    }
+    targets.add(mapping.target);
+  }
+
+  if (mappings.length === 1 && !mappings[0].target) {
+    return { subdir: mappings[0].source };
+  }
+
+  return { subdirs: mappings };
+}
+
+/**
+ * 将子目录信息转换回 --subdir 参数列表
+ * @param selection 子目录信息
+ * @returns 参数值列表，未使用子目录时返回 undefined
+ */
+export function toSubdirSpecs(
+  selection: SubdirSelection,
+): string[] | undefined {
+  if (selection.subdirs && selection.subdirs.length > 0) {
+    return selection.subdirs.map((mapping) =>
+      mapping.target ? `${mapping.source}:${mapping.target}` : mapping.source,
+    );
+  }
+  return selection.subdir ? [selection.subdir] : undefined;
+}
+
+/**
+ * 获取条目的子目录映射
+ * 未使用子目录时返回复制整个仓库的映射
+ * @param selection 子目录信息
+ * @returns 子目录映射列表
+ */
+export function getSubdirMappings(selection: SubdirSelection): SubdirMapping[] {
+  if (selection.subdirs && selection.subdirs.length > 0) {
+    return selection.subdirs;
+  }
+  return [{ source: selection.subdir ?? "", target: "" }];
+}
+
+/**
+ * 检查两个条目的子目录信息是否一致
+ * @param a 子目录信息
+ * @param b 子目录信息
+ * @returns 是否一致
+ */
+export function isSameSubdirSelection(
+  a: SubdirSelection,
+  b: SubdirSelection,
+): boolean {
+  return (
+    (toSubdirSpecs(a) ?? []).join("\n") === (toSubdirSpecs(b) ?? []).join("\n")
+  );
+}
+
+/**
+ * 查找仓库中不存在的源子目录
+ * @param repoPath 仓库（或检出）路径
+ * @param selection 子目录信息
+ * @returns 第一个不存在的子目录，全部存在时返回 undefined
+ */
+export async function findMissingSubdir(
+  repoPath: string,
+  selection: SubdirSelection,
+): Promise<string | undefined> {
+  for (const mapping of getSubdirMappings(selection)) {
+    if (
+      mapping.source &&
+      !(await filesystem.exists(path.join(repoPath, mapping.source)))
+    ) {
+      return mapping.source;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 按子目录映射复制仓库内容到目标路径
+ * 始终排除 .git，复制仓库根部时还排除 grf 元信息文件，并应用 include/exclude 模式
+ * @param repoPath 仓库（或检出）路径
+ * @param targetPath 目标路径
+ * @param selection 子目录信息
+ * @param options 文件过滤选项
+ * @returns 合计的复制统计
+ */
+export async function copyMappedSubdirs(
+  repoPath: string,
+  targetPath: string,
+  selection: SubdirSelection,
+  options: MappedCopyOptions = {},
+): Promise<filesystem.CopyStats> {
+  const filter = createPathFilter(options.include, options.exclude);
+  const total: filesystem.CopyStats = {
+    copied: 0,
+    filtered: 0,
+    lfsPointers: 0,
+  };
+
+  for (const mapping of getSubdirMappings(selection)) {
+    const stats = await filesystem.copyDir(
+      path.join(repoPath, mapping.source),
+      path.join(targetPath, mapping.target),
+      {
+        exclude: filesystem.REFERENCE_EXCLUDES,
+        rootExclude: mapping.source
+          ? undefined
+          : filesystem.REFERENCE_ROOT_EXCLUDES,
+        filter,
+        overwrite: true,
+      },
+    );
+    total.copied += stats.copied;
+    total.filtered += stats.filtered;
+    total.lfsPointers += stats.lfsPointers;
+  }
+
+  return total;
+}
@@ -7,8 +7,17 @@ import * as path from "path";
 import * as loading from "./loading.js";
 import * as repository from "./repository.js";
 import * as filesystem from "./filesystem.js";
-import * as git from "./git.js";
-import type { LoadingEntry } from "../types/index.js";
+import { getGitBackend } from "./git-backend.js";
+import { pullLfsObjects } from "./lfs.js";
+import { getLockEntry, updateLockEntry } from "./lockfile.js";
+import { mergeDirectories } from "./merge.js";
+import {
+  copyMappedSubdirs,
+  findMissingSubdir,
+  getSubdirMappings,
+} from "./subdir.js";
+import { getLocalChanges, hasLocalChanges, saveSnapshot } from "./snapshot.js";
+import type { LoadingEntry, LocalChanges } from "../types/index.js";
 
 // ============ 类型定义 ============
 
@@ -50,42 +59,98 @@ export interface SyncResult {
   oldCommitId?: string;
   /** 新的 commitId */
   newCommitId?: string;
+  /** 因本地修改而拒绝同步时，会丢失的文件 */
+  localChanges?: LocalChanges;
+  /** 三方合并时自动合并的文件 */
+  merged?: string[];
+  /** 三方合并时存在冲突的文件 */
+  conflicts?: string[];
+  /** 复制的文件中 Git LFS 指针文件的数量 */
+  lfsPointers?: number;
+}
+
+/**
+ * 同步选项
+ */
+export interface SyncOptions {
+  /** 是否强制同步（版本一致时也同步，并覆盖本地修改） */
+  force?: boolean;
+  /** 存在本地修改时是否执行三方合并以保留本地修改 */
+  merge?: boolean;
 }
 
 // ============ 状态检测 ============
 
+/**
+ * 获取条目加载时选择的引用
+ * @param entry 加载条目
+ * @returns 引用选择
+ */
+function getEntrySelector(entry: LoadingEntry): repository.RefSelector {
+  return { branch: entry.branch, ref: entry.ref };
+}
+
+/**
+ * 获取条目当前加载的 commitId
+ * 优先使用项目锁文件 grf.lock 中锁定的 commit
+ * @param entry 加载条目
+ * @param projectRoot 条目所在的项目根目录
+ * @returns commitId（未知时为空字符串）
+ */
+export async function resolveLoadedCommit(
+  entry: LoadingEntry,
+  projectRoot: string,
+): Promise<string> {
+  try {
+    const lockEntry = await getLockEntry(projectRoot, entry.targetPath);
+    return lockEntry?.commit ?? entry.commitId;
+  } catch {
+    // 锁文件损坏时回退到 loading.json 中的记录
+    return entry.commitId;
+  }
+}
+
 /**
  * 获取单个加载条目的同步状态
  * @param entry 加载条目
- * @param projectRoot 项目根目录
+ * @param projectRoot 项目根目录（条目未记录工作目录时使用）
  * @returns 同步状态
  */
 export async function getSyncStatus(
   entry: LoadingEntry,
   projectRoot: string = process.cwd(),
 ): Promise<SyncStatus> {
+  const entryRoot = entry.workingDirectory || projectRoot;
   const status: SyncStatus = {
     entryId: entry.id,
     repoName: entry.repoName,
     targetPath: entry.targetPath,
-    loadedCommitId: entry.commitId,
+    loadedCommitId: await resolveLoadedCommit(entry, entryRoot),
     cacheCommitId: "",
     needsSync: false,
     cacheExists: false,
     targetExists: false,
   };
 
-  // 检查目标目录是否存在
-  const targetAbsPath = path.join(projectRoot, entry.targetPath);
+  // 检查目标目录是否存在（相对于条目加载时的工作目录）
+  const targetAbsPath = path.join(entryRoot, entry.targetPath);
   status.targetExists = await filesystem.exists(targetAbsPath);
 
   // 获取缓存仓库信息
   try {
-    const repoInfo = await repository.get(entry.repoName);
+    const repoInfo = entry.unresolved
+      ? null
+      : await repository.get(entry.repoName);
     if (repoInfo) {
       status.cacheExists = true;
-      // 获取缓存仓库当前的 commitId
-      status.cacheCommitId = await git.getCurrentCommit(repoInfo.path);
+      // 获取条目所用检出目录当前的 commitId（工作树尚未创建时在同步时创建）
+      const checkout = await repository.findCheckout(
+        repoInfo,
+        getEntrySelector(entry),
+      );
+      status.cacheCommitId = checkout
+        ? await getGitBackend().getCurrentCommit(checkout.path)
+        : "";
 
       // 判断是否需要同步
       // 需要同步的情况：
@@ -111,7 +176,7 @@ export async function getSyncStatus(
 
 /**
  * 获取所有已加载条目的同步状态
- * @param projectRoot 项目根目录
+ * @param projectRoot 项目根目录（条目未记录工作目录时使用）
  * @returns 同步状态列表
  */
 export async function getAllSyncStatus(
@@ -130,100 +195,211 @@ export async function getAllSyncStatus(
 
 // ============ 同步操作 ============
 
+/**
+ * 获取缓存仓库不可用时的提示
+ * @param entry 加载条目
+ * @returns 提示信息
+ */
+export function getMissingRepoMessage(entry: LoadingEntry): string {
+  return entry.unresolved
+    ? `无法确定来源仓库，请重新加载: ${entry.targetPath}`
+    : `缓存仓库不存在: ${entry.repoName}`;
+}
+
 /**
  * 同步单个条目到工作目录
  * @param entry 加载条目
- * @param force 是否强制同步（忽略本地修改）
- * @param projectRoot 项目根目录
+ * @param options 同步选项
+ * @param projectRoot 项目根目录（条目未记录工作目录时使用）
  * @returns 同步结果
  */
 export async function syncEntry(
   entry: LoadingEntry,
-  force = false,
+  options: SyncOptions = {},
   projectRoot: string = process.cwd(),
 ): Promise<SyncResult> {
+  const { force = false, merge = false } = options;
+  const entryRoot = entry.workingDirectory || projectRoot;
+  const loadedCommitId = await resolveLoadedCommit(entry, entryRoot);
   const result: SyncResult = {
     entryId: entry.id,
     repoName: entry.repoName,
     success: false,
     message: "",
-    oldCommitId: entry.commitId,
+    oldCommitId: loadedCommitId,
   };
+  let tempDir: string | undefined;
 
   try {
     // 获取缓存仓库信息
-    const repoInfo = await repository.get(entry.repoName);
+    const repoInfo = entry.unresolved
+      ? null
+      : await repository.get(entry.repoName);
     if (!repoInfo) {
-      result.message = `缓存仓库不存在: ${entry.repoName}`;
+      result.message = getMissingRepoMessage(entry);
       return result;
     }
 
-    // 获取缓存仓库当前的 commitId
-    const cacheCommitId = await git.getCurrentCommit(repoInfo.path);
+    // 获取条目所用的检出目录（加载时的分支或标签/commit），稀疏检出的仓库按需检出条目需要的子目录
+    const checkout = await repository.resolveCheckout(
+      repoInfo,
+      getEntrySelector(entry),
+      getSubdirMappings(entry).map((mapping) => mapping.source),
+    );
+    const cacheCommitId = await getGitBackend().getCurrentCommit(checkout.path);
     result.newCommitId = cacheCommitId;
 
     // 检查是否需要同步
-    const targetAbsPath = path.join(projectRoot, entry.targetPath);
+    const targetAbsPath = path.join(entryRoot, entry.targetPath);
     const targetExists = await filesystem.exists(targetAbsPath);
 
-    if (targetExists && entry.commitId === cacheCommitId && !force) {
+    if (targetExists && loadedCommitId === cacheCommitId && !force) {
       result.success = true;
       result.message = "已是最新版本，无需同步";
       return result;
     }
 
-    // 确定源路径（考虑 subdir）
-    let sourcePath = repoInfo.path;
-    if (entry.subdir) {
-      sourcePath = path.join(repoInfo.path, entry.subdir);
-      // 检查子目录是否存在
-      if (!(await filesystem.exists(sourcePath))) {
-        result.message = `子目录不存在: ${entry.subdir}`;
-        return result;
-      }
+    // 检查所有源子目录是否存在（考虑 subdir 映射）
+    const missingSubdir = await findMissingSubdir(checkout.path, entry);
+    if (missingSubdir) {
+      result.message = `子目录不存在: ${missingSubdir}`;
+      return result;
     }
 
-    // 删除旧目录（如果存在）
-    if (targetExists) {
-      await filesystem.removeDir(targetAbsPath);
+    // 目标目录有本地修改时：--merge 执行三方合并，否则拒绝覆盖（除非强制同步）
+    const changes =
+      targetExists && (merge || !force)
+        ? await getLocalChanges(entry.id, targetAbsPath)
+        : null;
+    if (hasLocalChanges(changes) && !merge && !force) {
+      result.localChanges = changes ?? undefined;
+      result.message =
+        "存在本地修改，已跳过同步（使用 --force 覆盖或 --merge 合并）";
+      return result;
     }
 
-    // 确保目标父目录存在
-    const targetParentDir = path.dirname(targetAbsPath);
-    await filesystem.ensureDir(targetParentDir);
+    // 与新 commit 内容一致的目录，用于记录快照和锁文件哈希
+    let pristinePath = targetAbsPath;
+    let stats: filesystem.CopyStats;
 
-    // 复制新内容（排除 .git 目录）
-    await filesystem.copyDir(sourcePath, targetAbsPath, {
-      exclude: [".git", ".gitreference-meta.json"],
-      overwrite: true,
-    });
+    // 加载时使用了 --lfs 的条目先下载复制范围内的 LFS 对象
+    if (entry.lfs) {
+      await pullLfsObjects(checkout.path, entry, entry);
+    }
+
+    if (hasLocalChanges(changes) && merge) {
+      if (!loadedCommitId) {
+        result.message = "无法确定加载时的 commit，无法合并";
+        return result;
+      }
+
+      // 分别准备加载时与最新的内容，再与本地目录三方合并
+      tempDir = await filesystem.createTempDir("grf-merge-");
+      const baseDir = path.join(tempDir, "base");
+      pristinePath = path.join(tempDir, "upstream");
+
+      await repository.withCommitCheckout(
+        checkout.path,
+        cacheCommitId,
+        loadedCommitId,
+        async (checkoutPath) => {
+          if (entry.lfs) {
+            await pullLfsObjects(checkoutPath, entry, entry);
+          }
+          return copyMappedSubdirs(checkoutPath, baseDir, entry, entry);
+        },
+        { recursive: checkout.recursive },
+      );
+      stats = await copyMappedSubdirs(
+        checkout.path,
+        pristinePath,
+        entry,
+        entry,
+      );
+
+      const mergeResult = await mergeDirectories(
+        baseDir,
+        targetAbsPath,
+        pristinePath,
+      );
+      result.merged = mergeResult.merged;
+      result.conflicts = mergeResult.conflicts;
+    } else {
+      // 删除旧目录（如果存在）
+      if (targetExists) {
+        await filesystem.removeDir(targetAbsPath);
+      }
+
+      // 确保目标父目录存在
+      const targetParentDir = path.dirname(targetAbsPath);
+      await filesystem.ensureDir(targetParentDir);
+
+      // 按子目录映射复制新内容（与 grf load 排除相同的文件，并沿用加载时的 include/exclude 模式）
+      stats = await copyMappedSubdirs(
+        checkout.path,
+        targetAbsPath,
+        entry,
+        entry,
+      );
+    }
 
     // 更新 loading.json 中的 commitId 和 updatedAt
     await loading.updateEntry(entry.id, {
       commitId: cacheCommitId,
     });
 
+    // 重新记录文件快照（合并时记录上游内容，本地修改仍可被检测到）
+    await saveSnapshot(entry.id, pristinePath, cacheCommitId);
+
+    // 项目锁定了该条目时，同步更新锁定的 commit 与内容哈希
+    await updateLockEntry(entryRoot, entry.targetPath, {
+      commit: cacheCommitId,
+      integrity: await filesystem.hashDirectory(pristinePath),
+    });
+
     result.success = true;
-    result.message = `同步成功: ${entry.commitId.substring(0, 7)} → ${cacheCommitId.substring(0, 7)}`;
+    const commitRange = `${loadedCommitId.substring(0, 7)} → ${cacheCommitId.substring(0, 7)}`;
+    if (result.conflicts) {
+      result.message = `合并成功: ${commitRange}`;
+      if (result.conflicts.length > 0) {
+        result.message += ` (${result.conflicts.length} 个文件存在冲突)`;
+      }
+    } else {
+      result.message = `同步成功: ${commitRange}`;
+    }
+    if (stats.filtered > 0) {
+      result.message += ` (已过滤 ${stats.filtered} 个文件)`;
+    }
+    if (stats.lfsPointers > 0) {
+      result.lfsPointers = stats.lfsPointers;
+      result.message += entry.lfs
+        ? ` (${stats.lfsPointers} 个 Git LFS 指针文件未能下载内容)`
+        : ` (${stats.lfsPointers} 个文件为 Git LFS 指针，使用 grf load --lfs 下载内容)`;
+    }
 
     return result;
   } catch (error) {
     const err = error as Error;
     result.message = `同步失败: ${err.message}`;
     return result;
+  } finally {
+    if (tempDir) {
+      await filesystem.removeDir(tempDir);
+    }
   }
 }
 
 /**
  * 同步所有需要更新的条目
- * @param force 是否强制同步
- * @param projectRoot 项目根目录
+ * @param options 同步选项
+ * @param projectRoot 项目根目录（条目未记录工作目录时使用）
  * @returns 同步结果列表
  */
 export async function syncAll(
-  force = false,
+  options: SyncOptions = {},
   projectRoot: string = process.cwd(),
 ): Promise<SyncResult[]> {
+  const force = options.force ?? false;
   const entries = await loading.getEntries();
   const results: SyncResult[] = [];
 
@@ -239,13 +415,13 @@ export async function syncAll(
           entryId: entry.id,
           repoName: entry.repoName,
           success: false,
-          message: `缓存仓库不存在: ${entry.repoName}`,
-          oldCommitId: entry.commitId,
+          message: getMissingRepoMessage(entry),
+          oldCommitId: status.loadedCommitId,
         });
         continue;
       }
 
-      const result = await syncEntry(entry, force, projectRoot);
+      const result = await syncEntry(entry, options, projectRoot);
       results.push(result);
     } else {
       // 不需要同步
@@ -254,8 +430,8 @@ export async function syncAll(
         repoName: entry.repoName,
         success: true,
         message: "已是最新版本",
-        oldCommitId: entry.commitId,
-        newCommitId: entry.commitId,
+        oldCommitId: status.loadedCommitId,
+        newCommitId: status.loadedCommitId,
       });
     }
   }
@@ -3,6 +3,8 @@
  * 定义全局配置、仓库条目、仓库元信息等核心类型
  */
 
+import { redactCredentials } from "../utils/redact.js";
+
 /**
  * 仓库条目接口
  * 存储在全局配置中的仓库基本信息
@@ -29,6 +31,14 @@ export interface GlobalConfig {
   shallowClone?: boolean;
   /** 浅克隆深度 */
   shallowDepth?: number;
+  /** grf gc 默认的缓存空间上限（如 5G） */
+  gcMaxSize?: string;
+  /** grf gc 默认的闲置时长（如 30d） */
+  gcOlderThan?: string;
+  /** grf gc 默认是否淘汰未被任何项目加载的仓库 */
+  gcUnused?: boolean;
+  /** 缓存存储根目录（repos/、mirrors/、worktrees/ 所在目录，未设置时为 grf 根目录） */
+  storageRoot?: string;
   /** 仓库映射表，key 为仓库别名 */
   repos: Record<string, RepoEntry>;
 }
@@ -54,6 +64,12 @@ export interface RepoMeta {
   tag?: string;
   /** Git 引用 */
   ref?: string;
+  /** 稀疏检出的路径（部分克隆时） */
+  sparse?: string[];
+  /** 是否检出 Git 子模块（--recursive），按引用检出的工作树同样适用 */
+  recursive?: boolean;
+  /** 浅克隆深度（完整历史时为空，grf fetch 调整后同步更新） */
+  depth?: number;
 }
 
 /**
@@ -104,7 +120,7 @@ export enum ErrorCode {
 
 /**
  * 自定义错误类
- * 包含错误码、错误消息和可选的原因错误
+ * 包含错误码、错误消息和可选的原因错误；消息中 URL 携带的凭据会被隐藏
  */
 export class GrfError extends Error {
   /** 错误码 */
@@ -113,13 +129,25 @@ export class GrfError extends Error {
   public cause?: Error;
 
   constructor(code: ErrorCode, message: string, cause?: Error) {
-    super(message);
+    super(redactCredentials(message));
     this.name = "GrfError";
     this.code = code;
     this.cause = cause;
   }
 }
 
+/**
+ * 子目录映射
+ * 将仓库中的子目录复制到目标路径下的指定位置 (--subdir src:dest)
+ */
+export interface SubdirMapping {
+  /** 仓库中的源子目录 */
+  source: string;
+
+  /** 相对于目标路径的位置（空字符串表示目标路径本身） */
+  target: string;
+}
+
 /**
  * 加载条目接口
  * 记录单次 use 操作的详细信息
@@ -128,11 +156,14 @@ export interface LoadingEntry {
   /** 唯一标识符 (UUID) */
   id: string;
 
-  /** 源仓库名称 (如 github.com/facebook/react) */
+  /** 源仓库名称 (如 github.com/facebook/react)，来源未知时为空字符串 */
   repoName: string;
 
-  /** 源仓库 URL */
-  repoUrl: string;
+  /** 源仓库 URL，来源未知时为空 */
+  repoUrl?: string;
+
+  /** 从旧版加载状态迁移时无法确定来源仓库，需要重新加载 */
+  unresolved?: boolean;
 
   /** 加载时的 commit ID */
   commitId: string;
@@ -140,9 +171,24 @@ export interface LoadingEntry {
   /** 加载时的分支名 */
   branch?: string;
 
+  /** 加载时指定的标签或 commit (--ref 选项)，同步时保持在该引用上 */
+  ref?: string;
+
   /** 使用的子目录 (--subdir 选项) */
   subdir?: string;
 
+  /** 多个子目录映射 (--subdir src:dest 选项) */
+  subdirs?: SubdirMapping[];
+
+  /** 包含的文件模式 (--include 选项) */
+  include?: string[];
+
+  /** 排除的文件模式 (--exclude 选项) */
+  exclude?: string[];
+
+  /** 复制前是否下载 Git LFS 内容 (--lfs 选项) */
+  lfs?: boolean;
+
   /** 目标路径 (相对于项目根目录) */
   targetPath: string;
 
@@ -166,3 +212,139 @@ export interface LoadingConfig {
   /** 加载条目列表 */
   entries: LoadingEntry[];
 }
+
+/**
+ * 项目清单条目接口
+ * 描述项目中声明的一个参考代码
+ */
+export interface ManifestEntry {
+  /** 源仓库名称 (如 github.com/facebook/react) */
+  name: string;
+
+  /** 源仓库 URL */
+  url: string;
+
+  /** 分支名 */
+  branch?: string;
+
+  /** 固定的标签或 commit (--ref 选项) */
+  ref?: string;
+
+  /** 使用的子目录 (--subdir 选项) */
+  subdir?: string;
+
+  /** 多个子目录映射 (--subdir src:dest 选项) */
+  subdirs?: SubdirMapping[];
+
+  /** 包含的文件模式 (--include 选项) */
+  include?: string[];
+
+  /** 排除的文件模式 (--exclude 选项) */
+  exclude?: string[];
+
+  /** 是否包含 Git 子模块 (--recursive 选项) */
+  recursive?: boolean;
+
+  /** 复制前是否下载 Git LFS 内容 (--lfs 选项) */
+  lfs?: boolean;
+
+  /** 目标路径 (相对于项目根目录) */
+  target: string;
+}
+
+/**
+ * 项目清单文件接口
+ * 存储在项目根目录的 grf.json 中，可提交到版本控制
+ */
+export interface ProjectManifest {
+  /** 清单版本 */
+  version: string;
+
+  /** 声明的参考代码列表 */
+  references: ManifestEntry[];
+}
+
+/**
+ * 锁文件条目接口
+ * 记录一个已加载参考代码的精确版本
+ */
+export interface LockEntry {
+  /** 源仓库名称 */
+  name: string;
+
+  /** 源仓库 URL */
+  url: string;
+
+  /** 分支名 */
+  branch?: string;
+
+  /** 固定的标签或 commit */
+  ref?: string;
+
+  /** 加载时的完整 commit SHA */
+  commit: string;
+
+  /** 使用的子目录 */
+  subdir?: string;
+
+  /** 多个子目录映射 */
+  subdirs?: SubdirMapping[];
+
+  /** 包含的文件模式 */
+  include?: string[];
+
+  /** 排除的文件模式 */
+  exclude?: string[];
+
+  /** 加载内容的哈希 (sha256-<base64>) */
+  integrity: string;
+}
+
+/**
+ * 锁文件接口
+ * 存储在项目根目录的 grf.lock 中，key 为目标路径
+ */
+export interface ProjectLock {
+  /** 锁文件格式版本 */
+  lockfileVersion: number;
+
+  /** 锁定的参考代码，key 为目标路径 (相对于项目根目录) */
+  references: Record<string, LockEntry>;
+}
+
+/**
+ * 文件快照接口
+ * 记录加载时每个文件的内容哈希，用于检测本地修改
+ * 存储在 ~/.gitreference/snapshots/<entryId>.json
+ */
+export interface FileSnapshot {
+  /** 快照格式版本 */
+  version: number;
+
+  /** 对应的加载条目 ID */
+  entryId: string;
+
+  /** 快照对应的 commit ID */
+  commitId: string;
+
+  /** 创建时间 (ISO 8601 格式) */
+  createdAt: string;
+
+  /** 文件哈希，key 为相对于目标路径的文件路径 */
+  files: Record<string, string>;
+}
+
+/**
+ * 本地修改接口
+ * 记录加载后在目标路径中被修改、新增、删除的文件
+ */
+export interface LocalChanges {
+  /** 内容被修改的文件 */
+  modified: string[];
+
+  /** 加载后新增的文件 */
+  added: string[];
+
+  /** 加载后被删除的文件 */
+  deleted: string[];
+}
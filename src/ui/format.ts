@@ -4,6 +4,7 @@
  */
 
 import chalk from "chalk";
+import type { GitProgress } from "../core/git.js";
 
 /**
  * 截断 commit ID（前 7 个字符）
@@ -215,6 +216,75 @@ export function formatRepoName(repoName: string): string {
   return normalizePath(repoName);
 }
 
+/**
+ * 格式化固定引用（用于显示）
+ * @param pin 包含 tag/ref 字段的对象
+ * @returns 格式化后的引用，未固定时返回空字符串
+ *
+ * @example
+ * ```typescript
+ * formatPin({ ref: "v1.0.0", tag: "v1.0.0" }); // "tag v1.0.0"
+ * formatPin({ ref: "abc1234567890" }); // "sha abc1234"
+ * ```
+ */
+export function formatPin(pin: { tag?: string; ref?: string }): string {
+  if (pin.tag) {
+    return `tag ${pin.tag}`;
+  }
+  return pin.ref ? `sha ${shortCommit(pin.ref)}` : "";
+}
+
+/**
+ * 格式化子目录信息（--subdir 选项）
+ * @param selection 包含 subdir/subdirs 字段的对象
+ * @returns 格式化后的子目录，未使用子目录时返回空字符串
+ *
+ * @example
+ * ```typescript
+ * formatSubdirs({ subdir: "src" }); // "src"
+ * formatSubdirs({ subdirs: [{ source: "packages/core/src", target: "core" }] }); // "packages/core/src → core"
+ * ```
+ */
+export function formatSubdirs(selection: {
+  subdir?: string;
+  subdirs?: { source: string; target: string }[];
+}): string {
+  if (selection.subdirs && selection.subdirs.length > 0) {
+    return selection.subdirs
+      .map((mapping) => `${mapping.source} → ${mapping.target || "."}`)
+      .join(", ");
+  }
+  return selection.subdir ?? "";
+}
+
+/**
+ * 格式化 Git 传输进度
+ * @param progress 进度信息
+ * @returns 格式化后的进度文本
+ *
+ * @example
+ * ```typescript
+ * formatGitProgress({ phase: "Receiving objects", percent: 45, current: 450, total: 1000,
+ *   transferred: "1.20 MiB", rate: "2.40 MiB/s", done: false });
+ * // "Receiving objects 45% (450/1000), 1.20 MiB | 2.40 MiB/s"
+ * ```
+ */
+export function formatGitProgress(progress: GitProgress): string {
+  let text = progress.phase;
+  if (progress.percent !== undefined) {
+    text += ` ${progress.percent}% (${progress.current}/${progress.total})`;
+  } else {
+    text += ` ${progress.current}`;
+  }
+  if (progress.transferred) {
+    text += `, ${progress.transferred}`;
+  }
+  if (progress.rate) {
+    text += ` | ${progress.rate}`;
+  }
+  return text;
+}
+
 /**
  * 状态图标
  */
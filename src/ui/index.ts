@@ -9,6 +9,7 @@ export {
   startSpinner,
   withSpinner,
   withSpinnerMessages,
+  createProgressHandler,
   type Spinner,
   type SpinnerOptions,
 } from "./spinner.js";
@@ -51,6 +52,7 @@ export {
   shortenPath,
   normalizePath,
   formatRepoName,
+  formatGitProgress,
   StatusIcon,
   getStatusIcon,
   formatError,
@@ -5,6 +5,8 @@
 
 import ora, { type Ora, type Options as OraOptions } from "ora";
 import chalk from "chalk";
+import type { GitProgressHandler } from "../core/git.js";
+import { formatGitProgress } from "./format.js";
 
 /**
  * Spinner 配置选项
@@ -161,3 +163,49 @@ export async function withSpinnerMessages<T>(
     throw error;
   }
 }
+
+/** 非 TTY 环境下未完成阶段的进度输出间隔（毫秒） */
+const PLAIN_PROGRESS_INTERVAL = 5000;
+
+/**
+ * 创建将 Git 传输进度显示到 spinner 上的回调
+ * 终端环境下实时刷新 spinner 文本；非 TTY 环境（如 CI 日志）下每个阶段完成时输出一行，
+ * 耗时较长的阶段每隔 5 秒输出一次当前进度
+ * @param spinner Spinner 实例
+ * @param label 显示在进度前的文本
+ * @returns Git 进度回调
+ *
+ * @example
+ * ```typescript
+ * const spinner = startSpinner("Cloning repository...");
+ * await git.clone(url, dest, {
+ *   onProgress: createProgressHandler(spinner, "Cloning repository..."),
+ * });
+ * ```
+ */
+export function createProgressHandler(
+  spinner: Spinner,
+  label: string,
+): GitProgressHandler {
+  let lastPrintedAt = Date.now();
+  const donePhases = new Set<string>();
+
+  return (progress) => {
+    // spinner 未在运行（非 TTY 或 CI 环境下 ora 不会启动动画）时改为逐行输出
+    if (process.stdout.isTTY && spinner.isSpinning) {
+      spinner.text = `${label} ${chalk.gray(formatGitProgress(progress))}`;
+      return;
+    }
+
+    if (donePhases.has(progress.phase)) {
+      return;
+    }
+    if (progress.done) {
+      donePhases.add(progress.phase);
+    } else if (Date.now() - lastPrintedAt < PLAIN_PROGRESS_INTERVAL) {
+      return;
+    }
+    lastPrintedAt = Date.now();
+    console.log(`  ${formatGitProgress(progress)}`);
+  };
+}
@@ -5,6 +5,7 @@
 
 import chalk from "chalk";
 import { GrfError, ErrorCode } from "../types/index.js";
+import { redactCredentials } from "./redact.js";
 
 /**
  * 错误处理选项
@@ -71,7 +72,7 @@ export function handleError(
 }
 
 /**
- * 获取错误消息
+ * 获取错误消息（隐藏其中 URL 携带的凭据）
  * @param error 错误对象
  * @returns 错误消息字符串
  */
@@ -81,11 +82,11 @@ export function getErrorMessage(error: unknown): string {
   }
 
   if (error instanceof Error) {
-    return error.message;
+    return redactCredentials(error.message);
   }
 
   if (typeof error === "string") {
-    return error;
+    return redactCredentials(error);
   }
 
   return "An unknown error occurred";
@@ -31,6 +31,9 @@ export {
   type ValidationResult,
 } from "./validation.js";
 
+// 凭据脱敏
+export { redactCredentials } from "./redact.js";
+
 // 常量
 export {
   DIR_NAMES,
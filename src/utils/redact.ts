@@ -0,0 +1,38 @@
+/**
+ * 凭据脱敏模块
+ * 从 URL、错误消息和输出文本中移除令牌、密码等凭据
+ */
+
+/** URL 中的用户信息: scheme://userinfo@ */
+const URL_USERINFO_REGEX = /\b([a-z][a-z0-9+.-]*):\/\/([^\s/@]+)@/gi;
+
+/** HTTP 认证头的值 */
+const AUTH_HEADER_REGEX = /\b(Authorization:\s*(?:Basic|Bearer|token)\s+)\S+/gi;
+
+/** 脱敏后的占位文本 */
+const REDACTED = "***";
+
+/**
+ * 移除文本中的凭据
+ * HTTP(S) URL 的用户信息（常用于携带令牌）全部隐藏，其他协议仅在包含密码时隐藏，
+ * 以保留 ssh://git@host 这类不含秘密的用户名
+ * @param text 原始文本
+ * @returns 脱敏后的文本
+ *
+ * @example
+ * ```typescript
+ * redactCredentials("https://ghp_abc@github.com/user/repo.git");
+ * // "https://***@github.com/user/repo.git"
+ * redactCredentials("ssh://git@github.com/user/repo.git");
+ * // "ssh://git@github.com/user/repo.git"
+ * ```
+ */
+export function redactCredentials(text: string): string {
+  return text
+    .replace(URL_USERINFO_REGEX, (match, scheme: string, userinfo: string) =>
+      /^https?$/i.test(scheme) || userinfo.includes(":")
+        ? `${scheme}://${REDACTED}@`
+        : match,
+    )
+    .replace(AUTH_HEADER_REGEX, `$1${REDACTED}`);
+}
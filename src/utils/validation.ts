@@ -69,16 +69,11 @@ export function validateGitUrl(url: string): ValidationResult {
     return { valid: false, message: "URL cannot be empty" };
   }
 
-  // HTTPS 格式: https://github.com/user/repo.git
-  const httpsRegex = /^https?:\/\/[^/]+\/[^/]+\/[^/]+/;
-  // SSH 格式: git@github.com:user/repo.git
-  const sshRegex = /^git@[^:]+:[^/]+\/[^/]+/;
-
-  if (!httpsRegex.test(url) && !sshRegex.test(url)) {
+  if (!isGitUrl(url.trim())) {
     return {
       valid: false,
       message:
-        "Invalid Git URL format. Expected HTTPS (https://...) or SSH (git@...) format",
+        "Invalid Git URL format. Expected HTTPS (https://...), SSH (git@host:... or ssh://...), git://, file:// or a local path",
     };
   }
 
@@ -100,12 +95,14 @@ export function validateGitUrl(url: string): ValidationResult {
  * ```
  */
 export function isGitUrl(str: string): boolean {
-  // HTTPS 格式: https://github.com/user/repo.git
-  const httpsRegex = /^https?:\/\/[^/]+\/[^/]+\/[^/]+/;
-  // SSH 格式: git@github.com:user/repo.git
-  const sshRegex = /^git@[^:]+:[^/]+\/[^/]+/;
-
-  return httpsRegex.test(str) || sshRegex.test(str);
+  // 带协议的 URL: https://、http://、ssh://、git+ssh://、git://、file://
+  const schemeRegex = /^(?:https?|ssh|git\+ssh|ssh\+git|git|file):\/\/\S+/i;
+  // scp 风格 SSH: git@github.com:user/repo.git
+  const scpRegex = /^[^@/\s]+@[^:/\s]+:\S+/;
+  // 本地路径: /abs、./rel、../rel、~/home、C:\
+  const localRegex = /^(?:\/|\.{1,2}[\\/]|~[\\/]|[A-Za-z]:[\\/])/;
+
+  return schemeRegex.test(str) || scpRegex.test(str) || localRegex.test(str);
 }
 
 /**